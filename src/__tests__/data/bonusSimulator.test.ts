@@ -0,0 +1,106 @@
+import {
+  BonusSimulator,
+  allocateBonus,
+  bpsProfile,
+  bpsRules,
+  eventBps,
+} from "../../data/bonusSimulator";
+import { fitScorelineModel, forecastScoreline } from "../../data/scorelineModel";
+import { seededRandom } from "../../utils/random";
+
+const game = (minutes: number, overrides: Record<string, unknown> = {}) =>
+  ({
+    minutes,
+    was_home: true,
+    team_h_score: 2,
+    team_a_score: 0,
+    goals_scored: 0,
+    assists: 0,
+    clean_sheets: 0,
+    goals_conceded: 0,
+    saves: 0,
+    yellow_cards: 0,
+    red_cards: 0,
+    bps: 10,
+    ...overrides,
+  }) as any;
+
+describe("bonusSimulator", () => {
+  const rules = bpsRules([
+    { id: 2, singular_name_short: "DEF" },
+    { id: 4, singular_name_short: "FWD" },
+  ]);
+  const forward = rules.get(4)!;
+
+  test("allocateBonus applies FPL's tie rules", () => {
+    const bonus = (scores: number[]) =>
+      [...allocateBonus(scores.map((bps, id) => ({ id, bps })))]
+        .sort(([a], [b]) => a - b)
+        .map(([, points]) => points);
+
+    expect(bonus([30, 20, 10, 5])).toEqual([3, 2, 1]);
+    expect(bonus([30, 30, 10, 5])).toEqual([3, 3, 1]);
+    expect(bonus([30, 20, 20, 5])).toEqual([3, 2, 2]);
+    expect(bonus([30, 20, 10, 10])).toEqual([3, 2, 1, 1]);
+    expect(bonus([30, 30, 30, 5])).toEqual([3, 3, 3]);
+  });
+
+  test("eventBps scores the modelled events by position", () => {
+    expect(eventBps(game(90, { goals_scored: 1, assists: 1 }), forward)).toBe(6 + 24 + 9);
+    expect(eventBps(game(30, { clean_sheets: 1 }), rules.get(2)!)).toBe(3 + 12);
+    expect(eventBps(game(0), forward)).toBe(0);
+  });
+
+  test("bpsProfile separates modelled events from the rest of a player's BPS", () => {
+    const profile = bpsProfile(
+      7,
+      [game(90, { goals_scored: 1, bps: 45 }), game(90, { bps: 16 }), game(0)],
+      forward
+    )!;
+
+    expect(profile.appearance).toBeCloseTo(2 / 3);
+    expect(profile.sixtyMinutes).toBeCloseTo(2 / 3);
+    // One of the team's four goals, with two added to the record
+    expect(profile.goalShare).toBeCloseTo(1 / 6);
+    // 45 - 30 and 16 - 6 BPS left over in two full games
+    expect(profile.otherBpsPer90).toBeCloseTo(12.5);
+    expect(profile.otherBpsStd).toBeCloseTo(2.5);
+    expect(bpsProfile(8, [game(0)], forward)).toBeUndefined();
+  });
+
+  test("simulate is repeatable and favours the likely scorer", () => {
+    const model = fitScorelineModel([], [1, 2]);
+    const { probabilities } = forecastScoreline(model, 1, 2);
+    const profile = (id: number, goalShare: number) => ({
+      id,
+      rules: forward,
+      appearance: 1,
+      sixtyMinutes: 1,
+      goalShare,
+      assistShare: 0.1,
+      savesPer90: 0,
+      yellowCardsPer90: 0.1,
+      otherBpsPer90: 10,
+      otherBpsStd: 4,
+    });
+    const home = [profile(1, 0.4), profile(2, 0.05)];
+    const away = [profile(3, 0.2), { ...profile(4, 0.2), appearance: 0, sixtyMinutes: 0 }];
+
+    const first = new BonusSimulator(seededRandom(42), 500).simulate(probabilities, home, away);
+    const second = new BonusSimulator(seededRandom(42), 500).simulate(probabilities, home, away);
+
+    expect(first).toEqual(second);
+    expect(first.get(1)!.expectedBonus).toBeGreaterThan(first.get(2)!.expectedBonus);
+    expect(first.get(4)).toEqual({
+      expectedBonus: 0,
+      bonusProbabilities: [1, 0, 0, 0],
+      expectedBps: 0,
+    });
+    for (const forecast of first.values()) {
+      expect(forecast.bonusProbabilities.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1);
+    }
+    // Three players who play share at least 6 bonus points a game
+    const total = [...first.values()].reduce((sum, forecast) => sum + forecast.expectedBonus, 0);
+    expect(total).toBeGreaterThanOrEqual(6);
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  careerFeatures,
+  positionalPriors,
+  shrunkPointsPer90,
+} from "../../data/careerFeatures";
+
+const season = (points: number, minutes: number, startCost = 50, endCost = 50) =>
+  ({
+    total_points: points,
+    minutes,
+    starts: Math.round(minutes / 90),
+    start_cost: startCost,
+    end_cost: endCost,
+  }) as any;
+
+describe("careerFeatures", () => {
+  test("positionalPriors averages points per 90 by position, weighted by minutes", () => {
+    const priors = positionalPriors([
+      { elementType: 4, historyPast: [season(180, 2700)] },
+      { elementType: 4, historyPast: [season(20, 900)] },
+      { elementType: 1, historyPast: [] },
+    ]);
+
+    expect(priors.get(4)).toBe(5);
+    expect(priors.get(1)).toBe(4);
+  });
+
+  test("shrinks thin records towards the prior and keeps long ones close to their own rate", () => {
+    expect(shrunkPointsPer90(10, 90, 4)).toBeCloseTo(50 / 11);
+    expect(shrunkPointsPer90(600, 9000, 4)).toBeCloseTo(640 / 110);
+  });
+
+  test("summarises past seasons and compares the current one with the last", () => {
+    const features = careerFeatures(
+      [season(100, 1800, 45, 50), season(0, 0), season(150, 2700, 55, 65)],
+      [{ total_points: 12, minutes: 180 } as any],
+      4
+    );
+
+    expect(features).toMatchObject({
+      careerSeasons: 2,
+      careerMinutes: 4500,
+      careerStarts: 50,
+      careerPointsPer90: 5,
+      lastSeasonStarts: 30,
+      lastSeasonPriceChange: 10,
+      careerPriceChange: 20,
+    });
+    expect(features.minutesTrend).toBeCloseTo(900 / 3420);
+    expect(features.lastSeasonPointsPer90Shrunk).toBeCloseTo(190 / 40);
+    expect(features.seasonOnSeasonImprovement).toBeCloseTo(
+      ((52 / 12 - 190 / 40) / (190 / 40)) * 100
+    );
+  });
+
+  test("a player without history scores the prior", () => {
+    const features = careerFeatures([], [], 3.5);
+
+    expect(features.careerPointsPer90Shrunk).toBe(3.5);
+    expect(features.seasonOnSeasonImprovement).toBe(0);
+  });
+});
@@ -1,157 +1,184 @@
-import { MongoClient } from "mongodb";
 import { FPLApiService } from "../../services/fplApiService";
 import { logger } from "../../utils/logger";
 import { FPLDataCollector } from "../../data/dataCollector";
+import { setCurrentSeason } from "../../data/season";
+import { MemoryStorage } from "../../storage/memoryStorage";
 
 // Mocking the dependencies
 jest.mock("../../services/fplApiService");
 jest.mock("../../utils/logger");
 
+const SEASON = "2024/25";
+
+const bootstrap = (elements: any[] = [], events: any[] = []) => ({
+  teams: [{ id: 1, name: "Arsenal" }],
+  elements,
+  events,
+  element_types: [{ id: 1, singular_name_short: "GKP" }],
+  total_players: 10_000_000,
+});
+
+const event = (id: number, extra: object = {}) => ({
+  id,
+  deadline_time: `2024-08-${10 + id}T17:30:00Z`,
+  finished: false,
+  data_checked: false,
+  ...extra,
+});
+
 describe("FPLDataCollector", () => {
-  let mongoClient: jest.Mocked<MongoClient>;
+  let storage: MemoryStorage;
   let collector: FPLDataCollector;
 
   beforeEach(() => {
-    mongoClient = {
-      db: jest.fn().mockReturnValue({
-        collection: jest.fn().mockReturnThis(),
-        deleteMany: jest.fn().mockResolvedValue({}),
-        insertOne: jest.fn().mockResolvedValue({}),
-        insertMany: jest.fn().mockResolvedValue({}),
-        updateOne: jest.fn().mockResolvedValue({}),
-        find: jest.fn().mockReturnThis(),
-        toArray: jest.fn().mockResolvedValue([]),
-      }),
-    } as unknown as jest.Mocked<MongoClient>;
-
-    collector = new FPLDataCollector(mongoClient);
-  });
-
-  afterEach(() => {
-    jest.clearAllMocks();
+    jest.resetAllMocks();
+    storage = new MemoryStorage();
+    collector = new FPLDataCollector(storage);
+    (FPLApiService.getBootstrapStatic as jest.Mock).mockResolvedValue(bootstrap());
+    (FPLApiService.getFixtures as jest.Mock).mockResolvedValue([]);
   });
 
   test("fetchAndStoreBootstrapStatic should store data correctly", async () => {
-    const mockData = {
-      teams: [],
-      elements: [],
-      events: [],
-      element_types: [],
-    };
+    const mockData = bootstrap([{ id: 7, web_name: "Saka" }], [event(1)]);
     (FPLApiService.getBootstrapStatic as jest.Mock).mockResolvedValue(mockData);
 
     await collector.fetchAndStoreBootstrapStatic();
 
     expect(FPLApiService.getBootstrapStatic).toHaveBeenCalled();
-    expect(
-      mongoClient.db().collection("bootstrap_static").deleteMany
-    ).toHaveBeenCalled();
-    expect(
-      mongoClient.db().collection("bootstrap_static").insertOne
-    ).toHaveBeenCalledWith(mockData);
-    expect(mongoClient.db().collection("teams").deleteMany).toHaveBeenCalled();
-    expect(
-      mongoClient.db().collection("teams").insertMany
-    ).toHaveBeenCalledWith(mockData.teams);
-    expect(
-      mongoClient.db().collection("players").deleteMany
-    ).toHaveBeenCalled();
-    expect(
-      mongoClient.db().collection("players").insertMany
-    ).toHaveBeenCalledWith(mockData.elements);
-    expect(
-      mongoClient.db().collection("gameweeks").deleteMany
-    ).toHaveBeenCalled();
-    expect(
-      mongoClient.db().collection("gameweeks").insertMany
-    ).toHaveBeenCalledWith(mockData.events);
-    expect(
-      mongoClient.db().collection("elements_types").deleteMany
-    ).toHaveBeenCalled();
-    expect(
-      mongoClient.db().collection("elements_types").insertMany
-    ).toHaveBeenCalledWith(mockData.element_types);
+    expect(await storage.collection("bootstrap_static").find()).toEqual([
+      expect.objectContaining({ ...mockData, season: SEASON }),
+    ]);
+    expect(await storage.collection("teams").find()).toEqual([
+      expect.objectContaining({ ...mockData.teams[0], season: SEASON }),
+    ]);
+    expect(await storage.collection("players").find()).toEqual([
+      expect.objectContaining({ ...mockData.elements[0], season: SEASON }),
+    ]);
+    expect(await storage.collection("gameweeks").find()).toEqual([
+      expect.objectContaining({ ...mockData.events[0], season: SEASON }),
+    ]);
+    expect(await storage.collection("elements_types").find()).toEqual([
+      expect.objectContaining({ ...mockData.element_types[0], season: SEASON }),
+    ]);
+    expect(await storage.collection("seasons").findOne({ current: true })).toEqual(
+      expect.objectContaining({ id: SEASON })
+    );
     expect(logger.info).toHaveBeenCalledWith(
       "Bootstrap static data stored successfully"
     );
   });
 
+  test("fetchAndStoreBootstrapStatic should keep other seasons' data", async () => {
+    await storage
+      .collection("players")
+      .insertOne({ id: 7, web_name: "Saka", season: "2023/24" } as any);
+    (FPLApiService.getBootstrapStatic as jest.Mock).mockResolvedValue(
+      bootstrap([{ id: 8, web_name: "Rice" }], [event(1)])
+    );
+
+    await collector.fetchAndStoreBootstrapStatic();
+
+    const players = await storage.collection("players").find({}, { sort: { id: 1 } });
+    expect(players.map((player) => [player.id, player.season])).toEqual([
+      [7, "2023/24"],
+      [8, SEASON],
+    ]);
+  });
+
+  test("fetchAndStoreBootstrapStatic should log availability changes", async () => {
+    const before = {
+      id: 7,
+      web_name: "Saka",
+      status: "a",
+      news: "",
+      news_added: null,
+      chance_of_playing_next_round: null,
+      chance_of_playing_this_round: null,
+    };
+    const after = {
+      ...before,
+      status: "d",
+      news: "Hamstring injury - 50% chance of playing",
+      news_added: "2024-09-02T10:00:00Z",
+      chance_of_playing_next_round: 50,
+    };
+    await storage.collection("players").insertOne({ ...before, season: SEASON } as any);
+    (FPLApiService.getBootstrapStatic as jest.Mock).mockResolvedValue(
+      bootstrap([after], [event(1)])
+    );
+
+    await collector.fetchAndStoreBootstrapStatic();
+
+    expect(await storage.collection("availability_changes").find()).toEqual([
+      expect.objectContaining({
+        season: SEASON,
+        element: 7,
+        previous: expect.objectContaining({ status: "a" }),
+        current: expect.objectContaining({
+          status: "d",
+          chanceOfPlayingNextRound: 50,
+        }),
+      }),
+    ]);
+  });
+
   test("fetchAndStoreFixtures should store data correctly", async () => {
-    const mockData: any[] = [];
+    await setCurrentSeason(storage, SEASON);
+    const mockData = [{ id: 1, event: 1, team_h: 1, team_a: 2 }];
     (FPLApiService.getFixtures as jest.Mock).mockResolvedValue(mockData);
 
     await collector.fetchAndStoreFixtures();
 
     expect(FPLApiService.getFixtures).toHaveBeenCalled();
-    expect(
-      mongoClient.db().collection("fixtures").deleteMany
-    ).toHaveBeenCalled();
-    expect(
-      mongoClient.db().collection("fixtures").insertMany
-    ).toHaveBeenCalledWith(mockData);
+    expect(await storage.collection("fixtures").find()).toEqual([
+      expect.objectContaining({ ...mockData[0], season: SEASON }),
+    ]);
     expect(logger.info).toHaveBeenCalledWith(
       "Fixtures data stored successfully"
     );
   });
 
   test("fetchAndStorePlayerSummary should store player summary correctly", async () => {
+    await setCurrentSeason(storage, SEASON);
     const playerId = 1;
-    const mockData = { id: playerId };
-    (FPLApiService.getPlayerSummary as jest.Mock).mockResolvedValue(mockData);
+    (FPLApiService.getPlayerSummary as jest.Mock).mockResolvedValue({
+      history: [],
+    });
 
+    await collector.fetchAndStorePlayerSummary(playerId);
     await collector.fetchAndStorePlayerSummary(playerId);
 
     expect(FPLApiService.getPlayerSummary).toHaveBeenCalledWith(playerId);
-    expect(
-      mongoClient.db().collection("player_summaries").updateOne
-    ).toHaveBeenCalledWith(
-      { id: playerId },
-      { $set: mockData },
-      { upsert: true }
-    );
+    expect(await storage.collection("player_summaries").find()).toEqual([
+      expect.objectContaining({ id: playerId, season: SEASON, history: [] }),
+    ]);
     expect(logger.info).toHaveBeenCalledWith(
       `Player summary for ID ${playerId} stored successfully`
     );
   });
 
   test("fetchAndStoreGameweekLive should store gameweek live data correctly", async () => {
+    await setCurrentSeason(storage, SEASON);
     const gameweek = 1;
-    const mockData = { id: gameweek };
-    (FPLApiService.getGameweekLive as jest.Mock).mockResolvedValue(mockData);
+    (FPLApiService.getGameweekLive as jest.Mock).mockResolvedValue({ elements: [] });
 
     await collector.fetchAndStoreGameweekLive(gameweek);
 
     expect(FPLApiService.getGameweekLive).toHaveBeenCalledWith(gameweek);
-    expect(
-      mongoClient.db().collection("gameweek_live").updateOne
-    ).toHaveBeenCalledWith(
-      { id: gameweek },
-      { $set: mockData },
-      { upsert: true }
-    );
+    expect(await storage.collection("gameweek_live").find()).toEqual([
+      expect.objectContaining({ id: gameweek, season: SEASON, elements: [] }),
+    ]);
     expect(logger.info).toHaveBeenCalledWith(
       `Gameweek ${gameweek} live data stored successfully`
     );
   });
 
   test("fetchAllData should fetch and store all data correctly", async () => {
-    const mockPlayerData = [{ id: 1 }];
-    (
-      mongoClient.db().collection("players").find().toArray as jest.Mock
-    ).mockResolvedValue(mockPlayerData);
-    const mockFixturesData: never[] = [];
-    const mockPlayerSummaryData = { id: 1 };
-    const mockGameweekLiveData = { id: 1 };
-
-    (FPLApiService.getFixtures as jest.Mock).mockResolvedValue(
-      mockFixturesData
-    );
-    (FPLApiService.getPlayerSummary as jest.Mock).mockResolvedValue(
-      mockPlayerSummaryData
-    );
-    (FPLApiService.getGameweekLive as jest.Mock).mockResolvedValue(
-      mockGameweekLiveData
+    (FPLApiService.getBootstrapStatic as jest.Mock).mockResolvedValue(
+      bootstrap([{ id: 1 }], [event(1, { finished: true })])
     );
+    (FPLApiService.getPlayerSummary as jest.Mock).mockResolvedValue({ history: [] });
+    (FPLApiService.getGameweekLive as jest.Mock).mockResolvedValue({ elements: [] });
 
     await collector.fetchAllData();
 
@@ -159,4 +186,65 @@ describe("FPLDataCollector", () => {
     expect(FPLApiService.getFixtures).toHaveBeenCalled();
     expect(FPLApiService.getPlayerSummary).toHaveBeenCalledWith(1);
     expect(FPLApiService.getGameweekLive).toHaveBeenCalledWith(1);
-  });});
+  });
+
+  test("fetchAllData should report players that could not be fetched", async () => {
+    (FPLApiService.getBootstrapStatic as jest.Mock).mockResolvedValue(
+      bootstrap([{ id: 1 }, { id: 2 }, { id: 3 }], [event(1, { finished: true })])
+    );
+    (FPLApiService.getPlayerSummary as jest.Mock).mockImplementation(
+      async (playerId: number) => {
+        if (playerId === 2) throw new Error("HTTP 503");
+        return { id: playerId };
+      }
+    );
+    (FPLApiService.getGameweekLive as jest.Mock).mockResolvedValue({});
+
+    const summary = await collector.fetchAllData();
+
+    expect(FPLApiService.getPlayerSummary).toHaveBeenCalledTimes(3);
+    expect(summary.failedPlayerIds).toEqual([2]);
+    expect(summary.playersFetched).toBe(2);
+    expect(summary.failedGameweeks).toEqual([]);
+  });
+
+  test("fetchAllData should skip unchanged players and finished gameweeks", async () => {
+    (FPLApiService.getBootstrapStatic as jest.Mock).mockResolvedValue(
+      bootstrap(
+        [{ id: 1, total_points: 10 }],
+        [event(1, { finished: true, data_checked: true }), event(2, { is_current: true })]
+      )
+    );
+    (FPLApiService.getGameweekLive as jest.Mock).mockResolvedValue({});
+    (FPLApiService.getPlayerSummary as jest.Mock).mockResolvedValue({});
+
+    // First run: nothing recorded yet, so everything is fetched.
+    await collector.fetchAllData();
+    expect(FPLApiService.getPlayerSummary).toHaveBeenCalledWith(1);
+    expect(FPLApiService.getGameweekLive).toHaveBeenCalledWith(1);
+
+    jest.clearAllMocks();
+    const summary = await collector.fetchAllData();
+
+    expect(FPLApiService.getPlayerSummary).not.toHaveBeenCalled();
+    expect(FPLApiService.getGameweekLive).not.toHaveBeenCalledWith(1);
+    expect(FPLApiService.getGameweekLive).toHaveBeenCalledWith(2);
+    expect(summary.playersSkipped).toBe(1);
+    expect(summary.gameweeksSkipped).toBe(1);
+  });
+
+  test("fetchAllData with full should refetch everything", async () => {
+    (FPLApiService.getBootstrapStatic as jest.Mock).mockResolvedValue(
+      bootstrap([{ id: 1 }], [event(1, { finished: true, data_checked: true })])
+    );
+    (FPLApiService.getGameweekLive as jest.Mock).mockResolvedValue({});
+    (FPLApiService.getPlayerSummary as jest.Mock).mockResolvedValue({});
+    await collector.fetchAllData();
+    jest.clearAllMocks();
+
+    await collector.fetchAllData({ full: true });
+
+    expect(FPLApiService.getPlayerSummary).toHaveBeenCalledWith(1);
+    expect(FPLApiService.getGameweekLive).toHaveBeenCalledWith(1);
+  });
+});
@@ -1,30 +1,25 @@
-import { MongoClient, Db, Collection } from "mongodb";
 import { DataProcessor } from "../../data/dataProcessor";
+import { setCurrentSeason } from "../../data/season";
+import { Team } from "../../models/fplTypes";
+import { MemoryStorage } from "../../storage/memoryStorage";
 import { logger } from "../../utils/logger";
 
 jest.mock("../../utils/logger");
 
+const SEASON = "2024/25";
+
 describe("DataProcessor", () => {
-  let mongoClient: jest.Mocked<MongoClient>;
+  let storage: MemoryStorage;
   let dataProcessor: DataProcessor;
-  let mockCollection: jest.Mocked<Collection<any>>;
-
-  beforeEach(() => {
-    mockCollection = {
-      find: jest.fn().mockReturnValue({
-        toArray: jest.fn().mockResolvedValue([]),
-      }),
-      deleteMany: jest.fn().mockResolvedValue({}),
-      insertMany: jest.fn().mockResolvedValue({}),
-    } as unknown as jest.Mocked<Collection<any>>;
-
-    mongoClient = {
-      db: jest.fn().mockReturnValue({
-        collection: jest.fn().mockReturnValue(mockCollection),
-      }),
-    } as unknown as jest.Mocked<MongoClient>;
-
-    dataProcessor = new DataProcessor(mongoClient);
+
+  // Stored documents without the `_id` the storage adds
+  const stored = async (name: string) =>
+    (await storage.collection(name).find()).map(({ _id, ...document }) => document);
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    await setCurrentSeason(storage, SEASON);
+    dataProcessor = new DataProcessor(storage);
   });
 
   afterEach(() => {
@@ -38,6 +33,7 @@ describe("DataProcessor", () => {
     const mockProcessedPlayers = [
       {
         id: 1,
+        availability: 1,
         totalPoints: 0,
         averagePoints: 0,
         form: 0,
@@ -54,33 +50,29 @@ describe("DataProcessor", () => {
         assistsPerGame: 0,
         cleanSheets: 0,
         goalsConceded: 0,
+        saves: 0,
         xG: 0,
         xA: 0,
         xGI: 0,
         upcomingFixtureDifficulty: 0,
+        upcomingFixtureCount: 0,
         seasonOnSeasonPerformance: 1,
         lastSeasonPoints: 0,
         history: [],
+        historyPast: [],
         fixtures: [],
+        season: SEASON,
       },
     ];
-    mongoClient
-      .db()
+    await storage
       .collection("player_summaries")
-      .find()
-      .toArray = jest.fn().mockResolvedValue(mockPlayers);
-
-    // Spy on the methods to ensure they are called
-    const deleteManySpy = jest.spyOn(mockCollection, "deleteMany");
-    const insertManySpy = jest.spyOn(mockCollection, "insertMany");
+      .insertMany(mockPlayers.map((player) => ({ ...player, season: SEASON })));
+    // A stale document from an earlier run is replaced
+    await storage.collection("processed_players").insertOne({ id: 1, season: SEASON } as any);
 
     await (dataProcessor as any).processPlayerData();
 
-    expect(
-      mongoClient.db().collection("player_summaries").find
-    ).toHaveBeenCalled();
-    expect(deleteManySpy).toHaveBeenCalled();
-    expect(insertManySpy).toHaveBeenCalledWith(mockProcessedPlayers);
+    expect(await stored("processed_players")).toEqual(mockProcessedPlayers);
     expect(logger.info).toHaveBeenCalledWith(
       "Player data processed and stored."
     );
@@ -110,68 +102,88 @@ describe("DataProcessor", () => {
         awayBonus: 0,
         homeBps: 0,
         awayBps: 0,
+        season: SEASON,
       },
     ];
-    mongoClient
-      .db()
+    await storage
       .collection("fixtures")
-      .find()
-      .toArray = jest.fn().mockResolvedValue(mockFixtures);
-
-    // Spy on the methods to ensure they are called
-    const deleteManySpy = jest.spyOn(mockCollection, "deleteMany");
-    const insertManySpy = jest.spyOn(mockCollection, "insertMany");
+      .insertMany(mockFixtures.map((fixture) => ({ ...fixture, season: SEASON })) as any);
 
     await (dataProcessor as any).processFixtureData();
 
-    expect(mongoClient.db().collection("fixtures").find).toHaveBeenCalled();
-    expect(deleteManySpy).toHaveBeenCalled();
-    expect(insertManySpy).toHaveBeenCalledWith(mockProcessedFixtures);
+    expect(await stored("processed_fixtures")).toEqual(mockProcessedFixtures);
     expect(logger.info).toHaveBeenCalledWith(
       "Fixture data processed and stored."
     );
   });
 
   test("processTeamData should process and store team data correctly", async () => {
-    const mockTeams = [
+    const mockTeams: Team[] = [
       {
         id: 1,
-        strength_overall_home: 0,
-        strength_overall_away: 0,
-        strength_attack_home: 0,
-        strength_attack_away: 0,
-        strength_defence_home: 0,
-        strength_defence_away: 0,
+        code: 3,
+        name: "Arsenal",
+        short_name: "ARS",
+        strength: 4,
+        strength_overall_home: 1300,
+        strength_overall_away: 1340,
+        strength_attack_home: 1310,
+        strength_attack_away: 1350,
+        strength_defence_home: 1280,
+        strength_defence_away: 1320,
+        played: 0,
+        win: 0,
+        draw: 0,
+        loss: 0,
+        points: 0,
+        position: 0,
+        form: null,
+        unavailable: false,
+        pulse_id: 1,
       },
     ];
     const mockProcessedTeams = [
       {
         id: 1,
-        averageOverallStrength: 0,
-        averageAttackStrength: 0,
-        averageDefenceStrength: 0,
-        overallStrengthHomeBias: 0,
-        attackStrengthHomeBias: 0,
-        defenceStrengthHomeBias: 0,
+        code: 3,
+        name: "Arsenal",
+        shortName: "ARS",
+        strength: 4,
+        form: null,
+        position: 0,
+        played: 0,
+        points: 0,
+        won: 0,
+        drawn: 0,
+        lost: 0,
+        strengthOverallHome: 1300,
+        strengthOverallAway: 1340,
+        strengthAttackHome: 1310,
+        strengthAttackAway: 1350,
+        strengthDefenceHome: 1280,
+        strengthDefenceAway: 1320,
+        averageOverallStrength: 1320,
+        averageAttackStrength: 1330,
+        averageDefenceStrength: 1300,
+        overallStrengthHomeBias: -40,
+        attackStrengthHomeBias: -40,
+        defenceStrengthHomeBias: -40,
+        unavailable: false,
+        pulseId: 1,
+        season: SEASON,
       },
     ];
-    mongoClient
-      .db()
+    await storage
       .collection("teams")
-      .find()
-      .toArray = jest.fn().mockResolvedValue(mockTeams);
-
-    // Spy on the methods to ensure they are called
-    const deleteManySpy = jest.spyOn(mockCollection, "deleteMany");
-    const insertManySpy = jest.spyOn(mockCollection, "insertMany");
+      .insertMany(mockTeams.map((team) => ({ ...team, season: SEASON })));
 
     await (dataProcessor as any).processTeamData();
 
-    expect(mongoClient.db().collection("teams").find).toHaveBeenCalled();
-    expect(deleteManySpy).toHaveBeenCalled();
-    expect(insertManySpy).toHaveBeenCalledWith(mockProcessedTeams);
+    expect(await stored("processed_teams")).toEqual(mockProcessedTeams);
     expect(logger.info).toHaveBeenCalledWith("Team data processed and stored.");
-  });  test("processData should call processPlayerData, processFixtureData, and processTeamData in sequence", async () => {
+  });
+
+  test("processData should call processPlayerData, processFixtureData, and processTeamData in sequence", async () => {
     const processPlayerDataSpy = jest.spyOn(dataProcessor, "processPlayerData" as keyof typeof dataProcessor);
     const processFixtureDataSpy = jest.spyOn(
       dataProcessor,
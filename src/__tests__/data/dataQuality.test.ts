@@ -0,0 +1,196 @@
+import {
+  DataQualityError,
+  DataQualityValidator,
+  analyzeFields,
+} from "../../data/dataQuality";
+import { qualityConfig } from "../../config/quality";
+import { setCurrentSeason } from "../../data/season";
+import { MemoryStorage } from "../../storage/memoryStorage";
+
+jest.mock("../../utils/logger");
+
+const SEASON = "2024/25";
+
+const strengths = {
+  strength: 4,
+  strength_overall_home: 1200,
+  strength_overall_away: 1200,
+  strength_attack_home: 1200,
+  strength_attack_away: 1200,
+  strength_defence_home: 1200,
+  strength_defence_away: 1200,
+};
+
+describe("DataQualityValidator", () => {
+  let storage: MemoryStorage;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    await setCurrentSeason(storage, SEASON);
+    await storage.collection("teams").insertMany([
+      { id: 1, season: SEASON, ...strengths },
+      { id: 2, season: SEASON },
+    ] as any);
+    await storage.collection("elements_types").insertOne({ id: 1, season: SEASON } as any);
+    await storage.collection("gameweeks").insertOne({
+      id: 1,
+      season: SEASON,
+      deadline_time: "2024-08-16T17:30:00Z",
+      finished: true,
+    } as any);
+    await storage.collection("players").insertMany([
+      { id: 1, season: SEASON, team: 1, element_type: 1, now_cost: 55 },
+      { id: 2, season: SEASON, team: 9, element_type: 1, now_cost: 900 },
+    ] as any);
+    await storage.collection("player_summaries").insertMany([
+      { id: 1, season: SEASON, history: [] },
+      { id: 3, season: SEASON, history: [{ round: 1 }] },
+    ] as any);
+    await storage.collection("fixtures").insertOne({
+      id: 1,
+      season: SEASON,
+      event: 1,
+      team_h: 1,
+      team_a: 2,
+      team_h_difficulty: 3,
+    } as any);
+  });
+
+  test("checkCollection reports coverage, invalid values and dangling references", async () => {
+    const validator = new DataQualityValidator(storage);
+
+    const report = await validator.checkCollection();
+
+    expect(report.coverage).toEqual([
+      expect.objectContaining({ name: "player_summaries", expected: 2, missing: [2] }),
+      expect.objectContaining({ name: "gameweek_live", expected: 1, missing: [1] }),
+      expect.objectContaining({
+        name: "player_summaries.history",
+        missing: [1],
+        enforced: false,
+      }),
+    ]);
+    const field = (collection: string, name: string) =>
+      report.fields.find((f) => f.collection === collection && f.field === name);
+    expect(field("teams", "strength_attack_home")).toMatchObject({ count: 2, missing: 1 });
+    expect(field("fixtures", "team_a_difficulty")).toMatchObject({ missing: 1 });
+    expect(field("players", "now_cost")).toMatchObject({ outOfRange: 1 });
+    expect(report.integrity).toEqual([
+      expect.objectContaining({ collection: "players", field: "team", id: 2, value: 9 }),
+      expect.objectContaining({ collection: "player_summaries", id: 3 }),
+    ]);
+    expect(report.violations).toContain("player_summaries: 1 of 2 missing");
+    expect(await storage.collection("data_quality_reports").countDocuments()).toBe(1);
+  });
+
+  test("checkFeatures counts NaN and Infinity values", async () => {
+    await storage.collection("processed_players").insertOne({ id: 1, season: SEASON } as any);
+    await storage.collection("player_features").insertOne({
+      id: 1,
+      season: SEASON,
+      recentFormScore: NaN,
+      pricePerformanceRatio: Infinity,
+      consistencyScore: 1,
+    } as any);
+    const validator = new DataQualityValidator(storage);
+
+    const report = await validator.checkFeatures();
+
+    expect(report.fields).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ field: "recentFormScore", nan: 1 }),
+        expect.objectContaining({ field: "pricePerformanceRatio", infinite: 1 }),
+      ])
+    );
+    expect(report.coverage[1]).toMatchObject({ name: "fixture_features", missing: [1] });
+  });
+
+  test("throws when thresholds are exceeded and failOnThresholds is set", async () => {
+    const validator = new DataQualityValidator(storage, {
+      ...qualityConfig,
+      failOnThresholds: true,
+    });
+
+    await expect(validator.checkCollection()).rejects.toBeInstanceOf(DataQualityError);
+    expect(await storage.collection("data_quality_reports").countDocuments()).toBe(1);
+  });
+
+  test("checkCollection passes on realistic data with the nulls FPL leaves on purpose", async () => {
+    const realistic = new MemoryStorage();
+    await setCurrentSeason(realistic, SEASON);
+    const teamIds = [1, 2, 3, 4];
+    await realistic
+      .collection("teams")
+      .insertMany(teamIds.map((id) => ({ id, season: SEASON, ...strengths }) as any));
+    await realistic
+      .collection("elements_types")
+      .insertMany([1, 2, 3, 4].map((id) => ({ id, season: SEASON }) as any));
+    await realistic.collection("gameweeks").insertMany([
+      { id: 1, season: SEASON, deadline_time: "2024-08-16T17:30:00Z", finished: true },
+      { id: 2, season: SEASON, deadline_time: "2099-08-24T10:00:00Z", finished: false },
+    ] as any);
+    await realistic.collection("gameweek_live").insertOne({ id: 1, season: SEASON } as any);
+    // Only players with news have a chance of playing
+    const players = Array.from({ length: 10 }, (_, index) => ({
+      id: index + 1,
+      season: SEASON,
+      team: teamIds[index % 4],
+      element_type: (index % 4) + 1,
+      now_cost: 45 + index,
+      chance_of_playing_next_round: index === 0 ? 75 : null,
+      chance_of_playing_this_round: index === 0 ? 50 : null,
+    }));
+    await realistic.collection("players").insertMany(players as any);
+    await realistic
+      .collection("player_summaries")
+      .insertMany(players.map(({ id }) => ({ id, season: SEASON, history: [] }) as any));
+    const fixture = (id: number, event: number | null, score: number | null) => ({
+      id,
+      season: SEASON,
+      event,
+      finished: score !== null,
+      team_h: teamIds[id % 4],
+      team_a: teamIds[(id + 1) % 4],
+      team_h_difficulty: 3,
+      team_a_difficulty: 2,
+      team_h_score: score,
+      team_a_score: score,
+    });
+    await realistic
+      .collection("fixtures")
+      .insertMany([
+        fixture(1, 1, 2),
+        fixture(2, 1, 0),
+        fixture(3, 2, null),
+        fixture(4, 2, null),
+        fixture(5, 2, null),
+        fixture(6, null, null),
+      ] as any);
+    const validator = new DataQualityValidator(realistic, {
+      ...qualityConfig,
+      failOnThresholds: true,
+    });
+
+    const report = await validator.checkCollection();
+
+    expect(report.violations).toEqual([]);
+    const field = (collection: string, name: string) =>
+      report.fields.find((f) => f.collection === collection && f.field === name);
+    expect(field("players", "chance_of_playing_next_round")).toMatchObject({
+      count: 10,
+      missing: 0,
+    });
+    expect(field("fixtures", "team_h_score")).toMatchObject({ count: 6, missing: 0 });
+    expect(field("fixtures", "event")).toMatchObject({ missing: 0 });
+  });
+
+  test("analyzeFields still counts NaN and out-of-range values of nullable fields", () => {
+    const [chance] = analyzeFields("players", [
+      { chance_of_playing_next_round: null },
+      { chance_of_playing_next_round: NaN },
+      { chance_of_playing_next_round: 150 },
+    ]);
+
+    expect(chance).toMatchObject({ missing: 0, nan: 1, outOfRange: 1 });
+  });
+});
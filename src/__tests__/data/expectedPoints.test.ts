@@ -0,0 +1,132 @@
+import {
+  expectedPoints,
+  expectedPointsFeatures,
+  expectedSteps,
+  fixtureOutlook,
+  pointsProbabilities,
+  projectPoints,
+  scoringRules,
+} from "../../data/expectedPoints";
+import { scoringConfig } from "../../config/scoring";
+
+const game = (minutes: number, overrides: Record<string, unknown> = {}) =>
+  ({
+    minutes,
+    was_home: true,
+    team_h_score: 1,
+    team_a_score: 1,
+    goals_scored: 0,
+    assists: 0,
+    saves: 0,
+    yellow_cards: 0,
+    red_cards: 0,
+    bonus: 0,
+    ...overrides,
+  }) as any;
+
+const certain = {
+  appearance: 1,
+  sixtyMinutes: 1,
+  goals: 0,
+  assists: 0,
+  cleanSheet: 0,
+  goalsConceded: 0,
+  saves: 0,
+  yellowCards: 0,
+  redCards: 0,
+  bonus: 0,
+};
+
+describe("expectedPoints", () => {
+  const rules = scoringRules([
+    { id: 1, singular_name_short: "GKP" },
+    { id: 2, singular_name_short: "DEF" },
+    { id: 3, singular_name_short: "MID" },
+    { id: 4, singular_name_short: "FWD" },
+    { id: 5, singular_name_short: "AM" },
+  ]);
+
+  test("scoringRules keys the configured rules by element type", () => {
+    expect(rules.get(1)).toBe(scoringConfig.GKP);
+    expect(rules.get(4)?.goal).toBe(4);
+    expect(rules.has(5)).toBe(false);
+  });
+
+  test("expectedSteps counts how often a stepwise rule pays out", () => {
+    expect(expectedSteps(0, 2)).toBe(0);
+    // P(X >= 1) for a Poisson mean of 1
+    expect(expectedSteps(1, 1)).toBeCloseTo(1, 6);
+    // E[floor(X / 2)] = (mean - (1 - e^(-2 mean)) / 2) / 2
+    expect(expectedSteps(2, 2)).toBeCloseTo((2 - (1 - Math.exp(-4)) / 2) / 2, 6);
+  });
+
+  test("position rules weigh the same events differently", () => {
+    const probabilities = { ...certain, goals: 0.5, cleanSheet: 0.4 };
+    const defender = expectedPoints(probabilities, rules.get(2)!);
+    const forward = expectedPoints(probabilities, rules.get(4)!);
+
+    expect(defender.appearance).toBe(2);
+    expect(defender.goals).toBe(3);
+    expect(defender.cleanSheet).toBeCloseTo(1.6);
+    expect(forward.goals).toBe(2);
+    expect(forward.cleanSheet).toBe(0);
+  });
+
+  test("the breakdown adds up to the total", () => {
+    const breakdown = expectedPoints(
+      { ...certain, goalsConceded: 1.5, saves: 3.2, yellowCards: 0.2, bonus: 0.4 },
+      rules.get(1)!
+    );
+    const { total, ...parts } = breakdown;
+
+    expect(breakdown.goalsConceded).toBeLessThan(0);
+    expect(breakdown.saves).toBeGreaterThan(0);
+    expect(breakdown.cards).toBeCloseTo(-0.2);
+    expect(total).toBeCloseTo(Object.values(parts).reduce((sum, value) => sum + value, 0));
+  });
+
+  test("pointsProbabilities scales the player's rates to the fixture", () => {
+    const history = [game(90, { goals_scored: 1 }), game(90), game(0), game(90)];
+    const even = pointsProbabilities(history, {
+      teamGoals: 1,
+      opponentGoals: 1,
+      cleanSheet: 0.3,
+    })!;
+    const easy = pointsProbabilities(history, {
+      teamGoals: 2,
+      opponentGoals: 0.5,
+      cleanSheet: 0.6,
+    })!;
+
+    expect(even.appearance).toBe(0.75);
+    expect(even.sixtyMinutes).toBe(0.75);
+    // One goal in three full games, played three times in four
+    expect(even.goals).toBeCloseTo(0.25);
+    expect(easy.goals).toBeCloseTo(0.5);
+    expect(easy.cleanSheet).toBe(0.6);
+    expect(pointsProbabilities([], { teamGoals: 1, opponentGoals: 1, cleanSheet: 0 })).toBe(
+      undefined
+    );
+  });
+
+  test("projectPoints needs history and the position's rules", () => {
+    const outlook = fixtureOutlook(
+      {
+        expectedHomeGoals: 2,
+        expectedAwayGoals: 1,
+        cleanSheetHome: 0.35,
+        cleanSheetAway: 0.15,
+      },
+      false
+    );
+
+    expect(outlook).toEqual({ teamGoals: 1, opponentGoals: 2, cleanSheet: 0.15 });
+    expect(projectPoints([game(90)], outlook, undefined)).toBeUndefined();
+    expect(expectedPointsFeatures(projectPoints([game(90)], outlook, rules.get(2)))).toMatchObject({
+      expectedPoints: expect.any(Number),
+      expectedPointsCleanSheet: expect.closeTo(0.6),
+      expectedPointsAppearance: 2,
+    });
+    expect(expectedPointsFeatures(undefined)).toEqual({ expectedPoints: null });
+  });
+});
@@ -0,0 +1,69 @@
+import { GameweekCalendar } from "../../data/gameweekCalendar";
+import { Event, Fixture } from "../../models/fplTypes";
+
+const event = (id: number, deadline: string, extra: Partial<Event> = {}) =>
+  ({
+    id,
+    deadline_time: deadline,
+    finished: false,
+    data_checked: false,
+    is_previous: false,
+    is_current: false,
+    is_next: false,
+    ...extra,
+  } as Event);
+
+const fixture = (id: number, gw: number | null, teamH: number, teamA: number) =>
+  ({ id, event: gw, team_h: teamH, team_a: teamA } as Fixture);
+
+describe("GameweekCalendar", () => {
+  const events = [
+    event(1, "2024-08-16T17:30:00Z", { finished: true, data_checked: true, is_previous: true }),
+    event(2, "2024-08-24T10:00:00Z", { is_current: true }),
+    event(3, "2024-08-31T10:00:00Z", { is_next: true }),
+    event(4, "2024-09-14T10:00:00Z"),
+  ];
+  const fixtures = [
+    fixture(1, 1, 1, 2),
+    fixture(2, 1, 3, 4),
+    fixture(3, 2, 2, 3),
+    fixture(4, 2, 4, 1),
+    // Gameweek 3: team 4's match is postponed, team 1 plays twice
+    fixture(5, 3, 1, 3),
+    fixture(6, 3, 2, 1),
+    fixture(7, null, 4, 2),
+  ];
+  const now = () => new Date("2024-08-26T12:00:00Z");
+  const calendar = new GameweekCalendar(events, fixtures, now);
+
+  test("knows the current and next gameweek and their deadlines", () => {
+    expect(calendar.currentEvent()?.id).toBe(2);
+    expect(calendar.nextEvent()?.id).toBe(3);
+    expect(calendar.deadline(3)).toEqual(new Date("2024-08-31T10:00:00Z"));
+    expect(calendar.totalGameweeks).toBe(4);
+  });
+
+  test("lists gameweeks with live data and upcoming gameweeks", () => {
+    expect(calendar.startedGameweeks()).toEqual([1, 2]);
+    expect(calendar.upcomingGameweeks(5)).toEqual([3, 4]);
+    expect(calendar.isFinal(1)).toBe(true);
+    expect(calendar.isFinal(2)).toBe(false);
+  });
+
+  test("detects blank and double gameweeks", () => {
+    expect(calendar.blanks(3)).toEqual([4]);
+    expect(calendar.doubles(3)).toEqual([1]);
+    expect(calendar.fixtureCount(1, 3)).toBe(2);
+    expect(calendar.blanks(4)).toEqual([1, 2, 3, 4]);
+    expect(calendar.doubles(2)).toEqual([]);
+  });
+
+  test("falls back to deadlines when no event is flagged as next", () => {
+    const unflagged = new GameweekCalendar(
+      events.map((e) => ({ ...e, is_next: false })),
+      fixtures,
+      now
+    );
+    expect(unflagged.nextEvent()?.id).toBe(3);
+  });
+});
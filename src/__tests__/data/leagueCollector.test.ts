@@ -0,0 +1,146 @@
+import { LeagueCollector, calculateLeagueOwnership } from "../../data/leagueCollector";
+import { setCurrentSeason } from "../../data/season";
+import { ClassicLeagueStanding, Pick } from "../../models/fplTypes";
+import { FPLApiService } from "../../services/fplApiService";
+import { MemoryStorage } from "../../storage/memoryStorage";
+import { logger } from "../../utils/logger";
+
+jest.mock("../../utils/logger");
+
+const SEASON = "2024/25";
+
+const league = (id: number) => ({
+  id,
+  name: `League ${id}`,
+  created: "2024-07-01T10:00:00Z",
+  closed: false,
+  league_type: "x",
+  scoring: "c",
+  start_event: 1,
+  admin_entry: 1,
+});
+
+const standing = (entry: number): ClassicLeagueStanding => ({
+  id: entry,
+  entry,
+  entry_name: `Team ${entry}`,
+  player_name: `Manager ${entry}`,
+  rank: entry,
+  last_rank: entry,
+  rank_sort: entry,
+  total: 100 - entry,
+  event_total: 50,
+});
+
+const pick = (element: number, multiplier = 1, captain = false): Pick => ({
+  element,
+  position: 1,
+  multiplier,
+  is_captain: captain,
+  is_vice_captain: false,
+});
+
+const picks = (entry: number) => ({
+  active_chip: null,
+  automatic_subs: [],
+  entry_history: {
+    event: 3,
+    points: 50,
+    total_points: 150,
+    rank: null,
+    overall_rank: null,
+    bank: 0,
+    value: 1000,
+    event_transfers: 0,
+    event_transfers_cost: 0,
+    points_on_bench: 0,
+  },
+  picks: [pick(entry * 10, 2, true), pick(7)],
+});
+
+/**
+ * Serves a league of `entries` in pages of two, and everyone's picks. Leagues not in
+ * `leagues` fail like an unknown league id.
+ */
+const transport = (leagues: Record<number, number[]>) => ({
+  get: jest.fn(async (endpoint: string) => {
+    const standings = endpoint.match(/^\/leagues-classic\/(\d+)\/standings\/\?page_standings=(\d+)$/);
+    if (standings) {
+      const [id, page] = [Number(standings[1]), Number(standings[2])];
+      const entries = leagues[id];
+      if (!entries) throw new Error(`Request failed with status code 404`);
+      return {
+        league: league(id),
+        standings: {
+          has_next: page * 2 < entries.length,
+          page,
+          results: entries.slice((page - 1) * 2, page * 2).map(standing),
+        },
+      };
+    }
+    const entryPicks = endpoint.match(/^\/entry\/(\d+)\/event\/3\/picks\/$/);
+    if (entryPicks) return picks(Number(entryPicks[1]));
+    throw new Error(`Unexpected endpoint ${endpoint}`);
+  }),
+});
+
+describe("LeagueCollector", () => {
+  let storage: MemoryStorage;
+  let collector: LeagueCollector;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    storage = new MemoryStorage();
+    await setCurrentSeason(storage, SEASON);
+    collector = new LeagueCollector(storage);
+  });
+
+  test("fetchLeague follows every standings page and stores each rival's picks", async () => {
+    const api = transport({ 5: [1, 2, 3, 4, 5] });
+    FPLApiService.useTransport(api);
+
+    const failed = await collector.fetchLeague(5, 3);
+
+    expect(failed).toEqual([]);
+    expect(api.get).toHaveBeenCalledWith("/leagues-classic/5/standings/?page_standings=3");
+    expect(api.get).not.toHaveBeenCalledWith("/leagues-classic/5/standings/?page_standings=4");
+    const [stored] = await storage.collection("league_standings").find({ leagueId: 5 });
+    expect(stored.season).toBe(SEASON);
+    expect(stored.standings.map((entry: ClassicLeagueStanding) => entry.entry)).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    const rivals = await storage.collection("rival_picks").find({ leagueId: 5, event: 3 });
+    expect(rivals.map((rival) => rival.entry).sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test("fetchLeagues logs a league that fails and carries on with the rest", async () => {
+    FPLApiService.useTransport(transport({ 6: [1, 2] }));
+
+    const failed = await collector.fetchLeagues([404, 6], 3);
+
+    expect(failed).toEqual([404]);
+    expect(logger.error).toHaveBeenCalledWith(
+      "Error collecting league 404:",
+      expect.any(Error)
+    );
+    expect(await storage.collection("league_standings").find({ leagueId: 6 })).toHaveLength(1);
+    expect(await storage.collection("rival_picks").find({ leagueId: 6 })).toHaveLength(2);
+  });
+
+  test("calculateLeagueOwnership counts captains twice in effective ownership", () => {
+    const ownership = calculateLeagueOwnership([picks(1), picks(2)]);
+
+    expect(ownership.find((entry) => entry.element === 7)).toEqual({
+      element: 7,
+      ownership: 1,
+      captaincy: 0,
+      effectiveOwnership: 1,
+    });
+    expect(ownership.find((entry) => entry.element === 10)).toEqual({
+      element: 10,
+      ownership: 0.5,
+      captaincy: 0.5,
+      effectiveOwnership: 1,
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  buildManagerSquad,
+  calculateFreeTransfers,
+  purchasePrices,
+  sellingPrice,
+} from "../../data/managerSquad";
+import { EntryEventHistory, EntryPicks } from "../../models/fplTypes";
+
+const gameweek = (event: number, eventTransfers = 0, bank = 0): EntryEventHistory => ({
+  event,
+  points: 50,
+  total_points: 50 * event,
+  rank: null,
+  overall_rank: null,
+  bank,
+  value: 1000,
+  event_transfers: eventTransfers,
+  event_transfers_cost: 0,
+  points_on_bench: 0,
+});
+
+describe("managerSquad", () => {
+  test("sellingPrice shares rises and passes on falls", () => {
+    expect(sellingPrice(50, 53)).toBe(51);
+    expect(sellingPrice(50, 52)).toBe(51);
+    expect(sellingPrice(50, 51)).toBe(50);
+    expect(sellingPrice(50, 48)).toBe(48);
+  });
+
+  test("calculateFreeTransfers banks unused transfers up to the cap", () => {
+    const history = [1, 2, 3, 4, 5, 6, 7, 8].map((event) => gameweek(event));
+    expect(calculateFreeTransfers(history.slice(0, 1), [], 1)).toBe(1);
+    expect(calculateFreeTransfers(history.slice(0, 3), [], 1)).toBe(3);
+    expect(calculateFreeTransfers(history, [], 1)).toBe(5);
+  });
+
+  test("calculateFreeTransfers spends transfers and keeps them through a wildcard", () => {
+    const history = [gameweek(1), gameweek(2), gameweek(3, 2), gameweek(4, 10)];
+
+    expect(calculateFreeTransfers(history.slice(0, 3), [], 1)).toBe(1);
+    expect(
+      calculateFreeTransfers(history, [{ name: "wildcard", event: 4, time: "" }], 1)
+    ).toBe(2);
+  });
+
+  test("purchasePrices uses the latest transfer in, falling back to the starting price", () => {
+    const prices = purchasePrices(
+      [10, 20],
+      [
+        { entry: 1, event: 2, time: "2024-08-20", element_in: 10, element_in_cost: 55, element_out: 3, element_out_cost: 50 },
+        { entry: 1, event: 5, time: "2024-09-20", element_in: 10, element_in_cost: 57, element_out: 4, element_out_cost: 50 },
+      ],
+      () => 45
+    );
+
+    expect(prices.get(10)).toBe(57);
+    expect(prices.get(20)).toBe(45);
+  });
+
+  test("buildManagerSquad ignores the bank of a free hit gameweek", () => {
+    const picks: EntryPicks = {
+      active_chip: null,
+      automatic_subs: [],
+      entry_history: gameweek(3, 0, 5),
+      picks: [
+        { element: 10, position: 1, multiplier: 2, is_captain: true, is_vice_captain: false },
+      ],
+    };
+
+    const squad = buildManagerSquad(
+      99,
+      picks,
+      {
+        current: [gameweek(1, 0, 0), gameweek(2, 0, 5), gameweek(3, 0, 30)],
+        chips: [{ name: "freehit", event: 3, time: "" }],
+      },
+      [],
+      1,
+      () => 60,
+      () => 55
+    );
+
+    expect(squad.bank).toBe(5);
+    expect(squad.players[0]).toMatchObject({
+      purchasePrice: 55,
+      nowCost: 60,
+      sellingPrice: 57,
+      isCaptain: true,
+    });
+    expect(squad.chipsUsed).toEqual([{ name: "freehit", event: 3 }]);
+  });
+
+  test("buildManagerSquad applies transfers made since the picks' gameweek", () => {
+    const picks: EntryPicks = {
+      active_chip: null,
+      automatic_subs: [],
+      entry_history: gameweek(3, 0, 10),
+      picks: [
+        { element: 10, position: 1, multiplier: 2, is_captain: true, is_vice_captain: false },
+        { element: 20, position: 2, multiplier: 1, is_captain: false, is_vice_captain: true },
+      ],
+    };
+
+    const squad = buildManagerSquad(
+      99,
+      picks,
+      { current: [gameweek(1), gameweek(2), gameweek(3, 0, 10)], chips: [] },
+      [
+        { entry: 99, event: 2, time: "2024-08-20", element_in: 20, element_in_cost: 50, element_out: 5, element_out_cost: 50 },
+        { entry: 99, event: 4, time: "2024-09-02", element_in: 30, element_in_cost: 65, element_out: 10, element_out_cost: 70 },
+      ],
+      1,
+      () => 60,
+      () => 55
+    );
+
+    expect(squad.players.map((player) => player.element)).toEqual([30, 20]);
+    expect(squad.players[0]).toMatchObject({
+      position: 1,
+      multiplier: 1,
+      isCaptain: false,
+      purchasePrice: 65,
+    });
+    expect(squad.players[1]).toMatchObject({ isViceCaptain: true, purchasePrice: 50 });
+    expect(squad.bank).toBe(15);
+    expect(squad.freeTransfers).toBe(2);
+  });
+});
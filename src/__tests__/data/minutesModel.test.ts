@@ -0,0 +1,131 @@
+import {
+  MINUTES_FEATURES,
+  MinutesModels,
+  fitMinutesModel,
+  minutesFeatures,
+  minutesOutcome,
+  minutesRows,
+  predictMinutes,
+  squadDepth,
+  upcomingMinutesFeatures,
+} from "../../data/minutesModel";
+
+const game = (round: number, minutes: number) =>
+  ({
+    round,
+    fixture: round,
+    minutes,
+    starts: minutes >= 60 ? 1 : 0,
+    kickoff_time: `2024-08-${String(round * 4).padStart(2, "0")}T15:00:00Z`,
+  }) as any;
+
+const season = (minutes: number[]) => minutes.map((played, index) => game(index + 1, played));
+
+const context = { restDays: 7, daysToNext: 7, depth: 0 };
+
+describe("minutesModel", () => {
+  test("minutesOutcome splits no minutes, under 60 and 60 or more", () => {
+    expect([0, 1, 59, 60, 90].map(minutesOutcome)).toEqual([0, 1, 1, 2, 2]);
+  });
+
+  test("minutesFeatures describe recent minutes, congestion and depth", () => {
+    const features = minutesFeatures(season([90, 0, 45, 90]), {
+      restDays: 3,
+      daysToNext: 6,
+      depth: 0.5,
+    });
+    const named = Object.fromEntries(
+      MINUTES_FEATURES.map((name, index) => [name, features[index]])
+    );
+
+    expect(named).toMatchObject({
+      bias: 1,
+      lastMinutes: 1,
+      minutesLast5: 225 / 90 / 4,
+      sixtyMinutesLast5: 0.5,
+      noMinutesLast5: 0.25,
+      noHistory: 0,
+      shortRest: 1,
+      shortTurnaround: 0,
+      depth: 0.5,
+    });
+    expect(minutesFeatures([], context)[MINUTES_FEATURES.indexOf("noHistory")]).toBe(1);
+  });
+
+  test("squadDepth counts established teammates per place", () => {
+    expect(squadDepth([season([90, 90]), season([0, 90]), season([0, 0])], 2)).toBe(1);
+  });
+
+  test("minutesRows only use earlier games and teammates' earlier games", () => {
+    const rows = minutesRows(
+      [
+        { id: 1, team: 1, elementType: 4, history: season([90, 90, 0]) },
+        { id: 2, team: 1, elementType: 4, history: season([0, 90, 90]) },
+      ],
+      new Map([[4, 1]])
+    );
+    const third = rows.find((row) => row.playerId === 1 && row.round === 3)!;
+
+    expect(rows).toHaveLength(6);
+    expect(third.outcome).toBe(0);
+    expect(third.features[MINUTES_FEATURES.indexOf("lastMinutes")]).toBe(1);
+    // Player 2 played 60 minutes in one of their two earlier games
+    expect(third.features[MINUTES_FEATURES.indexOf("depth")]).toBe(1);
+  });
+
+  test("the fitted model separates regular starters from fringe players", () => {
+    const starter = { id: 1, team: 1, elementType: 3, history: season(Array(12).fill(90)) };
+    const fringe = {
+      id: 2,
+      team: 1,
+      elementType: 3,
+      history: season([0, 20, 0, 0, 15, 0, 0, 0, 30, 0, 0, 0]),
+    };
+    const model = fitMinutesModel(minutesRows([starter, fringe]));
+
+    const starterOdds = predictMinutes(model, minutesFeatures(starter.history, context));
+    const fringeOdds = predictMinutes(model, minutesFeatures(fringe.history, context));
+
+    expect(starterOdds.probability60Plus).toBeGreaterThan(0.8);
+    expect(fringeOdds.probabilityNoMinutes).toBeGreaterThan(0.5);
+    expect(
+      fringeOdds.probabilityNoMinutes + fringeOdds.probabilityUnder60 + fringeOdds.probability60Plus
+    ).toBeCloseTo(1);
+  });
+
+  test("predictMinutes scales the chance of playing by availability", () => {
+    const uniform = fitMinutesModel([]);
+    const doubtful = predictMinutes(uniform, minutesFeatures([], context), 0.25);
+
+    expect(doubtful.probability60Plus).toBeCloseTo(1 / 12);
+    expect(doubtful.probabilityNoMinutes).toBeCloseTo(1 - 2 / 12);
+  });
+
+  test("MinutesModels are fitted on earlier gameweeks only", () => {
+    const rows = minutesRows([{ id: 1, history: season(Array(9).fill(90)) }]);
+    const models = new MinutesModels(rows);
+
+    expect(models.before(1).rows).toBe(0);
+    expect(models.before(4)).toBe(models.before(1));
+    expect(models.before(5).rows).toBe(4);
+    expect(models.before(9).rows).toBe(8);
+  });
+
+  test("upcomingMinutesFeatures counts rest between upcoming fixtures", () => {
+    const features = upcomingMinutesFeatures(
+      { id: 1, history: season([90, 90]) },
+      [],
+      [
+        { id: 11, kickoff_time: "2024-08-20T15:00:00Z" },
+        { id: 10, kickoff_time: "2024-08-18T15:00:00Z" },
+      ]
+    );
+    const shortRest = MINUTES_FEATURES.indexOf("shortRest");
+    const shortTurnaround = MINUTES_FEATURES.indexOf("shortTurnaround");
+
+    expect(features.get(10)![shortRest]).toBe(0);
+    expect(features.get(10)![shortTurnaround]).toBe(1);
+    expect(features.get(11)![shortRest]).toBe(1);
+    expect(features.get(11)![shortTurnaround]).toBe(0);
+  });
+});
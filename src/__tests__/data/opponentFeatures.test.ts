@@ -0,0 +1,58 @@
+import { playerFixtureFeatures, strengthTiers } from "../../data/opponentFeatures";
+
+const game = (opponent: number, home: boolean, points: number, minutes = 90) =>
+  ({ opponent_team: opponent, was_home: home, total_points: points, minutes }) as any;
+
+describe("opponentFeatures", () => {
+  // Team 1 is strongest, team 20 weakest
+  const teams = Array.from({ length: 20 }, (_, index) => ({
+    id: index + 1,
+    averageOverallStrength: 1400 - index * 20,
+  })) as any;
+  const tiers = strengthTiers(teams);
+
+  test("strengthTiers splits teams into top six, middle and bottom", () => {
+    expect([1, 6, 7, 14, 15, 20].map((id) => tiers.get(id))).toEqual([
+      "top",
+      "top",
+      "middle",
+      "middle",
+      "bottom",
+      "bottom",
+    ]);
+  });
+
+  test("playerFixtureFeatures buckets history by opponent, tier and venue", () => {
+    const history = [
+      game(2, false, 2),
+      game(3, false, 6, 45),
+      game(2, true, 10),
+      game(20, false, 12),
+    ];
+    const fixture = {
+      id: 99,
+      event: 5,
+      team_h: 2,
+      team_a: 8,
+      is_home: false,
+      difficulty: 4,
+    } as any;
+
+    expect(playerFixtureFeatures(history, fixture, tiers)).toEqual(
+      expect.objectContaining({
+        fixtureId: 99,
+        wasHome: 0,
+        opponentTeam: 2,
+        opponentTier: "top",
+        fixtureDifficulty: 4,
+        gamesVsOpponent: 2,
+        pointsPer90VsOpponent: 6,
+        gamesVsTier: 3,
+        gamesAtVenue: 3,
+        pointsPer90AtVenue: (20 / 225) * 90,
+        gamesVsTierAtVenue: 2,
+        pointsPer90VsTierAtVenue: (8 / 135) * 90,
+      })
+    );
+  });
+});
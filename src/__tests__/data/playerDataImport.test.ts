@@ -0,0 +1,117 @@
+import {
+  PlayerDataImporter,
+  PlayerMatcher,
+  externalFeatures,
+  loadExternalPlayerData,
+  parseCsv,
+} from "../../data/playerDataImport";
+import { MemoryStorage } from "../../storage/memoryStorage";
+
+jest.mock("../../utils/logger");
+
+const SEASON = "2024/25";
+
+const player = (id: number, team: number, first: string, second: string, web: string) => ({
+  id,
+  team,
+  first_name: first,
+  second_name: second,
+  web_name: web,
+  season: SEASON,
+});
+
+describe("parseCsv", () => {
+  test("handles quoted fields, doubled quotes and CRLF line endings", () => {
+    const csv = 'name,team,note\r\nSaka,ARS,"takes pens, corners"\r\n"O""Brien",EVE,\r\n';
+
+    expect(parseCsv(csv)).toEqual([
+      { name: "Saka", team: "ARS", note: "takes pens, corners" },
+      { name: 'O"Brien', team: "EVE", note: "" },
+    ]);
+  });
+});
+
+describe("PlayerMatcher", () => {
+  const matcher = new PlayerMatcher(
+    [
+      player(30, 1, "Sam", "Johnston", "Johnston"),
+      player(31, 2, "Lee", "Johnstones", "Johnstones"),
+      player(32, 1, "Gabriel", "Martinelli", "Martinelli"),
+      player(33, 2, "Tom", "Martinell", "Martinell"),
+    ] as any,
+    [{ id: 1, name: "Arsenal", short_name: "ARS" }] as any
+  );
+
+  test("rejects a fuzzy match that barely beats the runner-up", () => {
+    // 0.9 against 0.89: too close to call
+    expect(matcher.match({ name: "Johnstone" })).toEqual({
+      reason: "Johnstone matches several players; add a team or id column",
+    });
+    expect(matcher.match({ name: "Johnstone", team: "ARS" })).toEqual({ element: 30 });
+  });
+
+  test("accepts an exact match however close the runner-up", () => {
+    expect(matcher.match({ name: "Martinelli" })).toEqual({ element: 32 });
+  });
+});
+
+describe("PlayerDataImporter", () => {
+  let storage: MemoryStorage;
+  let importer: PlayerDataImporter;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    importer = new PlayerDataImporter(storage);
+    await storage.collection("teams").insertMany([
+      { id: 1, name: "Arsenal", short_name: "ARS", season: SEASON },
+      { id: 2, name: "Man City", short_name: "MCI", season: SEASON },
+    ] as any);
+    await storage.collection("players").insertMany([
+      player(7, 1, "Bukayo", "Saka", "Saka"),
+      player(8, 1, "Martin", "Ødegaard", "Ødegaard"),
+      player(20, 2, "Bernardo", "Mota Veiga de Carvalho e Silva", "Bernardo"),
+      player(21, 2, "Rodrigo", "Hernández Cascante", "Rodri"),
+      player(22, 1, "Rodrigo", "Muniz", "Rodri"),
+    ] as any);
+  });
+
+  test("matches rows by id, fuzzy name and team plus name, and reports the rest", async () => {
+    const report = await importer.importRows(
+      [
+        { id: "7", penalty_order: "1", takes_corners: "true" },
+        { name: "Odegard", penalty_order: "2" },
+        { name: "Rodri", team: "MCI", xg: "0.12" },
+        { name: "Rodri", xg: "0.3" },
+        { name: "Haaland", xg: "0.9" },
+      ],
+      "set-pieces",
+      SEASON
+    );
+
+    expect(report.matched).toBe(3);
+    expect(report.unmatched.map((row) => row.row)).toEqual([4, 5]);
+    expect(report.unmatched[0].reason).toMatch(/several players/);
+
+    const stored = await storage.collection("external_player_data").find();
+    expect(stored.map((document) => [document.element, document.values])).toEqual([
+      [7, { penalty_order: 1, takes_corners: true }],
+      [8, { penalty_order: 2 }],
+      [21, { xg: 0.12 }],
+    ]);
+  });
+
+  test("re-importing a source replaces its rows and later sources win", async () => {
+    await importer.importRows([{ id: "7", xg: "0.4" }], "xg", SEASON);
+    await importer.importRows([{ id: "7", xg: "0.5", penalty_order: "1" }], "xg", SEASON);
+    await importer.importRows([{ id: "7", xg: "0.6" }], "other", SEASON);
+
+    const values = (await loadExternalPlayerData(storage, SEASON)).get(7);
+    expect(await storage.collection("external_player_data").countDocuments()).toBe(2);
+    expect(values).toEqual({ xg: 0.6, penalty_order: 1 });
+    expect(externalFeatures({ ...values, takes_corners: true, note: "left-footed" })).toEqual({
+      externalXg: 0.6,
+      externalPenaltyOrder: 1,
+      externalTakesCorners: 1,
+    });
+  });
+});
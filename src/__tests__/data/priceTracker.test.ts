@@ -0,0 +1,69 @@
+import {
+  MIN_THRESHOLD,
+  PriceSnapshot,
+  estimatePriceChange,
+  netTransfersSinceChange,
+} from "../../data/priceTracker";
+
+const snapshot = (
+  day: number,
+  event: number,
+  nowCost: number,
+  transfersIn: number,
+  transfersOut: number,
+  selectedByPercent = 10
+): PriceSnapshot => ({
+  season: "2024/25",
+  element: 1,
+  event,
+  date: `2024-09-0${day}`,
+  takenAt: new Date(`2024-09-0${day}T12:00:00Z`),
+  nowCost,
+  selectedByPercent,
+  transfersInEvent: transfersIn,
+  transfersOutEvent: transfersOut,
+});
+
+describe("priceTracker", () => {
+  test("netTransfersSinceChange follows the event counters across gameweeks", () => {
+    const result = netTransfersSinceChange([
+      snapshot(3, 4, 50, 5000, 1000),
+      snapshot(1, 3, 50, 10000, 2000),
+      snapshot(2, 3, 50, 30000, 4000),
+    ]);
+
+    // 8000 + 18000 in gameweek 3, then 4000 after the counters reset
+    expect(result).toEqual({ total: 30000, latest: 4000 });
+  });
+
+  test("netTransfersSinceChange starts again after a price change", () => {
+    const result = netTransfersSinceChange([
+      snapshot(1, 3, 50, 10000, 0),
+      snapshot(2, 3, 51, 40000, 0),
+      snapshot(3, 3, 51, 45000, 0),
+    ]);
+
+    expect(result.total).toBe(5000);
+  });
+
+  test("estimatePriceChange compares momentum with an ownership-based threshold", () => {
+    const totalPlayers = 10_000_000;
+    // 10% owned: threshold of 80,000 net transfers
+    const rising = estimatePriceChange(
+      [snapshot(1, 3, 50, 40000, 0), snapshot(2, 3, 50, 80000, 0)],
+      totalPlayers
+    );
+    expect(rising.threshold).toBe(80000);
+    expect(rising.progress).toBeCloseTo(1.5);
+    expect(rising.riseProbability).toBeGreaterThan(0.9);
+    expect(rising.fallProbability).toBe(0);
+
+    const falling = estimatePriceChange(
+      [snapshot(1, 3, 50, 0, 2000, 0.01)],
+      totalPlayers
+    );
+    expect(falling.threshold).toBe(MIN_THRESHOLD);
+    expect(falling.riseProbability).toBe(0);
+    expect(falling.fallProbability).toBeLessThan(0.05);
+  });
+});
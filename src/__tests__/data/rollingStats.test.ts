@@ -0,0 +1,51 @@
+import { rollingFeatureName, rollingFeatures, rollingStat } from "../../data/rollingStats";
+
+const game = (points: number, minutes: number, xG = "0") =>
+  ({ total_points: points, minutes, expected_goals: xG }) as any;
+
+describe("rollingStats", () => {
+  const history = [game(10, 90, "1.0"), game(2, 90, "0.2"), game(6, 45, "0.3"), game(1, 0)];
+
+  test("averages a window of the most recent games", () => {
+    expect(rollingStat(history, { stat: "points", window: 2 })).toBe(3.5);
+    expect(rollingStat(history, { stat: "points", window: 10 })).toBe(4.75);
+    expect(rollingStat([], { stat: "points", window: 5 })).toBe(0);
+  });
+
+  test("weights games exponentially by age with a half-life", () => {
+    // Weights from the newest game: 1, 0.5, 0.25, 0.125
+    const expected = (1 * 1 + 6 * 0.5 + 2 * 0.25 + 10 * 0.125) / 1.875;
+    expect(rollingStat(history, { stat: "points", halfLife: 1 })).toBeCloseTo(expected);
+  });
+
+  test("weights a window of recent games by age when given both", () => {
+    const spec = { stat: "points" as const, window: 2, halfLife: 1 };
+
+    expect(rollingStat(history, spec)).toBeCloseTo((1 * 1 + 6 * 0.5) / 1.5);
+    expect(rollingFeatureName(spec)).toBe("pointsLast2Ewm1");
+  });
+
+  test("normalises per 90 minutes and weights by minutes played", () => {
+    expect(rollingStat(history, { stat: "xG", window: 3, per90: true })).toBeCloseTo(
+      (0.5 / 135) * 90
+    );
+    // The 0-minute game drops out and the 45-minute game counts half
+    expect(rollingStat(history, { stat: "points", window: 2, minutesWeighted: true })).toBe(6);
+  });
+
+  test("names and computes features from a config list", () => {
+    const specs = [
+      { stat: "points" as const, window: 5 },
+      { stat: "xG" as const, halfLife: 2.5, per90: true },
+      { stat: "bonus" as const, window: 10, minutesWeighted: true },
+    ];
+
+    expect(specs.map(rollingFeatureName)).toEqual([
+      "pointsLast5",
+      "xGPer90Ewm2_5",
+      "bonusMinutesWeightedLast10",
+    ]);
+    expect(Object.keys(rollingFeatures(history, specs))).toHaveLength(3);
+    expect(() => rollingStat(history, { stat: "points" })).toThrow(/window or a half-life/);
+  });
+});
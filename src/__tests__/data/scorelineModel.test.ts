@@ -0,0 +1,86 @@
+import {
+  MAX_GOALS,
+  MatchResult,
+  ScorelineModels,
+  fitScorelineModel,
+  forecastScoreline,
+} from "../../data/scorelineModel";
+
+const match = (home: number, away: number, homeGoals: number, awayGoals: number) => ({
+  home,
+  away,
+  homeGoals,
+  awayGoals,
+});
+
+describe("scorelineModel", () => {
+  // Team 1 beats everyone, team 3 loses to everyone
+  const results: MatchResult[] = [];
+  for (let round = 0; round < 5; round++) {
+    results.push(match(1, 2, 3, 1), match(2, 1, 0, 2));
+    results.push(match(1, 3, 4, 0), match(3, 1, 0, 3));
+    results.push(match(2, 3, 2, 1), match(3, 2, 1, 1));
+  }
+  const model = fitScorelineModel(results, [1, 2, 3]);
+
+  test("fitScorelineModel rates the better side's attack and defence higher", () => {
+    expect(model.attack[1]).toBeGreaterThan(model.attack[2]);
+    expect(model.attack[2]).toBeGreaterThan(model.attack[3]);
+    expect(model.defence[1]).toBeLessThan(model.defence[3]);
+    expect(model.matches).toBe(results.length);
+  });
+
+  test("forecastScoreline gives a probability matrix that sums to 1", () => {
+    const forecast = forecastScoreline(model, 1, 3);
+    const total = forecast.probabilities.flat().reduce((sum, value) => sum + value, 0);
+
+    expect(forecast.probabilities).toHaveLength(MAX_GOALS + 1);
+    expect(total).toBeCloseTo(1, 10);
+    expect(forecast.homeWin + forecast.draw + forecast.awayWin).toBeCloseTo(1, 10);
+  });
+
+  test("forecastScoreline favours the stronger side", () => {
+    const strongAtHome = forecastScoreline(model, 1, 3);
+    const weakAtHome = forecastScoreline(model, 3, 1);
+
+    expect(strongAtHome.homeWin).toBeGreaterThan(strongAtHome.awayWin);
+    expect(weakAtHome.awayWin).toBeGreaterThan(weakAtHome.homeWin);
+    expect(strongAtHome.expectedHomeGoals).toBeGreaterThan(strongAtHome.expectedAwayGoals);
+    expect(strongAtHome.cleanSheetHome).toBeGreaterThan(strongAtHome.cleanSheetAway);
+  });
+
+  test("clean sheets are the chance the opponent scores nothing", () => {
+    const forecast = forecastScoreline(model, 2, 3);
+    const awayScoresNone = forecast.probabilities.reduce((sum, row) => sum + row[0], 0);
+
+    expect(forecast.cleanSheetHome).toBeCloseTo(awayScoresNone, 10);
+    expect(forecast.cleanSheetAway).toBeCloseTo(
+      forecast.probabilities[0].reduce((sum, value) => sum + value, 0),
+      10
+    );
+  });
+
+  test("teams without results are forecast as average sides", () => {
+    const empty = fitScorelineModel([], [1, 2]);
+    const forecast = forecastScoreline(empty, 1, 2);
+
+    expect(empty.attack[1]).toBeCloseTo(empty.attack[2]);
+    expect(forecast.homeWin).toBeGreaterThan(forecast.awayWin);
+    expect(forecast.expectedHomeGoals + forecast.expectedAwayGoals).toBeGreaterThan(2);
+  });
+
+  test("ScorelineModels only fits on earlier gameweeks", () => {
+    const models = new ScorelineModels(
+      [
+        { ...match(1, 2, 5, 0), event: 1 },
+        { ...match(2, 1, 0, 5), event: 2 },
+      ],
+      [1, 2]
+    );
+
+    expect(models.before(1).matches).toBe(0);
+    expect(models.before(2).matches).toBe(1);
+    expect(models.before(null).matches).toBe(2);
+    expect(models.before(2)).toBe(models.before(2));
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  archiveSeason,
+  findForSeasons,
+  getCurrentSeason,
+  setCurrentSeason,
+} from "../../data/season";
+import { MemoryStorage } from "../../storage/memoryStorage";
+
+const gameweek = (id: number, season: string, deadline: string) =>
+  ({ id, season, deadline_time: deadline, is_current: id === 1 }) as any;
+
+const player = (id: number, season: string) => ({ id, web_name: `Player ${id}`, season }) as any;
+
+describe("season", () => {
+  let storage: MemoryStorage;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    await storage
+      .collection("gameweeks")
+      .insertMany([
+        gameweek(1, "2023/24", "2023-08-11T17:30:00Z"),
+        gameweek(2, "2023/24", "2023-08-18T17:30:00Z"),
+        gameweek(1, "2024/25", "2024-08-16T17:30:00Z"),
+        gameweek(2, "2024/25", "2024-08-24T10:00:00Z"),
+      ]);
+    await storage
+      .collection("players")
+      .insertMany([player(7, "2023/24"), player(7, "2024/25"), player(8, "2024/25")]);
+  });
+
+  test("getCurrentSeason prefers the season marked current", async () => {
+    await setCurrentSeason(storage, "2023/24");
+
+    expect(await getCurrentSeason(storage)).toBe("2023/24");
+  });
+
+  test("getCurrentSeason falls back to the newest season's gameweeks", async () => {
+    expect(await getCurrentSeason(storage)).toBe("2024/25");
+
+    // Stale flags on an older season do not count
+    await storage.collection("seasons").insertOne({ id: "2023/24", current: false });
+    expect(await getCurrentSeason(storage)).toBe("2024/25");
+  });
+
+  test("getCurrentSeason derives the season from untagged gameweeks", async () => {
+    const untagged = new MemoryStorage();
+    await untagged
+      .collection("gameweeks")
+      .insertOne({ id: 1, deadline_time: "2022-08-05T18:00:00Z" } as any);
+
+    expect(await getCurrentSeason(untagged)).toBe("2022/23");
+  });
+
+  test("findForSeasons returns the documents of the given seasons only", async () => {
+    const current = await findForSeasons(storage, "players", ["2024/25"]);
+    expect(current.map((document) => document.id).sort()).toEqual([7, 8]);
+
+    const both = await findForSeasons(storage, "players", ["2023/24", "2024/25"], { id: 7 });
+    expect(both.map((document) => document.season).sort()).toEqual(["2023/24", "2024/25"]);
+  });
+
+  test("archiveSeason snapshots one season and replaces an earlier snapshot", async () => {
+    const counts = await archiveSeason(storage, "2023/24");
+
+    expect(counts.players).toBe(1);
+    expect(counts.gameweeks).toBe(2);
+    expect(counts.fixtures).toBe(0);
+    const archived = await storage.collection("archive_players").find();
+    expect(archived).toEqual([
+      expect.objectContaining({ id: 7, season: "2023/24", archivedAt: expect.anything() }),
+    ]);
+    expect(await storage.collection("seasons").findOne({ id: "2023/24" })).toEqual(
+      expect.objectContaining({ archivedAt: expect.anything() })
+    );
+    // The live collections keep both seasons
+    expect(await storage.collection("players").find()).toHaveLength(3);
+
+    await archiveSeason(storage, "2023/24");
+    expect(await storage.collection("archive_players").find()).toHaveLength(1);
+  });
+});
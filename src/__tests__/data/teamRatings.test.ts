@@ -0,0 +1,92 @@
+import {
+  RatingHistory,
+  TeamRatings,
+  computeRatings,
+  initialRatings,
+  ratingFeatures,
+} from "../../data/teamRatings";
+import { MemoryStorage } from "../../storage/memoryStorage";
+
+jest.mock("../../utils/logger");
+
+const SEASON = "2024/25";
+
+const team = (id: number, strength: number) =>
+  ({
+    id,
+    averageOverallStrength: strength,
+    averageAttackStrength: strength,
+    averageDefenceStrength: strength,
+  }) as any;
+
+const fixture = (id: number, event: number, teamH: number, teamA: number, score: [number, number]) =>
+  ({
+    id,
+    event,
+    teamH,
+    teamA,
+    finished: true,
+    kickoffTime: `2024-08-${10 + id}T15:00:00Z`,
+    teamHScore: score[0],
+    teamAScore: score[1],
+  }) as any;
+
+describe("teamRatings", () => {
+  const teams = [team(1, 1300), team(2, 1100), team(3, 1200)];
+
+  test("initialRatings centres the static strengths on the base rating", () => {
+    const ratings = initialRatings(teams);
+
+    expect(ratings.get(1)).toMatchObject({ rating: 1600, attack: 1600, defence: 1600 });
+    expect(ratings.get(3)).toMatchObject({ rating: 1500, played: 0 });
+  });
+
+  test("an upset moves ratings more than an expected win, and more for a wider margin", () => {
+    const expectedWin = computeRatings(teams, [fixture(1, 1, 1, 2, [1, 0])], SEASON).current;
+    const upset = computeRatings(teams, [fixture(1, 1, 2, 1, [1, 0])], SEASON).current;
+    const heavyUpset = computeRatings(teams, [fixture(1, 1, 2, 1, [4, 0])], SEASON).current;
+
+    expect(expectedWin.get(1)!.rating - 1600).toBeLessThan(upset.get(2)!.rating - 1400);
+    expect(heavyUpset.get(2)!.rating).toBeGreaterThan(upset.get(2)!.rating);
+    expect(heavyUpset.get(2)!.attack).toBeGreaterThan(1400);
+    expect(heavyUpset.get(1)!.defence).toBeLessThan(1600);
+    // Rating points are exchanged, not created
+    expect(upset.get(1)!.rating + upset.get(2)!.rating).toBeCloseTo(3000);
+  });
+
+  test("history holds ratings per gameweek and is read as of before a gameweek", async () => {
+    const storage = new MemoryStorage();
+    await storage.collection("processed_teams").insertMany(
+      teams.map((t) => ({ ...t, season: SEASON }))
+    );
+    await storage.collection("processed_fixtures").insertMany([
+      { ...fixture(1, 1, 1, 2, [2, 0]), season: SEASON },
+      { ...fixture(2, 2, 2, 3, [0, 0]), season: SEASON },
+    ]);
+
+    const history = await new TeamRatings(storage).update(SEASON);
+
+    expect(history.map((rating) => rating.event)).toEqual([0, 0, 0, 1, 1, 1, 2, 2, 2]);
+    const ratings: RatingHistory = await new TeamRatings(storage).history(SEASON);
+    expect(ratings.before(1, 1)).toMatchObject({ event: 0, rating: 1600 });
+    expect(ratings.before(1, 2)!.rating).toBeGreaterThan(1600);
+    expect(ratings.before(2, null)).toMatchObject({ event: 2, played: 2 });
+  });
+
+  test("ratingFeatures reads both sides as of before the gameweek, or nulls", () => {
+    const ratings = new RatingHistory(
+      computeRatings(teams, [fixture(1, 1, 1, 2, [3, 0])], SEASON).history
+    );
+
+    const before = ratingFeatures(ratings, 1, 2, 1);
+    expect(before).toMatchObject({ homeElo: 1600, awayElo: 1400, eloDifference: 200 });
+    expect(before.eloHomeWinExpectancy).toBeGreaterThan(0.5);
+    expect(ratingFeatures(ratings, 1, 2, 2).eloDifference).toBeGreaterThan(200);
+    expect(ratingFeatures(ratings, 1, 9, 2)).toMatchObject({
+      homeElo: expect.any(Number),
+      awayElo: null,
+      eloDifference: null,
+      eloExpectedHomeGoals: null,
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  FEATURES,
+  FeatureMismatchError,
+  assertFeaturesMatch,
+  featureVector,
+  readFeatureManifest,
+  trainingVector,
+  writeFeatureManifest,
+} from "../../ml/featureRegistry";
+
+describe("featureRegistry", () => {
+  test("training and prediction build the same vector in registry order", () => {
+    const row = Object.fromEntries(FEATURES.map((feature, index) => [feature.name, index]));
+    const sources = {
+      player: { ...row, team: row.teamId },
+      fixture: row,
+      playerFixture: { ...row, fixtureDifficulty: row.upcomingFixtureDifficulty },
+    };
+
+    expect(featureVector(sources)).toEqual(trainingVector(row));
+    expect(trainingVector(row)).toEqual(FEATURES.map((_, index) => index));
+  });
+
+  test("missing and invalid values fall back to each feature's default", () => {
+    const vector = featureVector({ player: { recentFormScore: NaN }, fixture: null });
+
+    expect(vector).toEqual(FEATURES.map((feature) => feature.default));
+  });
+
+  test("a saved feature list must match the registry", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "features-"));
+    try {
+      expect(() => assertFeaturesMatch(readFeatureManifest(dir))).toThrow(FeatureMismatchError);
+
+      writeFeatureManifest(dir);
+      expect(() => assertFeaturesMatch(readFeatureManifest(dir))).not.toThrow();
+
+      const bumped = FEATURES.map((feature, index) =>
+        index === 0 ? { ...feature, version: feature.version + 1 } : feature
+      );
+      expect(() => assertFeaturesMatch(readFeatureManifest(dir), bumped)).toThrow(
+        /recentFormScore is version 1 in the model but 2 in the registry/
+      );
+      // Reading a different column is a change even when everything else is equal
+      const remapped = FEATURES.map((feature) =>
+        feature.name === "upcomingFixtureDifficulty"
+          ? { ...feature, field: "difficultyRating" }
+          : feature
+      );
+      expect(() => assertFeaturesMatch(readFeatureManifest(dir), remapped)).toThrow(
+        /upcomingFixtureDifficulty changed source, field, type, scaling or default/
+      );
+      expect(() => assertFeaturesMatch(readFeatureManifest(dir), FEATURES.slice(1))).toThrow(
+        `the model has ${FEATURES.length} features, the registry ${FEATURES.length - 1}`
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { missingFeatures } from "../../ml/featureRegistry";
+import { buildGameweekRows } from "../../ml/gameweekDataset";
+
+const SEASON = "2024/25";
+
+const game = (round: number, fixture: number, points: number, extra: object = {}) => ({
+  element: 7,
+  fixture,
+  opponent_team: 2,
+  total_points: points,
+  was_home: true,
+  kickoff_time: `2024-08-${String(10 + fixture).padStart(2, "0")}T14:00:00Z`,
+  round,
+  minutes: 90,
+  starts: 1,
+  goals_scored: 0,
+  assists: 0,
+  bonus: 0,
+  value: 100,
+  ...extra,
+});
+
+const fixture = (id: number, event: number, finished = true) => ({
+  id,
+  event,
+  finished,
+  team_h: 1,
+  team_a: 2,
+  team_h_difficulty: 4,
+  team_a_difficulty: 2,
+});
+
+describe("buildGameweekRows", () => {
+  const build = (history: object[], fixtures: object[]) =>
+    buildGameweekRows({
+      season: SEASON,
+      summaries: [{ id: 7, season: SEASON, history }] as any,
+      teams: [
+        { id: 1, strength: 4 },
+        { id: 2, strength: 2 },
+      ] as any,
+      fixtures: fixtures as any,
+    });
+
+  test("labels each played fixture with real points using only earlier gameweeks", () => {
+    const rows = build(
+      [
+        game(1, 1, 2),
+        game(2, 2, 12, { goals_scored: 2 }),
+        // Double gameweek 3: neither fixture may see the other
+        game(3, 3, 6),
+        game(3, 4, 1),
+      ],
+      [fixture(1, 1), fixture(2, 2), fixture(3, 3), fixture(4, 3)]
+    );
+
+    expect(rows.map((row) => [row.gameweek, row.fixtureId, row.actualPoints])).toEqual([
+      [1, 1, 2],
+      [2, 2, 12],
+      [3, 3, 6],
+      [3, 4, 1],
+    ]);
+    expect(rows[0]).toMatchObject({ season: SEASON, gamesBefore: 0, recentFormScore: 0 });
+    expect(rows[1]).toMatchObject({ gamesBefore: 1, pointsBefore: 2, goalsBefore: 0 });
+    for (const row of rows.slice(2)) {
+      expect(row).toMatchObject({
+        gamesBefore: 2,
+        pointsBefore: 14,
+        goalsBefore: 2,
+        recentFormScore: 7,
+        upcomingFixtureDifficulty: 4,
+        strengthDifference: 2,
+        teamId: 1,
+        wasHome: 1,
+        gamesVsOpponent: 2,
+        pointsPer90VsOpponent: 7,
+        gamesAtVenue: 2,
+        pointsPer90AtVenue: 7,
+      });
+    }
+    expect(rows[0]).toMatchObject({ gamesVsOpponent: 0, pointsPer90VsOpponent: 0 });
+    // Ratings start level and only move after the gameweek is played
+    expect(rows[0]).toMatchObject({ homeElo: 1500, awayElo: 1500, eloDifference: 0 });
+    expect(rows[2].homeElo).toBe(rows[3].homeElo);
+    expect(rows[1].eloDifference).not.toBe(0);
+    expect(missingFeatures(rows[0])).toEqual([]);
+  });
+
+  test("skips fixtures that are not finished", () => {
+    const rows = build([game(1, 1, 2), game(2, 2, 3)], [fixture(1, 1), fixture(2, 2, false)]);
+
+    expect(rows.map((row) => row.fixtureId)).toEqual([1]);
+  });
+});
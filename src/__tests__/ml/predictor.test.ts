@@ -0,0 +1,51 @@
+import { FEATURES } from "../../ml/featureRegistry";
+import { Predictor } from "../../ml/predictor";
+import { FeaturePreprocessor } from "../../ml/preprocessing";
+import { setCurrentSeason } from "../../data/season";
+import { MemoryStorage } from "../../storage/memoryStorage";
+
+jest.mock("../../utils/logger");
+// The native TensorFlow binding is not needed to check what happens around the model
+jest.mock("@tensorflow/tfjs-node", () => ({
+  tensor2d: jest.fn(() => ({})),
+  tidy: jest.fn((fn: () => unknown) => fn()),
+}));
+
+const SEASON = "2024/25";
+
+describe("Predictor", () => {
+  let storage: MemoryStorage;
+  let predictor: Predictor;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    await setCurrentSeason(storage, SEASON);
+    await storage.collection("fixture_features").insertOne({ id: 100, event: 5, season: SEASON });
+    for (const [id, availability] of [
+      [1, 1],
+      [2, 0.5],
+      [3, 0],
+    ]) {
+      await storage.collection("player_features").insertOne({ id, season: SEASON });
+      await storage
+        .collection("processed_players")
+        .insertOne({ id, availability, season: SEASON } as any);
+    }
+
+    predictor = new Predictor(storage);
+    Object.assign(predictor, {
+      model: { predict: () => ({ dataSync: () => [6] }) },
+      preprocessor: FeaturePreprocessor.fit([FEATURES.map((feature) => feature.default)]),
+    });
+  });
+
+  test("predictPlayerPoints marks doubtful players down by their availability", async () => {
+    const fit = await predictor.predictPlayerPoints(1, 100);
+    const doubtful = await predictor.predictPlayerPoints(2, 100);
+
+    expect(fit).toBe(6);
+    expect(doubtful).toBeLessThan(fit);
+    expect(doubtful).toBe(3);
+    expect(await predictor.predictPlayerPoints(3, 100)).toBe(0);
+  });
+});
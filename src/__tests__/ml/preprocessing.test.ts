@@ -0,0 +1,58 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FeatureDefinition } from "../../ml/featureRegistry";
+import { FeaturePreprocessor } from "../../ml/preprocessing";
+
+const feature = (name: string, extra: Partial<FeatureDefinition> = {}): FeatureDefinition => ({
+  name,
+  source: "player",
+  type: "number",
+  default: 0,
+  version: 1,
+  description: name,
+  ...extra,
+});
+
+describe("FeaturePreprocessor", () => {
+  const features = [
+    feature("strength"),
+    feature("difficulty", { scaling: "minmax" }),
+    feature("ratio", { scaling: "log" }),
+    feature("position", { type: "category" }),
+  ];
+  const rows = [
+    [1000, 2, 0, 1],
+    [1400, 4, Math.E - 1, 3],
+    [null, 5, null, 4],
+  ];
+
+  test("imputes, scales and one-hot encodes as fitted on the training rows", () => {
+    const preprocessor = FeaturePreprocessor.fit(rows, features);
+
+    expect(preprocessor.outputSize).toBe(6);
+    const [strength, difficulty, ratio, ...position] = preprocessor.transform([null, 3, 0, 3]);
+    // The missing strength is imputed with the median, which is also the mean here
+    expect(strength).toBeCloseTo(0);
+    expect(difficulty).toBeCloseTo(1 / 3);
+    expect(ratio).toBeCloseTo(-1);
+    expect(position).toEqual([0, 1, 0]);
+    // A category not seen in training encodes as all zeros
+    expect(preprocessor.transform([1000, 2, 0, 2]).slice(3)).toEqual([0, 0, 0]);
+  });
+
+  test("round-trips through the saved file and checks the feature list", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "preprocessing-"));
+    try {
+      const preprocessor = FeaturePreprocessor.fit(rows, features);
+      preprocessor.save(dir);
+      const loaded = FeaturePreprocessor.load(dir);
+
+      expect(loaded.transform([1200, 4, 1, 4])).toEqual(preprocessor.transform([1200, 4, 1, 4]));
+      expect(() => loaded.assertFitFor(features)).not.toThrow();
+      expect(() => loaded.assertFitFor(features.slice(1))).toThrow(/fitted on/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { FeatureDefinition } from "../../ml/featureRegistry";
+import {
+  TrainingRun,
+  chronologicalSplit,
+  comparisonRows,
+  datasetHash,
+  evaluationScores,
+  formatTable,
+} from "../../ml/trainingRuns";
+
+const features: FeatureDefinition[] = [
+  { name: "form", source: "player", type: "number", default: 0, version: 1, description: "form" },
+  { name: "price", source: "player", type: "number", default: 0, version: 1, description: "price" },
+];
+
+const row = (gameweek: number, form: number, actualPoints: number) => ({
+  season: "2024/25",
+  gameweek,
+  playerId: 1,
+  fixtureId: gameweek,
+  form,
+  price: 55,
+  actualPoints,
+});
+
+const run = (runId: string, extra: Partial<TrainingRun> = {}): TrainingRun => ({
+  runId,
+  startedAt: new Date("2024-10-01T12:00:00Z"),
+  status: "completed",
+  hyperparameters: {
+    layers: [64, 32],
+    activation: "relu",
+    optimizer: "adam",
+    learningRate: 0.001,
+    epochs: 2,
+    batchSize: 32,
+    validationSplit: 0.2,
+  },
+  features: features.map(({ description, ...feature }) => feature),
+  datasetHash: "0123456789abcdef",
+  datasetRows: 100,
+  seasons: ["2024/25"],
+  epochs: [
+    { epoch: 0, loss: 9, mae: 2.5, valLoss: 10, valMae: 2.6 },
+    { epoch: 1, loss: 8, mae: 2.2, valLoss: 9.5, valMae: 2.4 },
+  ],
+  evaluation: { rows: 20, mae: 2.4, rmse: 3.1, r2: 0.12, baselineMae: 2.7 },
+  ...extra,
+});
+
+describe("datasetHash", () => {
+  test("changes with the data, the labels and the feature list", () => {
+    const rows = [row(1, 3, 2), row(2, 4, 6)];
+    const hash = datasetHash(rows, features);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(datasetHash([row(1, 3, 2), row(2, 4, 6)], features)).toBe(hash);
+    expect(datasetHash([row(1, 3, 2), row(2, 5, 6)], features)).not.toBe(hash);
+    expect(datasetHash([row(1, 3, 2), row(2, 4, 7)], features)).not.toBe(hash);
+    expect(datasetHash(rows, features.slice(0, 1))).not.toBe(hash);
+  });
+
+  test("ignores columns that are not features", () => {
+    expect(datasetHash([{ ...row(1, 3, 2), kickoffTime: "later" }], features)).toBe(
+      datasetHash([row(1, 3, 2)], features)
+    );
+  });
+});
+
+describe("chronologicalSplit", () => {
+  test("holds the latest rows out", () => {
+    const rows = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    expect(chronologicalSplit(rows, 0.2)).toEqual({
+      train: [1, 2, 3, 4, 5, 6, 7, 8],
+      validation: [9, 10],
+    });
+    expect(chronologicalSplit(rows, 0).validation).toEqual([]);
+  });
+});
+
+describe("evaluationScores", () => {
+  test("scores predictions and the constant baseline", () => {
+    const scores = evaluationScores([2, 4, 6], [1, 4, 7], 3);
+
+    expect(scores.rows).toBe(3);
+    expect(scores.mae).toBeCloseTo(2 / 3);
+    expect(scores.rmse).toBeCloseTo(Math.sqrt(2 / 3));
+    // Total variance around the mean of 4 is 18
+    expect(scores.r2).toBeCloseTo(1 - 2 / 18);
+    expect(scores.baselineMae).toBeCloseTo(7 / 3);
+  });
+});
+
+describe("comparisonRows", () => {
+  test("lines runs up side by side and lists features not in every run", () => {
+    const other = run("b", {
+      hyperparameters: { ...run("b").hyperparameters, layers: [128], learningRate: 0.01 },
+      features: [
+        { name: "form", source: "player", type: "number", default: 0, version: 2 },
+        { name: "price", source: "player", type: "number", default: 0, version: 1 },
+      ],
+      epochs: [],
+      evaluation: undefined,
+      status: "failed",
+    });
+    const rows = new Map(comparisonRows([run("a"), other]).map(([label, ...values]) => [label, values]));
+
+    expect(rows.get("run")).toEqual(["a", "b"]);
+    expect(rows.get("status")).toEqual(["completed", "failed"]);
+    expect(rows.get("dataset")).toEqual(["0123456789ab", "0123456789ab"]);
+    expect(rows.get("other features")).toEqual(["form@1", "form@2"]);
+    expect(rows.get("layers")).toEqual(["64-32", "128"]);
+    expect(rows.get("learning rate")).toEqual(["0.001", "0.01"]);
+    expect(rows.get("epochs")).toEqual(["2/2", "0/2"]);
+    expect(rows.get("epoch 0 mae / val mae")).toEqual(["2.500 / 2.600", "-"]);
+    expect(rows.get("epoch 1 mae / val mae")).toEqual(["2.200 / 2.400", "-"]);
+    expect(rows.has("epoch 2 mae / val mae")).toBe(false);
+    expect(rows.get("final val mae")).toEqual(["2.400", "-"]);
+    expect(rows.get("eval r2")).toEqual(["0.120", "-"]);
+  });
+});
+
+describe("formatTable", () => {
+  test("pads columns to their widest cell", () => {
+    expect(
+      formatTable([
+        ["run", "a", "bb"],
+        ["status", "completed", "x"],
+      ])
+    ).toEqual(["run     a          bb", "status  completed  x"]);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  FPLValidationError,
+  findIssues,
+  fixtureSchema,
+  validateFixtures,
+  validatePlayerSummary,
+} from "../../models/fplSchemas";
+
+describe("fplSchemas", () => {
+  const validFixture = {
+    id: 1,
+    event: 1,
+    finished: true,
+    started: true,
+    kickoff_time: "2024-08-16T19:00:00Z",
+    team_h: 14,
+    team_a: 9,
+    team_h_score: 1,
+    team_a_score: 0,
+    team_h_difficulty: 3,
+    team_a_difficulty: 4,
+    stats: [
+      {
+        identifier: "goals_scored",
+        h: [{ value: 1, element: 401 }],
+        a: [],
+      },
+    ],
+  };
+
+  test("accepts a valid fixtures payload", () => {
+    expect(validateFixtures([validFixture])).toEqual([validFixture]);
+  });
+
+  test("accepts null for nullable fields", () => {
+    const unscheduled = { ...validFixture, event: null, kickoff_time: null, team_h_score: null };
+    expect(findIssues(unscheduled, fixtureSchema)).toEqual([]);
+  });
+
+  test("names the offending field when a value has the wrong type", () => {
+    const malformed = { ...validFixture, team_h_difficulty: "3" };
+
+    expect(() => validateFixtures([validFixture, malformed])).toThrow(FPLValidationError);
+    expect(() => validateFixtures([validFixture, malformed])).toThrow(
+      'field "[1].team_h_difficulty" expected number but received string'
+    );
+  });
+
+  test("reports missing nested fields with their full path", () => {
+    const summary = {
+      fixtures: [],
+      history_past: [],
+      history: [{ element: 1, fixture: 1, opponent_team: 2 }],
+    };
+
+    let caught: unknown;
+    try {
+      validatePlayerSummary(summary);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(FPLValidationError);
+    expect((caught as FPLValidationError).issues[0]).toEqual({
+      path: "history[0].total_points",
+      expected: "number",
+      received: "missing",
+    });
+  });
+
+  test("reports each field once for arrays of malformed items", () => {
+    const issues = findIssues(
+      [
+        { ...validFixture, team_h: "x" },
+        { ...validFixture, team_h: "y" },
+      ],
+      { kind: "array", items: fixtureSchema }
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe("[0].team_h");
+  });
+});
@@ -0,0 +1,79 @@
+import axios, { AxiosError, AxiosResponse } from "axios";
+import { FPLRequester, isRetryable } from "../../services/fplRequester";
+
+jest.mock("../../utils/logger");
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  new AxiosError(`HTTP ${status}`, undefined, undefined, undefined, {
+    status,
+    headers,
+  } as unknown as AxiosResponse);
+
+describe("FPLRequester", () => {
+  const options = {
+    baseUrl: "https://example.test/api",
+    requestsPerSecond: 1000,
+    burst: 1000,
+    maxRetries: 3,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    timeoutMs: 50,
+  };
+  let wait: jest.Mock;
+  let getSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    wait = jest.fn().mockResolvedValue(undefined);
+    getSpy = jest.spyOn(axios, "get");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("retries 5xx responses with exponential backoff", async () => {
+    getSpy
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(502))
+      .mockResolvedValueOnce({ data: { ok: true } });
+    const requester = new FPLRequester(options, wait, () => 0.5);
+
+    await expect(requester.get("/fixtures/")).resolves.toEqual({ ok: true });
+
+    expect(getSpy).toHaveBeenCalledTimes(3);
+    expect(getSpy).toHaveBeenCalledWith("https://example.test/api/fixtures/", { timeout: 50 });
+    expect(wait.mock.calls).toEqual([[50], [100]]);
+  });
+
+  test("honours Retry-After on 429 responses", async () => {
+    getSpy
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "2" }))
+      .mockResolvedValueOnce({ data: [] });
+    const requester = new FPLRequester({ ...options, maxDelayMs: 5000 }, wait);
+
+    await requester.get("/fixtures/");
+
+    expect(wait).toHaveBeenCalledWith(2000);
+  });
+
+  test("does not retry client errors", async () => {
+    getSpy.mockRejectedValue(httpError(404));
+    const requester = new FPLRequester(options, wait);
+
+    await expect(requester.get("/element-summary/0/")).rejects.toThrow("HTTP 404");
+    expect(getSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test("gives up after maxRetries", async () => {
+    getSpy.mockRejectedValue(httpError(500));
+    const requester = new FPLRequester(options, wait);
+
+    await expect(requester.get("/fixtures/")).rejects.toThrow("HTTP 500");
+    expect(getSpy).toHaveBeenCalledTimes(options.maxRetries + 1);
+  });
+
+  test("treats timeouts as retryable", () => {
+    expect(isRetryable(new AxiosError("timeout", "ECONNABORTED"))).toBe(true);
+    expect(isRetryable(new Error("boom"))).toBe(false);
+  });
+});
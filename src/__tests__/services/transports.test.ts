@@ -0,0 +1,71 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  RecordingTransport,
+  ReplayTransport,
+  SnapshotMissingError,
+  endpointKey,
+} from "../../services/transports";
+
+jest.mock("../../utils/logger");
+
+describe("transports", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "fpl-snapshot-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("endpointKey flattens endpoint paths", () => {
+    expect(endpointKey("/element-summary/302/")).toBe("element-summary_302");
+    expect(endpointKey("/bootstrap-static/")).toBe("bootstrap-static");
+    expect(endpointKey("/leagues-classic/7/standings/?page_standings=2")).toBe(
+      "leagues-classic_7_standings_page_standings_2"
+    );
+  });
+
+  test("replays what was recorded without calling the network", async () => {
+    const live = { get: jest.fn().mockResolvedValue({ elements: [1, 2] }) };
+    const recorder = new RecordingTransport(
+      live,
+      directory,
+      () => new Date("2024-09-01T10:00:00Z")
+    );
+
+    await recorder.get("/event/3/live/");
+
+    const replay = new ReplayTransport(directory);
+    await expect(replay.get("/event/3/live/")).resolves.toEqual({ elements: [1, 2] });
+    expect(live.get).toHaveBeenCalledTimes(1);
+  });
+
+  test("replays the latest recording made at or before the snapshot time", async () => {
+    const live = { get: jest.fn() };
+    let now = new Date("2024-09-01T10:00:00Z");
+    const recorder = new RecordingTransport(live, directory, () => now);
+
+    live.get.mockResolvedValueOnce({ version: 1 });
+    await recorder.get("/fixtures/");
+    now = new Date("2024-09-08T10:00:00Z");
+    live.get.mockResolvedValueOnce({ version: 2 });
+    await recorder.get("/fixtures/");
+
+    await expect(new ReplayTransport(directory).get("/fixtures/")).resolves.toEqual({
+      version: 2,
+    });
+    await expect(
+      new ReplayTransport(directory, new Date("2024-09-05T00:00:00Z")).get("/fixtures/")
+    ).resolves.toEqual({ version: 1 });
+  });
+
+  test("fails in replay mode when an endpoint was never recorded", async () => {
+    await expect(new ReplayTransport(directory).get("/fixtures/")).rejects.toBeInstanceOf(
+      SnapshotMissingError
+    );
+  });
+});
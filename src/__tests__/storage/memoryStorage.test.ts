@@ -0,0 +1,64 @@
+import { MemoryStorage, matchesFilter } from "../../storage/memoryStorage";
+
+describe("MemoryStorage", () => {
+  test("matchesFilter supports equality, operators, arrays and dotted paths", () => {
+    const document = {
+      id: 3,
+      season: "2024/25",
+      tags: ["fwd", "pen"],
+      league: { id: 7 },
+      kickoff: new Date("2024-08-16T19:00:00Z"),
+      news: null,
+    };
+
+    expect(matchesFilter(document, { id: 3, season: "2024/25" })).toBe(true);
+    expect(matchesFilter(document, { id: { $in: [1, 2] } })).toBe(false);
+    expect(matchesFilter(document, { id: { $gte: 3, $lt: 4 } })).toBe(true);
+    expect(matchesFilter(document, { id: { $ne: 3 } })).toBe(false);
+    expect(matchesFilter(document, { tags: "pen" })).toBe(true);
+    expect(matchesFilter(document, { "league.id": 7 })).toBe(true);
+    expect(matchesFilter(document, { kickoff: { $gt: new Date("2024-08-01") } })).toBe(true);
+    expect(matchesFilter(document, { news: null, missing: null })).toBe(true);
+    expect(matchesFilter(document, { missing: { $exists: false } })).toBe(true);
+  });
+
+  test("find sorts, limits and returns copies", async () => {
+    const storage = new MemoryStorage();
+    const players = storage.collection("players");
+    await players.insertMany([
+      { id: 2, now_cost: 55 },
+      { id: 1, now_cost: 100 },
+      { id: 3, now_cost: 45 },
+    ] as any);
+
+    const cheapest = await players.find({}, { sort: { now_cost: 1 }, limit: 2 });
+    expect(cheapest.map((player) => player.id)).toEqual([3, 2]);
+
+    cheapest[0].now_cost = 0;
+    expect((await players.findOne({ id: 3 }))?.now_cost).toBe(45);
+    expect(await players.countDocuments({ now_cost: { $gt: 50 } })).toBe(2);
+  });
+
+  test("updateOne upserts from the filter and updateMany and deleteMany match filters", async () => {
+    const storage = new MemoryStorage();
+    const seasons = storage.collection("seasons");
+
+    await seasons.updateOne(
+      { id: "2023/24" },
+      { $set: { current: true }, $setOnInsert: { createdAt: new Date(0) } },
+      { upsert: true }
+    );
+    await seasons.updateOne({ id: "2024/25" }, { $set: { current: true } });
+    expect(await seasons.find()).toEqual([
+      expect.objectContaining({ id: "2023/24", current: true, createdAt: new Date(0) }),
+    ]);
+
+    await seasons.insertOne({ id: "2024/25" });
+    await seasons.updateMany({ id: { $ne: "2024/25" } }, { $set: { current: false } });
+    expect(await seasons.findOne({ current: false })).toEqual(
+      expect.objectContaining({ id: "2023/24" })
+    );
+    expect(await seasons.deleteMany({ current: { $exists: false } })).toBe(1);
+    expect(await seasons.countDocuments()).toBe(1);
+  });
+});
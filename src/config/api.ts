@@ -0,0 +1,29 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Settings for the request layer behind `FPLApiService`. Every value can be overridden
+ * with the environment variable named next to it.
+ */
+export const apiConfig = {
+  /** Sustained request rate (`FPL_RATE_LIMIT_PER_SECOND`). */
+  requestsPerSecond: numberFromEnv("FPL_RATE_LIMIT_PER_SECOND", 5),
+  /** Number of requests that may be sent back-to-back before throttling kicks in (`FPL_RATE_LIMIT_BURST`). */
+  burst: numberFromEnv("FPL_RATE_LIMIT_BURST", 10),
+  /** Retries after the first attempt for 429, 5xx and timeout failures (`FPL_MAX_RETRIES`). */
+  maxRetries: numberFromEnv("FPL_MAX_RETRIES", 5),
+  /** Base delay of the exponential backoff (`FPL_RETRY_BASE_DELAY_MS`). */
+  baseDelayMs: numberFromEnv("FPL_RETRY_BASE_DELAY_MS", 500),
+  /** Upper bound of a single backoff delay (`FPL_RETRY_MAX_DELAY_MS`). */
+  maxDelayMs: numberFromEnv("FPL_RETRY_MAX_DELAY_MS", 30000),
+  /** Per-request timeout (`FPL_REQUEST_TIMEOUT_MS`). */
+  timeoutMs: numberFromEnv("FPL_REQUEST_TIMEOUT_MS", 15000),
+  /** Number of player summaries fetched in parallel (`FPL_CONCURRENCY`). */
+  concurrency: numberFromEnv("FPL_CONCURRENCY", 8),
+};
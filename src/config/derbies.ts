@@ -0,0 +1,23 @@
+/**
+ * Local and traditional rivalries, as pairs of team short names in either order.
+ * Pairs whose teams are not both in the league in a season are simply never matched.
+ */
+export const derbyConfig: [string, string][] = [
+  ["ARS", "TOT"],
+  ["ARS", "CHE"],
+  ["CHE", "TOT"],
+  ["CHE", "FUL"],
+  ["FUL", "BRE"],
+  ["CHE", "BRE"],
+  ["WHU", "TOT"],
+  ["WHU", "CHE"],
+  ["CRY", "BHA"],
+  ["LIV", "EVE"],
+  ["MCI", "MUN"],
+  ["NEW", "SUN"],
+  ["AVL", "WOL"],
+  ["WOL", "WBA"],
+  ["NFO", "LEI"],
+  ["SOU", "BOU"],
+  ["LEE", "MUN"],
+];
@@ -0,0 +1,29 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const rateFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+};
+
+/**
+ * Thresholds for the data quality checks run after collection and feature engineering.
+ * Every value can be overridden with the environment variable named next to it.
+ */
+export const qualityConfig = {
+  /** Fail the pipeline when a threshold is exceeded instead of only logging (`FPL_QUALITY_FAIL=true`). */
+  failOnThresholds: process.env.FPL_QUALITY_FAIL === "true",
+  /** Largest tolerated share of players without a stored summary (`FPL_QUALITY_MAX_MISSING_RATE`). */
+  maxMissingRate: rateFromEnv("FPL_QUALITY_MAX_MISSING_RATE", 0.02),
+  /** Largest tolerated share of null, NaN or Infinity values in any numeric field (`FPL_QUALITY_MAX_INVALID_RATE`). */
+  maxInvalidRate: rateFromEnv("FPL_QUALITY_MAX_INVALID_RATE", 0.05),
+  /** Largest tolerated share of out-of-range values in any checked field (`FPL_QUALITY_MAX_OUT_OF_RANGE_RATE`). */
+  maxOutOfRangeRate: rateFromEnv("FPL_QUALITY_MAX_OUT_OF_RANGE_RATE", 0.01),
+  /** Largest tolerated number of dangling references between collections (`FPL_QUALITY_MAX_INTEGRITY_ISSUES`). */
+  maxIntegrityIssues: rateFromEnv("FPL_QUALITY_MAX_INTEGRITY_ISSUES", 0),
+};
+
+export type QualityThresholds = typeof qualityConfig;
@@ -0,0 +1,28 @@
+import { RollingFeatureSpec } from "../data/rollingStats";
+
+/**
+ * The rolling features `FeatureEngineer` adds to every player, named by
+ * `rollingFeatureName`. Add or remove entries here to change the feature set.
+ */
+export const rollingFeatureConfig: RollingFeatureSpec[] = [
+  { stat: "points", window: 3 },
+  { stat: "points", window: 5 },
+  { stat: "points", window: 10 },
+  { stat: "points", halfLife: 3 },
+  { stat: "points", window: 5, minutesWeighted: true },
+  { stat: "minutes", window: 5 },
+  { stat: "minutes", halfLife: 3 },
+  { stat: "xG", window: 5, per90: true },
+  { stat: "xG", halfLife: 5, per90: true },
+  { stat: "xA", window: 5, per90: true },
+  { stat: "xA", halfLife: 5, per90: true },
+  { stat: "bonus", window: 5 },
+  { stat: "bps", halfLife: 3 },
+  { stat: "ict", window: 5, per90: true },
+];
+
+/**
+ * The player's `formTrend`: points over their last 5 games, weighted towards the most
+ * recent ones.
+ */
+export const formTrendConfig: RollingFeatureSpec = { stat: "points", window: 5, halfLife: 3 };
@@ -0,0 +1,74 @@
+import { ScoringRules } from "../data/expectedPoints";
+import { BpsRules } from "../data/bonusSimulator";
+
+const appearanceAndCards = {
+  appearance: 1,
+  sixtyMinutes: 1,
+  assist: 3,
+  yellowCard: -1,
+  redCard: -3,
+};
+
+/**
+ * The official FPL scoring rules of each position, keyed by the position's
+ * `singular_name_short` in `element_types`. Update these when FPL changes its rules.
+ */
+export const scoringConfig: Record<string, ScoringRules> = {
+  GKP: {
+    ...appearanceAndCards,
+    goal: 10,
+    cleanSheet: 4,
+    goalsConceded: -1,
+    goalsConcededPer: 2,
+    saves: 1,
+    savesPer: 3,
+  },
+  DEF: {
+    ...appearanceAndCards,
+    goal: 6,
+    cleanSheet: 4,
+    goalsConceded: -1,
+    goalsConcededPer: 2,
+    saves: 0,
+    savesPer: 3,
+  },
+  MID: {
+    ...appearanceAndCards,
+    goal: 5,
+    cleanSheet: 1,
+    goalsConceded: 0,
+    goalsConcededPer: 2,
+    saves: 0,
+    savesPer: 3,
+  },
+  FWD: {
+    ...appearanceAndCards,
+    goal: 4,
+    cleanSheet: 0,
+    goalsConceded: 0,
+    goalsConcededPer: 2,
+    saves: 0,
+    savesPer: 3,
+  },
+};
+
+const bpsAppearanceAndCards = {
+  appearance: 3,
+  sixtyMinutes: 3,
+  assist: 9,
+  save: 2,
+  yellowCard: -3,
+  redCard: -9,
+};
+
+/**
+ * The official bonus points system (BPS) scores of the events `BonusSimulator` models,
+ * keyed like `scoringConfig`. Everything else a player does (passes, tackles, key
+ * passes and so on) is modelled from their history as a whole.
+ */
+export const bpsConfig: Record<string, BpsRules> = {
+  GKP: { ...bpsAppearanceAndCards, goal: 12, cleanSheet: 12, goalConceded: -4 },
+  DEF: { ...bpsAppearanceAndCards, goal: 12, cleanSheet: 12, goalConceded: -4 },
+  MID: { ...bpsAppearanceAndCards, goal: 18, cleanSheet: 0, goalConceded: 0 },
+  FWD: { ...bpsAppearanceAndCards, goal: 24, cleanSheet: 0, goalConceded: 0 },
+};
@@ -0,0 +1,15 @@
+import { TrainingHyperparameters } from "../ml/trainingRuns";
+
+/**
+ * The hyperparameters `ModelTrainer` uses unless it is given others. Every run records
+ * the ones it used in `training_runs`.
+ */
+export const trainingConfig: TrainingHyperparameters = {
+  layers: [64, 32],
+  activation: "relu",
+  optimizer: "adam",
+  learningRate: 0.001,
+  epochs: 5,
+  batchSize: 32,
+  validationSplit: 0.2,
+};
@@ -0,0 +1,90 @@
+import { Element, ElementStatus } from "../models/fplTypes";
+
+/**
+ * The availability fields of a player, as published in the bootstrap `elements`.
+ */
+export interface Availability {
+  status: ElementStatus;
+  news: string;
+  chanceOfPlayingNextRound: number | null;
+  chanceOfPlayingThisRound: number | null;
+}
+
+/**
+ * A status or news transition of one player, as stored in `availability_changes`.
+ */
+export interface AvailabilityChange {
+  season: string;
+  element: number;
+  webName: string;
+  changedAt: Date;
+  newsAdded: string | null;
+  previous: Availability;
+  current: Availability;
+}
+
+export const availabilityOf = (element: Element): Availability => ({
+  status: element.status,
+  news: element.news,
+  chanceOfPlayingNextRound: element.chance_of_playing_next_round,
+  chanceOfPlayingThisRound: element.chance_of_playing_this_round,
+});
+
+/**
+ * The expected fraction of a player's points they will get to play for in the next
+ * round. Uses `chance_of_playing_next_round` when it is published, otherwise the status:
+ * available players count in full, doubtful ones at half and the rest not at all.
+ */
+export function availabilityFactor(
+  availability: Pick<Availability, "status" | "chanceOfPlayingNextRound">
+): number {
+  if (availability.chanceOfPlayingNextRound != null) {
+    return availability.chanceOfPlayingNextRound / 100;
+  }
+  switch (availability.status) {
+    case "a":
+      return 1;
+    case "d":
+      return 0.5;
+    default:
+      return 0;
+  }
+}
+
+const sameAvailability = (a: Availability, b: Availability) =>
+  a.status === b.status &&
+  a.news === b.news &&
+  a.chanceOfPlayingNextRound === b.chanceOfPlayingNextRound &&
+  a.chanceOfPlayingThisRound === b.chanceOfPlayingThisRound;
+
+/**
+ * Compares the previously stored elements with freshly fetched ones and returns a change
+ * for every player whose status, news or chance of playing differs. Players that are new
+ * this run have no previous state and are not reported.
+ */
+export function findAvailabilityChanges(
+  previous: Element[],
+  current: Element[],
+  season: string,
+  changedAt: Date
+): AvailabilityChange[] {
+  const previousById = new Map(previous.map((element) => [element.id, element]));
+  const changes: AvailabilityChange[] = [];
+  for (const element of current) {
+    const before = previousById.get(element.id);
+    if (!before) continue;
+    const from = availabilityOf(before);
+    const to = availabilityOf(element);
+    if (sameAvailability(from, to)) continue;
+    changes.push({
+      season,
+      element: element.id,
+      webName: element.web_name,
+      changedAt,
+      newsAdded: element.news_added,
+      previous: from,
+      current: to,
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,300 @@
+import { ElementHistory, ElementType } from "../models/fplTypes";
+import { bpsConfig } from "../config/scoring";
+import { sampleNormal, samplePoisson, seededRandom } from "../utils/random";
+
+/**
+ * The BPS a position scores for each event `BonusSimulator` models.
+ */
+export interface BpsRules {
+  /** For playing at all. */
+  appearance: number;
+  /** On top of `appearance`, for playing 60 minutes or more. */
+  sixtyMinutes: number;
+  goal: number;
+  assist: number;
+  /** For a clean sheet, which needs 60 minutes or more. */
+  cleanSheet: number;
+  /** For every goal conceded while on the pitch. */
+  goalConceded: number;
+  save: number;
+  yellowCard: number;
+  redCard: number;
+}
+
+/**
+ * A player's tendencies as far as BPS is concerned, from their history.
+ */
+export interface BpsProfile {
+  id: number;
+  rules: BpsRules;
+  /** Chance the player plays at all. */
+  appearance: number;
+  /** Chance the player plays 60 minutes or more. */
+  sixtyMinutes: number;
+  /** Chance the player scores each goal their team scores while they are on the pitch. */
+  goalShare: number;
+  /** Chance the player assists each goal their team scores while they are on the pitch. */
+  assistShare: number;
+  savesPer90: number;
+  yellowCardsPer90: number;
+  /** Mean BPS per 90 minutes from everything the modelled events do not cover. */
+  otherBpsPer90: number;
+  /** Spread of that BPS over a full game. */
+  otherBpsStd: number;
+}
+
+/**
+ * A player's simulated bonus in one fixture.
+ */
+export interface BonusForecast {
+  expectedBonus: number;
+  /** Chances of 0, 1, 2 and 3 bonus points. */
+  bonusProbabilities: number[];
+  /** Average BPS, counting games the player does not play as 0. */
+  expectedBps: number;
+}
+
+/** How many of a player's latest games decide how likely they are to play. */
+const RECENT_GAMES = 5;
+
+/** Team goals added to a player's record, so a lucky goal or two is not a share of 1. */
+const PRIOR_TEAM_GOALS = 2;
+
+/** Share of a full game played by a player who comes on, or goes off, before 60 minutes. */
+const PARTIAL_GAME = 1 / 3;
+
+export const DEFAULT_SIMULATIONS = 1000;
+
+/**
+ * The BPS rules of every position, looked up in `rules` by the position's
+ * `singular_name_short`. Positions without rules are left out.
+ */
+export function bpsRules(
+  elementTypes: Pick<ElementType, "id" | "singular_name_short">[],
+  rules: Record<string, BpsRules> = bpsConfig
+): Map<number, BpsRules> {
+  return new Map(
+    elementTypes
+      .filter((elementType) => rules[elementType.singular_name_short])
+      .map((elementType) => [elementType.id, rules[elementType.singular_name_short]])
+  );
+}
+
+/**
+ * The BPS a game's modelled events were worth.
+ */
+export function eventBps(game: ElementHistory, rules: BpsRules): number {
+  if (game.minutes <= 0) return 0;
+  return (
+    rules.appearance +
+    (game.minutes >= 60 ? rules.sixtyMinutes : 0) +
+    game.goals_scored * rules.goal +
+    game.assists * rules.assist +
+    (game.clean_sheets || 0) * rules.cleanSheet +
+    (game.goals_conceded || 0) * rules.goalConceded +
+    (game.saves || 0) * rules.save +
+    (game.yellow_cards || 0) * rules.yellowCard +
+    (game.red_cards || 0) * rules.redCard
+  );
+}
+
+/**
+ * A player's BPS profile from their history, or undefined if they have not played.
+ *
+ * @param history - The player's games, oldest first.
+ */
+export function bpsProfile(
+  id: number,
+  history: ElementHistory[],
+  rules: BpsRules
+): BpsProfile | undefined {
+  const played = history.filter((game) => game.minutes > 0);
+  if (played.length === 0) return undefined;
+
+  const recent = history.slice(-RECENT_GAMES);
+  const minutes = played.reduce((sum, game) => sum + game.minutes, 0);
+  const per90 = (total: (game: ElementHistory) => number) =>
+    (played.reduce((sum, game) => sum + total(game), 0) / minutes) * 90;
+  // Team goals scored while the player was on the pitch, assuming goals are spread evenly
+  const teamGoals = played.reduce((sum, game) => {
+    const scored = (game.was_home ? game.team_h_score : game.team_a_score) ?? 0;
+    return sum + (scored * game.minutes) / 90;
+  }, 0);
+  const share = (total: number) => Math.min(1, total / (teamGoals + PRIOR_TEAM_GOALS));
+
+  const otherBpsPer90 = per90((game) => (game.bps || 0) - eventBps(game, rules));
+  const deviations = played.map(
+    (game) =>
+      ((game.bps || 0) - eventBps(game, rules) - (otherBpsPer90 * game.minutes) / 90) /
+      Math.sqrt(game.minutes / 90)
+  );
+
+  return {
+    id,
+    rules,
+    appearance: recent.filter((game) => game.minutes > 0).length / recent.length,
+    sixtyMinutes: recent.filter((game) => game.minutes >= 60).length / recent.length,
+    goalShare: share(played.reduce((sum, game) => sum + game.goals_scored, 0)),
+    assistShare: share(played.reduce((sum, game) => sum + game.assists, 0)),
+    savesPer90: per90((game) => game.saves || 0),
+    yellowCardsPer90: per90((game) => game.yellow_cards || 0),
+    otherBpsPer90,
+    otherBpsStd: Math.sqrt(
+      deviations.reduce((sum, deviation) => sum + deviation ** 2, 0) / deviations.length
+    ),
+  };
+}
+
+/**
+ * Awards 3, 2 and 1 bonus points to the three highest BPS scores, with FPL's tie rules:
+ * tied players share the higher award and the next player drops as many places as
+ * there were extra players in the tie, so a tie for first gives 3, 3 and 1.
+ */
+export function allocateBonus(scores: { id: number; bps: number }[]): Map<number, number> {
+  const ranked = [...scores].sort((a, b) => b.bps - a.bps);
+  const bonus = new Map<number, number>();
+  ranked.forEach((score, index) => {
+    let rank = index;
+    while (rank > 0 && ranked[rank - 1].bps === score.bps) rank--;
+    if (rank < 3) bonus.set(score.id, 3 - rank);
+  });
+  return bonus;
+}
+
+/**
+ * Estimates bonus points by simulating fixtures many times: each simulation draws a
+ * scoreline from the scoreline model, who plays and for how long, who scores and assists
+ * the goals, saves, cards and the rest of each player's BPS, then allocates the bonus.
+ */
+export class BonusSimulator {
+  /**
+   * @param random - Source of uniform numbers in `[0, 1)`; seeded so runs are repeatable.
+   */
+  constructor(
+    private random: () => number = seededRandom(0),
+    private simulations: number = DEFAULT_SIMULATIONS
+  ) {}
+
+  /**
+   * @param probabilities - The fixture's scoreline matrix, `probabilities[home][away]`.
+   * @param home - Profiles of the home side's players.
+   * @param away - Profiles of the away side's players.
+   */
+  simulate(
+    probabilities: number[][],
+    home: BpsProfile[],
+    away: BpsProfile[]
+  ): Map<number, BonusForecast> {
+    const scorelines = probabilities.flatMap((row, homeGoals) =>
+      row.map((probability, awayGoals) => ({ homeGoals, awayGoals, probability }))
+    );
+    const totals = new Map(
+      [...home, ...away].map((profile) => [profile.id, { bonus: [0, 0, 0, 0], bps: 0 }])
+    );
+
+    for (let simulation = 0; simulation < this.simulations; simulation++) {
+      const { homeGoals, awayGoals } = this.drawScoreline(scorelines);
+      const scores = [
+        ...this.simulateSide(home, homeGoals, awayGoals),
+        ...this.simulateSide(away, awayGoals, homeGoals),
+      ];
+      const bonus = allocateBonus(scores);
+      const bps = new Map(scores.map((score) => [score.id, score.bps]));
+      for (const [id, total] of totals) {
+        total.bonus[bonus.get(id) ?? 0]++;
+        total.bps += bps.get(id) ?? 0;
+      }
+    }
+
+    return new Map(
+      [...totals].map(([id, total]) => {
+        const bonusProbabilities = total.bonus.map((count) => count / this.simulations);
+        return [
+          id,
+          {
+            expectedBonus: bonusProbabilities.reduce(
+              (sum, probability, points) => sum + probability * points,
+              0
+            ),
+            bonusProbabilities,
+            expectedBps: total.bps / this.simulations,
+          },
+        ];
+      })
+    );
+  }
+
+  private drawScoreline(
+    scorelines: { homeGoals: number; awayGoals: number; probability: number }[]
+  ) {
+    let remaining = this.random();
+    for (const scoreline of scorelines) {
+      remaining -= scoreline.probability;
+      if (remaining < 0) return scoreline;
+    }
+    return scorelines[scorelines.length - 1];
+  }
+
+  /**
+   * The BPS of one side's players who play in a simulated game.
+   */
+  private simulateSide(profiles: BpsProfile[], scored: number, conceded: number) {
+    const players = profiles
+      .map((profile) => {
+        const draw = this.random();
+        // The share of the game the player is on the pitch for
+        const share =
+          draw < profile.sixtyMinutes ? 1 : draw < profile.appearance ? PARTIAL_GAME : 0;
+        return { profile, share, goals: 0, assists: 0 };
+      })
+      .filter((player) => player.share > 0);
+
+    for (let goal = 0; goal < scored; goal++) {
+      const scorer = this.pick(
+        players,
+        (player) => player.profile.goalShare * player.share
+      );
+      if (scorer) scorer.goals++;
+      const assister = this.pick(
+        players.filter((player) => player !== scorer),
+        (player) => player.profile.assistShare * player.share
+      );
+      if (assister) assister.assists++;
+    }
+
+    return players.map(({ profile, share, goals, assists }) => {
+      const rules = profile.rules;
+      const fullGame = share === 1;
+      const goalsConceded = fullGame
+        ? conceded
+        : Array.from({ length: conceded }).filter(() => this.random() < share).length;
+      const bps =
+        rules.appearance +
+        (fullGame ? rules.sixtyMinutes : 0) +
+        goals * rules.goal +
+        assists * rules.assist +
+        (fullGame && conceded === 0 ? rules.cleanSheet : 0) +
+        goalsConceded * rules.goalConceded +
+        samplePoisson(profile.savesPer90 * share, this.random) * rules.save +
+        (this.random() < profile.yellowCardsPer90 * share ? rules.yellowCard : 0) +
+        sampleNormal(
+          profile.otherBpsPer90 * share,
+          profile.otherBpsStd * Math.sqrt(share),
+          this.random
+        );
+      return { id: profile.id, bps: Math.round(bps) };
+    });
+  }
+
+  /**
+   * Picks at most one player, each with the chance `weight` gives them.
+   */
+  private pick<T>(players: T[], weight: (player: T) => number): T | undefined {
+    let remaining = this.random();
+    for (const player of players) {
+      remaining -= weight(player);
+      if (remaining < 0) return player;
+    }
+    return undefined;
+  }
+}
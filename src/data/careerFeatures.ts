@@ -0,0 +1,108 @@
+import { ElementHistory, ElementHistoryPast } from "../models/fplTypes";
+
+/**
+ * How many full matches' worth of the positional prior a player's record is blended
+ * with. A player with 10 full matches of history is weighted half their own record,
+ * half the prior.
+ */
+export const PRIOR_MATCHES = 10;
+
+/** Points per 90 assumed for a position when no player in it has past-season data. */
+const FALLBACK_PRIOR = 4;
+
+const FULL_SEASON_MINUTES = 38 * 90;
+
+/**
+ * Average points per 90 of each position (`element_type`) over every stored past season,
+ * weighted by minutes. Used as the prior that thin records are shrunk towards.
+ */
+export function positionalPriors(
+  players: { elementType?: number; historyPast?: ElementHistoryPast[] }[]
+): Map<number, number> {
+  const totals = new Map<number, { points: number; minutes: number }>();
+  for (const player of players) {
+    if (player.elementType === undefined) continue;
+    const total = totals.get(player.elementType) ?? { points: 0, minutes: 0 };
+    for (const season of player.historyPast ?? []) {
+      total.points += season.total_points || 0;
+      total.minutes += season.minutes || 0;
+    }
+    totals.set(player.elementType, total);
+  }
+  return new Map(
+    [...totals].map(([elementType, total]) => [
+      elementType,
+      total.minutes > 0 ? (total.points / total.minutes) * 90 : FALLBACK_PRIOR,
+    ])
+  );
+}
+
+/**
+ * Points per 90 blended with a prior: the fewer minutes behind `points`, the closer the
+ * result stays to `prior`.
+ */
+export const shrunkPointsPer90 = (points: number, minutes: number, prior: number) =>
+  (points + prior * PRIOR_MATCHES) / (minutes / 90 + PRIOR_MATCHES);
+
+/**
+ * Least-squares slope of `values` against their index, i.e. the average change per step.
+ */
+function slope(values: number[]): number {
+  if (values.length < 2) return 0;
+  const meanX = (values.length - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / values.length;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, index) => {
+    covariance += (index - meanX) * (value - meanY);
+    variance += (index - meanX) ** 2;
+  });
+  return covariance / variance;
+}
+
+/**
+ * Career features from a player's past Premier League seasons (`history_past`, oldest
+ * first) and the current season's `history`. Points-per-90 figures are shrunk towards
+ * the positional prior, so new or promoted players with little history are scored
+ * close to a typical player in their position rather than by a handful of games.
+ */
+export function careerFeatures(
+  historyPast: ElementHistoryPast[],
+  history: ElementHistory[],
+  prior: number = FALLBACK_PRIOR
+) {
+  const played = historyPast.filter((season) => (season.minutes || 0) > 0);
+  const lastSeason = played[played.length - 1];
+  const careerPoints = played.reduce((sum, season) => sum + (season.total_points || 0), 0);
+  const careerMinutes = played.reduce((sum, season) => sum + (season.minutes || 0), 0);
+  const currentPoints = history.reduce((sum, game) => sum + (game.total_points || 0), 0);
+  const currentMinutes = history.reduce((sum, game) => sum + (game.minutes || 0), 0);
+
+  const lastSeasonPer90 = lastSeason
+    ? shrunkPointsPer90(lastSeason.total_points || 0, lastSeason.minutes || 0, prior)
+    : prior;
+  const currentSeasonPer90 = shrunkPointsPer90(currentPoints, currentMinutes, prior);
+  const firstPriced = historyPast.find((season) => season.start_cost > 0);
+  const lastPriced = [...historyPast].reverse().find((season) => season.end_cost > 0);
+
+  return {
+    careerSeasons: played.length,
+    careerMinutes,
+    careerStarts: played.reduce((sum, season) => sum + (season.starts || 0), 0),
+    careerPointsPer90: careerMinutes > 0 ? (careerPoints / careerMinutes) * 90 : 0,
+    careerPointsPer90Shrunk: shrunkPointsPer90(careerPoints, careerMinutes, prior),
+    lastSeasonPointsPer90Shrunk: lastSeasonPer90,
+    lastSeasonStarts: lastSeason?.starts || 0,
+    // Change in the share of a full season's minutes played, per season, over the last 3
+    minutesTrend: slope(
+      played.slice(-3).map((season) => (season.minutes || 0) / FULL_SEASON_MINUTES)
+    ),
+    lastSeasonPriceChange: lastSeason ? lastSeason.end_cost - lastSeason.start_cost : 0,
+    careerPriceChange:
+      firstPriced && lastPriced ? lastPriced.end_cost - firstPriced.start_cost : 0,
+    seasonOnSeasonImprovement:
+      lastSeasonPer90 > 0
+        ? ((currentSeasonPer90 - lastSeasonPer90) / lastSeasonPer90) * 100
+        : 0,
+  };
+}
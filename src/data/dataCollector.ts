@@ -1,40 +1,116 @@
-import { MongoClient } from "mongodb";
 import { FPLApiService } from "../services/fplApiService";
 import { logger } from "../utils/logger";
+import { runWithConcurrency } from "../utils/workerPool";
+import { apiConfig } from "../config/api";
+import { FetchStateStore, hashContent } from "./fetchState";
+import { Element, EntryPicks } from "../models/fplTypes";
+import { applyTransfers, buildManagerSquad, pendingTransfers } from "./managerSquad";
+import { GameweekCalendar } from "./gameweekCalendar";
+import { findAvailabilityChanges } from "./availability";
+import { Storage } from "../storage/storage";
+import {
+  ensureSeasonIndexes,
+  getCurrentSeason,
+  seasonFromEvents,
+  setCurrentSeason,
+  tagSeason,
+} from "./season";
 
+/**
+ * The outcome of a collection run: the IDs whose fetch failed even after retries,
+ * so they can be passed back to `fetchPlayerSummaries` or `fetchAndStoreGameweekLive`.
+ */
+export interface CollectionSummary {
+  playersFetched: number;
+  playersSkipped: number;
+  failedPlayerIds: number[];
+  gameweeksSkipped: number;
+  failedGameweeks: number[];
+}
+
+export interface CollectionOptions {
+  /** Re-fetch every player summary and gameweek, ignoring the stored fetch state. */
+  full?: boolean;
+}
+
+// Ownership and transfer counters move constantly without affecting a player's
+// element-summary, so they are left out when deciding whether a player changed.
+const VOLATILE_ELEMENT_FIELDS = new Set([
+  "_id",
+  "selected_by_percent",
+  "transfers_in",
+  "transfers_out",
+  "transfers_in_event",
+  "transfers_out_event",
+]);
+
+const elementHash = (element: Element) =>
+  hashContent(
+    Object.entries(element).filter(([key]) => !VOLATILE_ELEMENT_FIELDS.has(key))
+  );
+
+/**
+ * Collects data from the FPL API into storage. Every stored document is tagged with the
+ * season it belongs to, and a run only replaces documents of the current season.
+ */
 export class FPLDataCollector {
-  private mongoClient: MongoClient;
+  private storage: Storage;
+  private fetchState: FetchStateStore;
+  private season?: string;
 
-  constructor(mongoClient: MongoClient) {
-    this.mongoClient = mongoClient;
+  constructor(storage: Storage) {
+    this.storage = storage;
+    this.fetchState = new FetchStateStore(storage);
+  }
+
+  /**
+   * The season being collected: the one derived from the latest bootstrap data, or the
+   * stored current season before bootstrap data has been fetched.
+   */
+  private async currentSeason(): Promise<string> {
+    if (!this.season) {
+      this.season = await getCurrentSeason(this.storage);
+    }
+    return this.season;
   }
 
   async fetchAndStoreBootstrapStatic() {
     try {
       const data = await FPLApiService.getBootstrapStatic();
-      const db = this.mongoClient.db();
-      await db.collection("bootstrap_static").deleteMany({});
-      await db.collection("bootstrap_static").insertOne(data);
+      const season =
+        seasonFromEvents(data.events) ?? (await this.currentSeason());
+      this.season = season;
+      await setCurrentSeason(this.storage, season);
+      await ensureSeasonIndexes(this.storage);
+
+      const bootstrap = this.storage.collection("bootstrap_static");
+      await bootstrap.deleteMany({ season });
+      await bootstrap.insertOne({ ...data, season });
 
       logger.info("Bootstrap static data stored successfully");
 
-      await db.collection("teams").deleteMany({});
-      await db.collection("teams").insertMany(data.teams);
+      const teams = this.storage.collection("teams");
+      await teams.deleteMany({ season });
+      await teams.insertMany(tagSeason(data.teams, season));
 
       logger.info("Teams data stored successfully");
 
-      await db.collection("players").deleteMany({});
-      await db.collection("players").insertMany(data.elements);
+      await this.recordAvailabilityChanges(data.elements, season);
+      const players = this.storage.collection("players");
+      await players.deleteMany({ season });
+      await players.insertMany(tagSeason(data.elements, season));
 
       logger.info("Players data stored successfully");
 
-      await db.collection("gameweeks").deleteMany({});
-      await db.collection("gameweeks").insertMany(data.events);
+      const gameweeks = this.storage.collection("gameweeks");
+      await gameweeks.deleteMany({ season });
+      await gameweeks.insertMany(tagSeason(data.events, season));
 
       logger.info("Gameweeks data stored successfully");
 
-      await db.collection("elements_types").deleteMany({});
-      await db.collection("elements_types").insertMany(data.element_types);
+      const elementTypes = this.storage.collection("elements_types");
+      await elementTypes.deleteMany({ season });
+      await elementTypes.insertMany(tagSeason(data.element_types, season));
 
       logger.info("Elements types data stored successfully");
     } catch (error) {
@@ -42,59 +118,284 @@ export class FPLDataCollector {
     }
   }
 
+  /**
+   * Logs every status, news or chance-of-playing transition between the stored players
+   * and the freshly fetched ones in `availability_changes`.
+   */
+  private async recordAvailabilityChanges(elements: Element[], season: string) {
+    const previous = await this.storage
+      .collection("players")
+      .find({ season });
+    const changes = findAvailabilityChanges(previous, elements, season, new Date());
+    if (changes.length > 0) {
+      await this.storage.collection("availability_changes").insertMany(changes);
+      logger.info(`Recorded ${changes.length} availability changes`);
+    }
+  }
+
   async fetchAndStoreFixtures() {
     try {
       const data = await FPLApiService.getFixtures();
-      const db = this.mongoClient.db();
-      await db.collection("fixtures").deleteMany({});
-      await db.collection("fixtures").insertMany(data);
+      const season = await this.currentSeason();
+      const fixtures = this.storage.collection("fixtures");
+      await fixtures.deleteMany({ season });
+      await fixtures.insertMany(tagSeason(data, season));
       logger.info("Fixtures data stored successfully");
     } catch (error) {
       logger.error("Error fetching fixtures data:", error);
     }
   }
 
-  async fetchAndStorePlayerSummary(playerId: number) {
+  async fetchAndStorePlayerSummary(playerId: number): Promise<boolean> {
     try {
       const data = await FPLApiService.getPlayerSummary(playerId);
-      const db = this.mongoClient.db();
-      await db
+      const season = await this.currentSeason();
+      await this.storage
         .collection("player_summaries")
-        .updateOne({ id: playerId }, { $set: data }, { upsert: true });
+        .updateOne(
+          { id: playerId, season },
+          { $set: { ...data, season } },
+          { upsert: true }
+        );
       logger.info(`Player summary for ID ${playerId} stored successfully`);
+      return true;
     } catch (error) {
       logger.error(`Error fetching player summary for ID ${playerId}:`, error);
+      return false;
     }
   }
 
-  async fetchAndStoreGameweekLive(gameweek: number) {
+  async fetchAndStoreGameweekLive(
+    gameweek: number,
+    finished = false
+  ): Promise<boolean> {
     try {
       const data = await FPLApiService.getGameweekLive(gameweek);
-      const db = this.mongoClient.db();
-      await db
+      const season = await this.currentSeason();
+      await this.storage
         .collection("gameweek_live")
-        .updateOne({ id: gameweek }, { $set: data }, { upsert: true });
+        .updateOne(
+          { id: gameweek, season },
+          { $set: { ...data, season } },
+          { upsert: true }
+        );
+      await this.fetchState.record(
+        season,
+        "gameweek_live",
+        gameweek,
+        hashContent(data),
+        finished
+      );
       logger.info(`Gameweek ${gameweek} live data stored successfully`);
+      return true;
     } catch (error) {
       logger.error(`Error fetching gameweek ${gameweek} live data:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Fetches a manager's entry, history, transfers and latest picks, and derives the squad
+   * they own going into the next deadline (bank, free transfers, chips used and the
+   * purchase and selling price of each of the 15 players) into `manager_squads`.
+   * Relies on `players` and `player_summaries` being collected first for prices.
+   */
+  async fetchAndStoreManager(entryId: number): Promise<boolean> {
+    try {
+      const entry = await FPLApiService.getEntry(entryId);
+      const history = await FPLApiService.getEntryHistory(entryId);
+      const transfers = await FPLApiService.getEntryTransfers(entryId);
+      const season = await this.currentSeason();
+
+      await this.storage
+        .collection("managers")
+        .updateOne(
+          { id: entryId, season },
+          { $set: { ...entry, season } },
+          { upsert: true }
+        );
+      await this.storage
+        .collection("manager_history")
+        .updateOne(
+          { entry: entryId, season },
+          { $set: { entry: entryId, ...history, season } },
+          { upsert: true }
+        );
+      await this.storage
+        .collection("manager_transfers")
+        .deleteMany({ entry: entryId, season });
+      await this.storage
+        .collection("manager_transfers")
+        .insertMany(tagSeason(transfers, season));
+      logger.info(`Manager ${entryId} entry, history and transfers stored successfully`);
+
+      if (!entry.current_event) {
+        logger.info(`Manager ${entryId} has no picks yet`);
+        return true;
+      }
+
+      let picks = await this.fetchAndStoreManagerPicks(entryId, entry.current_event);
+      // A free hit squad is temporary; the squad owned afterwards is the one before it.
+      if (picks.active_chip === "freehit" && entry.current_event > entry.started_event) {
+        picks = await this.fetchAndStoreManagerPicks(entryId, entry.current_event - 1);
+      }
+
+      const pending = pendingTransfers(transfers, picks.entry_history.event, history.chips);
+      const elements = applyTransfers(picks.picks, pending).map((pick) => pick.element);
+      const players = await this.storage
+        .collection("players")
+        .find({ id: { $in: elements }, season });
+      const summaries = await this.storage
+        .collection("player_summaries")
+        .find({ id: { $in: elements }, season });
+      const playersById = new Map(players.map((player) => [player.id, player]));
+      const summariesById = new Map(summaries.map((summary) => [summary.id, summary]));
+
+      const nowCost = (element: number) => playersById.get(element)?.now_cost ?? 0;
+      const startingPrice = (element: number) => {
+        const startedRound = summariesById
+          .get(element)
+          ?.history?.find((gw) => gw.round === entry.started_event);
+        if (startedRound) return startedRound.value;
+        const player = playersById.get(element);
+        return player ? player.now_cost - player.cost_change_start : 0;
+      };
+
+      const squad = buildManagerSquad(
+        entryId,
+        picks,
+        history,
+        transfers,
+        entry.started_event,
+        nowCost,
+        startingPrice
+      );
+      await this.storage
+        .collection("manager_squads")
+        .updateOne(
+          { entry: entryId, season },
+          { $set: { ...squad, season } },
+          { upsert: true }
+        );
+      logger.info(`Manager ${entryId} squad stored successfully`);
+      return true;
+    } catch (error) {
+      logger.error(`Error fetching manager ${entryId}:`, error);
+      return false;
     }
   }
 
-  async fetchAllData() {
+  private async fetchAndStoreManagerPicks(
+    entryId: number,
+    gameweek: number
+  ): Promise<EntryPicks> {
+    const picks = await FPLApiService.getEntryPicks(entryId, gameweek);
+    const season = await this.currentSeason();
+    await this.storage
+      .collection("manager_picks")
+      .updateOne(
+        { entry: entryId, event: gameweek, season },
+        { $set: { entry: entryId, event: gameweek, ...picks, season } },
+        { upsert: true }
+      );
+    return picks;
+  }
+
+  /**
+   * Fetches player summaries through a bounded worker pool.
+   * @returns The IDs of the players whose summary could not be fetched.
+   */
+  async fetchPlayerSummaries(
+    playerIds: number[],
+    concurrency: number = apiConfig.concurrency
+  ): Promise<number[]> {
+    const results = await runWithConcurrency(playerIds, concurrency, (id) =>
+      this.fetchAndStorePlayerSummary(id)
+    );
+    return playerIds.filter((_, index) => !results[index]);
+  }
+
+  /**
+   * Fetches bootstrap data and fixtures, then every player summary and gameweek live payload.
+   *
+   * Live data is fetched for every gameweek whose deadline has passed, according to the
+   * `GameweekCalendar`. By default the run is incremental: a player summary is only re-fetched when the
+   * player's bootstrap `elements` entry changed since the last successful fetch, and
+   * gameweeks that were already stored after being finished and data-checked are skipped.
+   * Pass `{ full: true }` to re-fetch everything.
+   */
+  async fetchAllData(
+    options: CollectionOptions = {}
+  ): Promise<CollectionSummary> {
+    const full = options.full ?? false;
     await this.fetchAndStoreBootstrapStatic();
     await this.fetchAndStoreFixtures();
 
-    const db = this.mongoClient.db();
-
-    const players = await db.collection("players").find({}).toArray();
+    const season = await this.currentSeason();
 
+    const players = await this.storage.collection("players").find({ season });
+    const playerStates = full
+      ? new Map()
+      : await this.fetchState.load(season, "player_summary");
+    const hashes = new Map<number, string>();
     for (const player of players) {
-      await this.fetchAndStorePlayerSummary(player.id);
+      const hash = elementHash(player);
+      const state = playerStates.get(
+        FetchStateStore.resource("player_summary", player.id)
+      );
+      if (state?.contentHash !== hash) {
+        hashes.set(player.id, hash);
+      }
+    }
+
+    const playerIds = [...hashes.keys()];
+    const failedPlayerIds = await this.fetchPlayerSummaries(playerIds);
+    const failed = new Set(failedPlayerIds);
+    for (const [playerId, hash] of hashes) {
+      if (!failed.has(playerId)) {
+        await this.fetchState.record(season, "player_summary", playerId, hash);
+      }
     }
 
-    const totalGameweeks = 38;
-    for (let gw = 1; gw <= totalGameweeks; gw++) {
-      await this.fetchAndStoreGameweekLive(gw);
+    const calendar = await GameweekCalendar.load(this.storage, season);
+    const liveStates = full
+      ? new Map()
+      : await this.fetchState.load(season, "gameweek_live");
+
+    const failedGameweeks: number[] = [];
+    let gameweeksSkipped = 0;
+    for (const gw of calendar.startedGameweeks()) {
+      if (liveStates.get(FetchStateStore.resource("gameweek_live", gw))?.finished) {
+        gameweeksSkipped++;
+        continue;
+      }
+      if (!(await this.fetchAndStoreGameweekLive(gw, calendar.isFinal(gw)))) {
+        failedGameweeks.push(gw);
+      }
+    }
+
+    const summary: CollectionSummary = {
+      playersFetched: playerIds.length - failedPlayerIds.length,
+      playersSkipped: players.length - playerIds.length,
+      failedPlayerIds,
+      gameweeksSkipped,
+      failedGameweeks,
+    };
+    this.logSummary(summary, players.length);
+    return summary;
+  }
+
+  private logSummary(summary: CollectionSummary, totalPlayers: number) {
+    logger.info(
+      `Collection finished: ${summary.playersFetched}/${totalPlayers} player summaries stored, ${summary.playersSkipped} unchanged, ${summary.gameweeksSkipped} finished gameweeks skipped`
+    );
+    if (summary.failedPlayerIds.length > 0) {
+      logger.error(
+        `Failed player IDs (retry with fetchPlayerSummaries): ${summary.failedPlayerIds.join(", ")}`
+      );
+    }
+    if (summary.failedGameweeks.length > 0) {
+      logger.error(`Failed gameweeks: ${summary.failedGameweeks.join(", ")}`);
     }
   }
 }
@@ -1,12 +1,18 @@
-import { MongoClient, Db } from "mongodb";
+import { Storage } from "../storage/storage";
 import { logger } from "../utils/logger";
+import { GameweekCalendar } from "./gameweekCalendar";
+import { availabilityFactor } from "./availability";
+import { rollingStat } from "./rollingStats";
+import { getCurrentSeason, tagSeason } from "./season";
+import {
+  ElementFixture,
+  ElementHistory,
+  ElementHistoryPast,
+  FixtureStat,
+} from "../models/fplTypes";
 
 export class DataProcessor {
-  private db: Db;
-
-  constructor(private mongoClient: MongoClient) {
-    this.db = this.mongoClient.db();
-  }
+  constructor(private storage: Storage) {}
 
   async processData() {
     await this.processPlayerData();
@@ -16,42 +22,50 @@ export class DataProcessor {
 
   private async processPlayerData() {
     logger.info("Processing player data...");
-    const playerCollection = this.db.collection("player_summaries");
-    const processedPlayerCollection = this.db.collection("processed_players");
+    const playerCollection = this.storage.collection("player_summaries");
+    const processedPlayerCollection = this.storage.collection("processed_players");
 
-    const players = await playerCollection.find({}).toArray();
+    const season = await getCurrentSeason(this.storage);
+    const players = await playerCollection.find({ season });
+    const elements = await this.storage
+      .collection("players")
+      .find({ season });
+    const elementsById = new Map(elements.map((element) => [element.id, element]));
+    const calendar = await GameweekCalendar.load(this.storage, season);
+    const upcomingGameweeks = new Set(calendar.upcomingGameweeks(5));
 
     const processedPlayers = players.map((player) => {
-      const history = player.history || [];
-      const fixtures = player.fixtures || [];
-      const historyPast = player.history_past || [];
+      const element = elementsById.get(player.id);
+      const history: ElementHistory[] = player.history || [];
+      const fixtures: ElementFixture[] = player.fixtures || [];
+      const historyPast: ElementHistoryPast[] = player.history_past || [];
 
       // Calculate current season stats
       const totalPoints = history.reduce(
-        (sum: any, gw: { total_points: any }) => sum + (gw.total_points || 0),
+        (sum, gw) => sum + (gw.total_points || 0),
         0
       );
       const totalMinutes = history.reduce(
-        (sum: any, gw: { minutes: any }) => sum + (gw.minutes || 0),
+        (sum, gw) => sum + (gw.minutes || 0),
         0
       );
       const goalsScored = history.reduce(
-        (sum: any, gw: { goals_scored: any }) => sum + (gw.goals_scored || 0),
+        (sum, gw) => sum + (gw.goals_scored || 0),
         0
       );
       const assists = history.reduce(
-        (sum: any, gw: { assists: any }) => sum + (gw.assists || 0),
+        (sum, gw) => sum + (gw.assists || 0),
         0
       );
       const cleanSheets = history.reduce(
-        (sum: any, gw: { clean_sheets: any }) => sum + (gw.clean_sheets || 0),
+        (sum, gw) => sum + (gw.clean_sheets || 0),
         0
       );
       const goalsConceded = history.reduce(
-        (sum: any, gw: { goals_conceded: any }) =>
-          sum + (gw.goals_conceded || 0),
+        (sum, gw) => sum + (gw.goals_conceded || 0),
         0
       );
+      const saves = history.reduce((sum, gw) => sum + (gw.saves || 0), 0);
 
       // Calculate averages and rates
       const gamesPlayed = history.length;
@@ -61,61 +75,82 @@ export class DataProcessor {
       const assistsPerGame = gamesPlayed > 0 ? assists / gamesPlayed : 0;
 
       // Calculate form (average points over last 5 games)
-      const recentGames = history.slice(-5);
-      const recentPoints = recentGames.reduce(
-        (sum: any, gw: { total_points: any }) => sum + (gw.total_points || 0),
-        0
-      );
-      const form =
-        recentGames.length > 0 ? recentPoints / recentGames.length : 0;
+      const form = rollingStat(history, { stat: "points", window: 5 });
 
       // Calculate expected stats averages
       const xG =
-        history.reduce(
-          (sum: number, gw: { expected_goals: any }) =>
-            sum + parseFloat(gw.expected_goals || "0"),
-          0
-        ) / gamesPlayed;
+        gamesPlayed > 0
+          ? history.reduce(
+              (sum, gw) => sum + parseFloat(gw.expected_goals || "0"),
+              0
+            ) / gamesPlayed
+          : 0;
       const xA =
-        history.reduce(
-          (sum: number, gw: { expected_assists: any }) =>
-            sum + parseFloat(gw.expected_assists || "0"),
-          0
-        ) / gamesPlayed;
+        gamesPlayed > 0
+          ? history.reduce(
+              (sum, gw) => sum + parseFloat(gw.expected_assists || "0"),
+              0
+            ) / gamesPlayed
+          : 0;
       const xGI =
-        history.reduce(
-          (sum: number, gw: { expected_goal_involvements: any }) =>
-            sum + parseFloat(gw.expected_goal_involvements || "0"),
-          0
-        ) / gamesPlayed;
+        gamesPlayed > 0
+          ? history.reduce(
+              (sum, gw) => sum + parseFloat(gw.expected_goal_involvements || "0"),
+              0
+            ) / gamesPlayed
+          : 0;
 
-      // Analyze upcoming fixtures
-      const nextFiveFixtures = fixtures.slice(0, 5);
+      // Analyze fixtures in the next 5 gameweeks; blanks and doubles change the count
+      const upcomingFixtures =
+        upcomingGameweeks.size > 0
+          ? fixtures.filter(
+              (fixture) =>
+                fixture.event != null && upcomingGameweeks.has(fixture.event)
+            )
+          : fixtures.slice(0, 5);
       const upcomingDifficulty =
-        nextFiveFixtures.reduce(
-          (sum: any, fixture: { difficulty: any }) =>
-            sum + (fixture.difficulty || 0),
-          0
-        ) / 5;
+        upcomingFixtures.length > 0
+          ? upcomingFixtures.reduce(
+              (sum, fixture) => sum + (fixture.difficulty || 0),
+              0
+            ) / upcomingFixtures.length
+          : 0;
 
       // Past seasons performance
-      const lastSeason = historyPast[historyPast.length - 1] || {};
-      const seasonOnSeason = lastSeason.total_points
-        ? totalPoints /
-          gamesPlayed /
-          (lastSeason.total_points / (lastSeason.starts || 38))
-        : 1;
+      const lastSeason: Partial<ElementHistoryPast> =
+        historyPast[historyPast.length - 1] || {};
+      const seasonOnSeason =
+        lastSeason.total_points && gamesPlayed > 0
+          ? totalPoints /
+            gamesPlayed /
+            (lastSeason.total_points / (lastSeason.starts || 38))
+          : 1;
 
       return {
         id: player.id,
+        webName: element?.web_name,
+        team: element?.team,
+        elementType: element?.element_type,
+        status: element?.status,
+        news: element?.news,
+        newsAdded: element?.news_added,
+        chanceOfPlayingNextRound: element?.chance_of_playing_next_round,
+        chanceOfPlayingThisRound: element?.chance_of_playing_this_round,
+        availability: element
+          ? availabilityFactor({
+              status: element.status,
+              chanceOfPlayingNextRound: element.chance_of_playing_next_round,
+            })
+          : 1,
         totalPoints,
         averagePoints,
         form: form,
-        valueForm: player.value_form || 0,
-        valueSeason: player.value_season || 0,
-        pointsPerGame: player.points_per_game || 0,
-        selectedByPercent: player.selected_by_percent || 0,
-        now_cost: player.now_cost || 0,
+        // Element summaries carry no price or value fields; they come from bootstrap
+        valueForm: Number(element?.value_form) || 0,
+        valueSeason: Number(element?.value_season) || 0,
+        pointsPerGame: Number(element?.points_per_game) || 0,
+        selectedByPercent: Number(element?.selected_by_percent) || 0,
+        now_cost: element?.now_cost || 0,
         minutesPlayed: totalMinutes,
         minutesPerGame,
         goalsScored,
@@ -124,40 +159,41 @@ export class DataProcessor {
         assistsPerGame,
         cleanSheets,
         goalsConceded,
+        saves,
         xG,
         xA,
         xGI,
         upcomingFixtureDifficulty: upcomingDifficulty,
+        upcomingFixtureCount: upcomingFixtures.length,
         seasonOnSeasonPerformance: seasonOnSeason,
         lastSeasonPoints: lastSeason.total_points || 0,
         history: history,
+        historyPast: historyPast,
         fixtures: fixtures,
       };
     });
 
-    await processedPlayerCollection.deleteMany({});
-    await processedPlayerCollection.insertMany(processedPlayers);
+    await processedPlayerCollection.deleteMany({ season });
+    await processedPlayerCollection.insertMany(tagSeason(processedPlayers, season));
     logger.info("Player data processed and stored.");
   }
 
   private async processFixtureData() {
     logger.info("Processing fixture data...");
-    const fixtureCollection = this.db.collection("fixtures");
-    const processedFixtureCollection = this.db.collection("processed_fixtures");
+    const fixtureCollection = this.storage.collection("fixtures");
+    const processedFixtureCollection = this.storage.collection("processed_fixtures");
 
-    const fixtures = await fixtureCollection.find({}).toArray();
+    const season = await getCurrentSeason(this.storage);
+    const fixtures = await fixtureCollection.find({ season });
 
     const processedFixtures = fixtures.map((fixture) => {
-      const stats = fixture.stats || [];
+      const stats: FixtureStat[] = fixture.stats || [];
 
       // Helper function to sum up values for a specific stat
       const sumStat = (identifier: string, team: "h" | "a") =>
         stats
-          .find((s: { identifier: string }) => s.identifier === identifier)
-          ?.[team]?.reduce(
-            (sum: any, item: { value: any }) => sum + item.value,
-            0
-          ) || 0;
+          .find((s) => s.identifier === identifier)
+          ?.[team]?.reduce((sum, item) => sum + item.value, 0) || 0;
 
       // Extract relevant statistics
       const homeGoals = sumStat("goals_scored", "h");
@@ -218,17 +254,20 @@ export class DataProcessor {
       };
     });
 
-    await processedFixtureCollection.deleteMany({});
-    await processedFixtureCollection.insertMany(processedFixtures);
+    await processedFixtureCollection.deleteMany({ season });
+    await processedFixtureCollection.insertMany(
+      tagSeason(processedFixtures, season)
+    );
     logger.info("Fixture data processed and stored.");
   }
 
   private async processTeamData() {
     logger.info("Processing team data...");
-    const teamCollection = this.db.collection("teams");
-    const processedTeamCollection = this.db.collection("processed_teams");
+    const teamCollection = this.storage.collection("teams");
+    const processedTeamCollection = this.storage.collection("processed_teams");
 
-    const teams = await teamCollection.find({}).toArray();
+    const season = await getCurrentSeason(this.storage);
+    const teams = await teamCollection.find({ season });
 
     const processedTeams = teams.map((team) => {
       // Calculate average strengths
@@ -277,8 +316,8 @@ export class DataProcessor {
       };
     });
 
-    await processedTeamCollection.deleteMany({});
-    await processedTeamCollection.insertMany(processedTeams);
+    await processedTeamCollection.deleteMany({ season });
+    await processedTeamCollection.insertMany(tagSeason(processedTeams, season));
     logger.info("Team data processed and stored.");
   }
 }
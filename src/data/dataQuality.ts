@@ -0,0 +1,411 @@
+import { Storage } from "../storage/storage";
+import { CollectionName } from "../models/documents";
+import { logger } from "../utils/logger";
+import { QualityThresholds, qualityConfig } from "../config/quality";
+import { GameweekCalendar } from "./gameweekCalendar";
+import { getCurrentSeason } from "./season";
+
+export type QualityStage = "collection" | "features";
+
+/**
+ * Value counts of one numeric field. `missing` counts null and undefined values.
+ */
+export interface FieldQuality {
+  collection: string;
+  field: string;
+  count: number;
+  missing: number;
+  nan: number;
+  infinite: number;
+  outOfRange: number;
+}
+
+/**
+ * How many of the expected documents exist. Only enforced checks count towards the
+ * missing-rate threshold; the others are informational.
+ */
+export interface CoverageCheck {
+  name: string;
+  expected: number;
+  found: number;
+  missing: number[];
+  enforced: boolean;
+}
+
+/**
+ * A reference from one collection to a document that does not exist in another.
+ */
+export interface IntegrityIssue {
+  collection: string;
+  field: string;
+  id: number;
+  value: unknown;
+  references: string;
+}
+
+export interface QualityReport {
+  stage: QualityStage;
+  season: string;
+  generatedAt: Date;
+  coverage: CoverageCheck[];
+  fields: FieldQuality[];
+  integrity: IntegrityIssue[];
+  /** The thresholds that were exceeded, in words. */
+  violations: string[];
+}
+
+export class DataQualityError extends Error {
+  constructor(public report: QualityReport) {
+    super(
+      `Data quality check after ${report.stage} failed: ${report.violations.join("; ")}`
+    );
+    this.name = "DataQualityError";
+  }
+}
+
+interface RangeRule {
+  min: number;
+  max: number;
+}
+
+interface CollectionRules {
+  /** Numeric fields checked even when no document has them. */
+  required: string[];
+  /**
+   * Fields FPL leaves null on purpose, e.g. the score of an unplayed fixture. Their nulls
+   * count as neither missing nor invalid; NaN, Infinity and out-of-range values still do.
+   */
+  nullable?: string[];
+  ranges: Record<string, RangeRule>;
+}
+
+const teamStrength = { min: 500, max: 1500 };
+
+/**
+ * Expected fields and plausible value ranges of the collections that are checked.
+ * Prices are in tenths of a million.
+ */
+const RULES: Partial<Record<CollectionName, CollectionRules>> = {
+  players: {
+    required: ["now_cost", "team", "element_type"],
+    // Null while FPL has no news on the player
+    nullable: ["chance_of_playing_next_round", "chance_of_playing_this_round"],
+    ranges: {
+      now_cost: { min: 35, max: 200 },
+      element_type: { min: 1, max: 5 },
+      chance_of_playing_next_round: { min: 0, max: 100 },
+      chance_of_playing_this_round: { min: 0, max: 100 },
+    },
+  },
+  teams: {
+    required: [
+      "strength",
+      "strength_overall_home",
+      "strength_overall_away",
+      "strength_attack_home",
+      "strength_attack_away",
+      "strength_defence_home",
+      "strength_defence_away",
+    ],
+    ranges: {
+      strength: { min: 1, max: 5 },
+      strength_overall_home: teamStrength,
+      strength_overall_away: teamStrength,
+      strength_attack_home: teamStrength,
+      strength_attack_away: teamStrength,
+      strength_defence_home: teamStrength,
+      strength_defence_away: teamStrength,
+    },
+  },
+  fixtures: {
+    required: ["team_h_difficulty", "team_a_difficulty"],
+    // Null until the fixture kicks off, and the gameweek while it is unscheduled
+    nullable: ["team_h_score", "team_a_score", "event"],
+    ranges: {
+      team_h_difficulty: { min: 1, max: 5 },
+      team_a_difficulty: { min: 1, max: 5 },
+      team_h_score: { min: 0, max: 15 },
+      team_a_score: { min: 0, max: 15 },
+    },
+  },
+  player_features: {
+    required: ["recentFormScore", "pricePerformanceRatio", "consistencyScore"],
+    ranges: {
+      minutesPlayedPercentage: { min: 0, max: 100 },
+      savePercentage: { min: 0, max: 1 },
+      upcomingFixtureDifficulty: { min: 0, max: 5 },
+    },
+  },
+  fixture_features: {
+    required: ["homeTeamStrength", "awayTeamStrength", "expectedGoals"],
+    ranges: {
+      difficultyRating: { min: 1, max: 5 },
+      expectedCleanSheetHome: { min: 0, max: 1 },
+      expectedCleanSheetAway: { min: 0, max: 1 },
+    },
+  },
+};
+
+/**
+ * Counts null, NaN, Infinity and out-of-range values of every numeric field: those any
+ * document holds a number in, plus the collection's required fields. Nulls in the
+ * collection's nullable fields are not counted.
+ */
+export function analyzeFields(collection: CollectionName, documents: object[]) {
+  const rules = RULES[collection] ?? { required: [], ranges: {} };
+  const rows = documents.map((document) => new Map<string, unknown>(Object.entries(document)));
+  const nullable = new Set(rules.nullable);
+  const fields = new Set(rules.required);
+  for (const row of rows) {
+    for (const [field, value] of row) {
+      if (typeof value === "number" && field !== "_id") fields.add(field);
+    }
+  }
+
+  return [...fields].sort().map((field): FieldQuality => {
+    const range = rules.ranges[field];
+    const quality = {
+      collection,
+      field,
+      count: documents.length,
+      missing: 0,
+      nan: 0,
+      infinite: 0,
+      outOfRange: 0,
+    };
+    for (const row of rows) {
+      const value = row.get(field);
+      if (value === null && nullable.has(field)) continue;
+      if (value === null || value === undefined) quality.missing++;
+      else if (typeof value !== "number") continue;
+      else if (Number.isNaN(value)) quality.nan++;
+      else if (!Number.isFinite(value)) quality.infinite++;
+      else if (range && (value < range.min || value > range.max)) quality.outOfRange++;
+    }
+    return quality;
+  });
+}
+
+/**
+ * Lists documents whose `field` refers to an id that is not in `validIds`. Null values
+ * are not references and are ignored.
+ */
+export function findDanglingReferences<T extends { id: number }>(
+  collection: string,
+  documents: T[],
+  field: keyof T & string,
+  validIds: Set<unknown>,
+  references: string
+): IntegrityIssue[] {
+  return documents
+    .filter((document) => document[field] != null && !validIds.has(document[field]))
+    .map((document) => ({
+      collection,
+      field,
+      id: document.id,
+      value: document[field],
+      references,
+    }));
+}
+
+export function checkCoverage(
+  name: string,
+  expectedIds: number[],
+  foundIds: Set<number>,
+  enforced = true
+): CoverageCheck {
+  const missing = expectedIds.filter((id) => !foundIds.has(id));
+  return {
+    name,
+    expected: expectedIds.length,
+    found: expectedIds.length - missing.length,
+    missing,
+    enforced,
+  };
+}
+
+/**
+ * Compares a report with the thresholds and describes every one that is exceeded.
+ */
+export function findViolations(
+  report: Pick<QualityReport, "coverage" | "fields" | "integrity">,
+  thresholds: QualityThresholds
+): string[] {
+  const violations: string[] = [];
+  for (const check of report.coverage) {
+    const rate = check.expected > 0 ? check.missing.length / check.expected : 0;
+    if (check.enforced && rate > thresholds.maxMissingRate) {
+      violations.push(
+        `${check.name}: ${check.missing.length} of ${check.expected} missing`
+      );
+    }
+  }
+  for (const field of report.fields) {
+    if (field.count === 0) continue;
+    const invalid = field.missing + field.nan + field.infinite;
+    if (invalid / field.count > thresholds.maxInvalidRate) {
+      violations.push(
+        `${field.collection}.${field.field}: ${invalid} of ${field.count} null, NaN or Infinity`
+      );
+    }
+    if (field.outOfRange / field.count > thresholds.maxOutOfRangeRate) {
+      violations.push(
+        `${field.collection}.${field.field}: ${field.outOfRange} of ${field.count} out of range`
+      );
+    }
+  }
+  if (report.integrity.length > thresholds.maxIntegrityIssues) {
+    violations.push(`${report.integrity.length} dangling references`);
+  }
+  return violations;
+}
+
+const ids = (documents: { id: number }[]) =>
+  new Set<unknown>(documents.map((document) => document.id));
+
+/**
+ * Checks the stored data after collection and after feature engineering: coverage of
+ * the expected documents, null/NaN/Infinity and out-of-range counts per numeric field,
+ * and references between collections. Each report is stored in `data_quality_reports`;
+ * when `failOnThresholds` is set, exceeding a threshold throws a `DataQualityError`.
+ */
+export class DataQualityValidator {
+  constructor(
+    private storage: Storage,
+    private thresholds: QualityThresholds = qualityConfig
+  ) {}
+
+  async checkCollection(season?: string): Promise<QualityReport> {
+    const selected = season ?? (await getCurrentSeason(this.storage));
+    const filter = { season: selected };
+    const players = await this.storage.collection("players").find(filter);
+    const teams = await this.storage.collection("teams").find(filter);
+    const fixtures = await this.storage.collection("fixtures").find(filter);
+    const gameweeks = await this.storage.collection("gameweeks").find(filter);
+    const elementTypes = await this.storage.collection("elements_types").find(filter);
+    const summaries = await this.storage.collection("player_summaries").find(filter);
+    const live = await this.storage.collection("gameweek_live").find(filter);
+    const calendar = new GameweekCalendar(gameweeks, fixtures);
+
+    const playerIds = players.map((player) => player.id);
+    const summaryIds = new Set(summaries.map((summary) => summary.id));
+    const withHistory = new Set(
+      summaries
+        .filter((summary) => (summary.history ?? []).length > 0)
+        .map((summary) => summary.id)
+    );
+    const teamIds = ids(teams);
+
+    return this.finish({
+      stage: "collection",
+      season: selected,
+      generatedAt: new Date(),
+      coverage: [
+        checkCoverage("player_summaries", playerIds, summaryIds),
+        checkCoverage(
+          "gameweek_live",
+          calendar.startedGameweeks(),
+          new Set(live.map((gameweek) => gameweek.id))
+        ),
+        // Players yet to feature this season legitimately have no history
+        checkCoverage("player_summaries.history", [...summaryIds], withHistory, false),
+      ],
+      fields: [
+        ...analyzeFields("players", players),
+        ...analyzeFields("teams", teams),
+        ...analyzeFields("fixtures", fixtures),
+      ],
+      integrity: [
+        ...findDanglingReferences("players", players, "team", teamIds, "teams"),
+        ...findDanglingReferences(
+          "players",
+          players,
+          "element_type",
+          ids(elementTypes),
+          "elements_types"
+        ),
+        ...findDanglingReferences("fixtures", fixtures, "team_h", teamIds, "teams"),
+        ...findDanglingReferences("fixtures", fixtures, "team_a", teamIds, "teams"),
+        ...findDanglingReferences("fixtures", fixtures, "event", ids(gameweeks), "gameweeks"),
+        ...findDanglingReferences(
+          "player_summaries",
+          summaries,
+          "id",
+          new Set(playerIds),
+          "players"
+        ),
+      ],
+    });
+  }
+
+  async checkFeatures(season?: string): Promise<QualityReport> {
+    const selected = season ?? (await getCurrentSeason(this.storage));
+    const filter = { season: selected };
+    const processedPlayers = await this.storage.collection("processed_players").find(filter);
+    const fixtures = await this.storage.collection("fixtures").find(filter);
+    const playerFeatures = await this.storage.collection("player_features").find(filter);
+    const fixtureFeatures = await this.storage.collection("fixture_features").find(filter);
+
+    return this.finish({
+      stage: "features",
+      season: selected,
+      generatedAt: new Date(),
+      coverage: [
+        checkCoverage(
+          "player_features",
+          processedPlayers.map((player) => player.id),
+          new Set(playerFeatures.map((features) => features.id))
+        ),
+        checkCoverage(
+          "fixture_features",
+          fixtures.map((fixture) => fixture.id),
+          new Set(fixtureFeatures.map((features) => features.id))
+        ),
+      ],
+      fields: [
+        ...analyzeFields("player_features", playerFeatures),
+        ...analyzeFields("fixture_features", fixtureFeatures),
+      ],
+      integrity: [
+        ...findDanglingReferences(
+          "player_features",
+          playerFeatures,
+          "id",
+          ids(processedPlayers),
+          "processed_players"
+        ),
+        ...findDanglingReferences(
+          "fixture_features",
+          fixtureFeatures,
+          "id",
+          ids(fixtures),
+          "fixtures"
+        ),
+      ],
+    });
+  }
+
+  private async finish(
+    report: Omit<QualityReport, "violations">
+  ): Promise<QualityReport> {
+    const full = { ...report, violations: findViolations(report, this.thresholds) };
+    await this.storage.collection("data_quality_reports").insertOne(full);
+
+    const problems = full.fields.filter(
+      (field) => field.missing + field.nan + field.infinite + field.outOfRange > 0
+    );
+    logger.info(
+      `Data quality after ${full.stage}: ${problems.length} fields with null, NaN, Infinity or out-of-range values, ${full.integrity.length} dangling references`
+    );
+    for (const check of full.coverage) {
+      logger.info(`  ${check.name}: ${check.found}/${check.expected} present`);
+    }
+    if (full.violations.length > 0) {
+      logger.error(`Data quality thresholds exceeded: ${full.violations.join("; ")}`);
+      if (this.thresholds.failOnThresholds) {
+        throw new DataQualityError(full);
+      }
+    }
+    return full;
+  }
+}
@@ -0,0 +1,262 @@
+import { ElementHistory, ElementType } from "../models/fplTypes";
+import { scoringConfig } from "../config/scoring";
+import { ScorelineForecast } from "./scorelineModel";
+
+/**
+ * The points a position scores for each event of a match.
+ */
+export interface ScoringRules {
+  /** For playing at all. */
+  appearance: number;
+  /** On top of `appearance`, for playing 60 minutes or more. */
+  sixtyMinutes: number;
+  goal: number;
+  assist: number;
+  /** For a clean sheet, which needs 60 minutes or more. */
+  cleanSheet: number;
+  /** For every `goalsConcededPer` goals conceded while on the pitch. */
+  goalsConceded: number;
+  goalsConcededPer: number;
+  /** For every `savesPer` saves. */
+  saves: number;
+  savesPer: number;
+  yellowCard: number;
+  redCard: number;
+}
+
+/**
+ * What is expected of a player in one fixture. Goals, assists, cards and bonus are
+ * expected counts that already allow for the chance the player does not play; goals
+ * conceded and saves are means for when the player does, since they score in steps.
+ */
+export interface PointsProbabilities {
+  /** Chance the player plays at all. */
+  appearance: number;
+  /** Chance the player plays 60 minutes or more. */
+  sixtyMinutes: number;
+  goals: number;
+  assists: number;
+  /** Chance the player's team keeps a clean sheet. */
+  cleanSheet: number;
+  goalsConceded: number;
+  saves: number;
+  yellowCards: number;
+  redCards: number;
+  bonus: number;
+}
+
+/**
+ * Expected points of a player in one fixture, by the scoring rule they come from.
+ */
+export interface ExpectedPointsBreakdown {
+  appearance: number;
+  goals: number;
+  assists: number;
+  cleanSheet: number;
+  goalsConceded: number;
+  saves: number;
+  cards: number;
+  bonus: number;
+  total: number;
+}
+
+/**
+ * The goals a player's team is expected to score and concede in a fixture, e.g. from
+ * the scoreline model.
+ */
+export interface FixtureOutlook {
+  teamGoals: number;
+  opponentGoals: number;
+  cleanSheet: number;
+}
+
+/**
+ * One side's view of a scoreline forecast.
+ */
+export const fixtureOutlook = (
+  forecast: Pick<
+    ScorelineForecast,
+    "expectedHomeGoals" | "expectedAwayGoals" | "cleanSheetHome" | "cleanSheetAway"
+  >,
+  isHome: boolean
+): FixtureOutlook =>
+  isHome
+    ? {
+        teamGoals: forecast.expectedHomeGoals,
+        opponentGoals: forecast.expectedAwayGoals,
+        cleanSheet: forecast.cleanSheetHome,
+      }
+    : {
+        teamGoals: forecast.expectedAwayGoals,
+        opponentGoals: forecast.expectedHomeGoals,
+        cleanSheet: forecast.cleanSheetAway,
+      };
+
+/** How many of a player's latest games decide how likely they are to play. */
+const RECENT_GAMES = 5;
+
+/** Counts beyond this are too unlikely to matter to a stepwise expectation. */
+const MAX_COUNT = 20;
+
+/**
+ * Expected value of `floor(X / per)` for a Poisson `X` with the given mean, i.e. the
+ * expected number of times a stepwise rule such as "every 3 saves" pays out.
+ */
+export function expectedSteps(mean: number, per: number): number {
+  if (mean <= 0 || per <= 0) return 0;
+  let probability = Math.exp(-mean);
+  let steps = 0;
+  for (let count = 1; count <= MAX_COUNT; count++) {
+    probability *= mean / count;
+    steps += Math.floor(count / per) * probability;
+  }
+  return steps;
+}
+
+/**
+ * The scoring rules of every position, looked up in `rules` by the position's
+ * `singular_name_short`. Positions without rules are left out.
+ */
+export function scoringRules(
+  elementTypes: Pick<ElementType, "id" | "singular_name_short">[],
+  rules: Record<string, ScoringRules> = scoringConfig
+): Map<number, ScoringRules> {
+  return new Map(
+    elementTypes
+      .filter((elementType) => rules[elementType.singular_name_short])
+      .map((elementType) => [elementType.id, rules[elementType.singular_name_short]])
+  );
+}
+
+/**
+ * Combines a player's probabilities with their position's scoring rules.
+ */
+export function expectedPoints(
+  probabilities: PointsProbabilities,
+  rules: ScoringRules
+): ExpectedPointsBreakdown {
+  const breakdown = {
+    appearance:
+      probabilities.appearance * rules.appearance +
+      probabilities.sixtyMinutes * rules.sixtyMinutes,
+    goals: probabilities.goals * rules.goal,
+    assists: probabilities.assists * rules.assist,
+    cleanSheet: probabilities.sixtyMinutes * probabilities.cleanSheet * rules.cleanSheet,
+    goalsConceded:
+      probabilities.appearance *
+      rules.goalsConceded *
+      expectedSteps(probabilities.goalsConceded, rules.goalsConcededPer),
+    saves:
+      probabilities.appearance *
+      rules.saves *
+      expectedSteps(probabilities.saves, rules.savesPer),
+    cards:
+      probabilities.yellowCards * rules.yellowCard +
+      probabilities.redCards * rules.redCard,
+    bonus: probabilities.bonus,
+  };
+  return {
+    ...breakdown,
+    total: Object.values(breakdown).reduce((sum, value) => sum + value, 0),
+  };
+}
+
+const number = (value: string | number | null | undefined) => Number(value) || 0;
+
+/**
+ * A player's probabilities in a fixture from their history: how often they have played
+ * lately, their per-90 rates this season, and the fixture's outlook against what their
+ * team usually scores and concedes. Expected goals and assists are used when the
+ * history has them. Returns undefined for a player without history.
+ *
+ * @param history - The player's games before the fixture, oldest first.
+ */
+export function pointsProbabilities(
+  history: ElementHistory[],
+  fixture: FixtureOutlook
+): PointsProbabilities | undefined {
+  if (history.length === 0) return undefined;
+
+  const recent = history.slice(-RECENT_GAMES);
+  const played = recent.filter((game) => game.minutes > 0);
+  const appearance = played.length / recent.length;
+  const sixtyMinutes = recent.filter((game) => game.minutes >= 60).length / recent.length;
+  const minutesWhenPlaying =
+    played.reduce((sum, game) => sum + game.minutes, 0) / (played.length || 1);
+
+  const minutes = history.reduce((sum, game) => sum + game.minutes, 0);
+  const per90 = (total: (game: ElementHistory) => number) =>
+    minutes > 0 ? (history.reduce((sum, game) => sum + total(game), 0) / minutes) * 90 : 0;
+  const hasExpected = history.some((game) => game.expected_goals !== undefined);
+
+  // How this fixture compares with the team's games so far
+  const teamGoals = (game: ElementHistory) =>
+    number(game.was_home ? game.team_h_score : game.team_a_score);
+  const opponentGoals = (game: ElementHistory) =>
+    number(game.was_home ? game.team_a_score : game.team_h_score);
+  const ratio = (expected: number, average: number) =>
+    average > 0 ? expected / average : 1;
+  const attack = ratio(
+    fixture.teamGoals,
+    history.reduce((sum, game) => sum + teamGoals(game), 0) / history.length
+  );
+  const defence = ratio(
+    fixture.opponentGoals,
+    history.reduce((sum, game) => sum + opponentGoals(game), 0) / history.length
+  );
+
+  // Expected matches' worth of minutes, allowing for the chance the player does not play
+  const matches = (appearance * minutesWhenPlaying) / 90;
+  return {
+    appearance,
+    sixtyMinutes,
+    goals:
+      per90((game) => (hasExpected ? number(game.expected_goals) : game.goals_scored)) *
+      matches *
+      attack,
+    assists:
+      per90((game) => (hasExpected ? number(game.expected_assists) : game.assists)) *
+      matches *
+      attack,
+    cleanSheet: fixture.cleanSheet,
+    goalsConceded: (fixture.opponentGoals * minutesWhenPlaying) / 90,
+    saves: (per90((game) => game.saves) * minutesWhenPlaying * defence) / 90,
+    yellowCards: per90((game) => game.yellow_cards) * matches,
+    redCards: per90((game) => game.red_cards) * matches,
+    bonus:
+      appearance *
+      (history.reduce((sum, game) => sum + game.bonus, 0) /
+        (history.filter((game) => game.minutes > 0).length || 1)),
+  };
+}
+
+/**
+ * A player's expected points in a fixture, or undefined when they have no history or
+ * their position has no scoring rules.
+ */
+export function projectPoints(
+  history: ElementHistory[],
+  fixture: FixtureOutlook,
+  rules: ScoringRules | undefined
+): ExpectedPointsBreakdown | undefined {
+  const probabilities = pointsProbabilities(history, fixture);
+  return probabilities && rules ? expectedPoints(probabilities, rules) : undefined;
+}
+
+/**
+ * A breakdown as flat features: `expectedPoints` for the total and
+ * `expectedPointsGoals`, `expectedPointsCleanSheet` and so on for its parts.
+ */
+export function expectedPointsFeatures(breakdown: ExpectedPointsBreakdown | undefined) {
+  if (!breakdown) return { expectedPoints: null };
+  const { total, ...parts } = breakdown;
+  return {
+    expectedPoints: total,
+    ...Object.fromEntries(
+      Object.entries(parts).map(([part, value]) => [
+        `expectedPoints${part[0].toUpperCase()}${part.slice(1)}`,
+        value,
+      ])
+    ),
+  };
+}
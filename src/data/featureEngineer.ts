@@ -1,37 +1,87 @@
-import { MongoClient, Db } from "mongodb";
+import { Storage } from "../storage/storage";
 import { logger } from "../utils/logger";
+import { ElementFixture, ElementHistory } from "../models/fplTypes";
+import { FixtureFeatures, ProcessedPlayer } from "../models/documents";
+import { GameweekCalendar } from "./gameweekCalendar";
+import { getCurrentSeason, tagSeason } from "./season";
+import { externalFeatures, loadExternalPlayerData } from "./playerDataImport";
+import { RollingFeatureSpec, rollingFeatures, rollingStat } from "./rollingStats";
+import { formTrendConfig, rollingFeatureConfig } from "../config/rollingFeatures";
+import { playerFixtureFeatures, strengthTiers } from "./opponentFeatures";
+import { careerFeatures, positionalPriors } from "./careerFeatures";
+import { TeamRatings, ratingFeatures } from "./teamRatings";
+import { ScorelineModels, forecastScoreline } from "./scorelineModel";
+import { derbyConfig } from "../config/derbies";
+import {
+  expectedPointsFeatures,
+  fixtureOutlook,
+  projectPoints,
+  scoringRules,
+} from "./expectedPoints";
+import {
+  BonusForecast,
+  BonusSimulator,
+  BpsProfile,
+  BpsRules,
+  bpsProfile,
+  bpsRules,
+} from "./bonusSimulator";
+import { seededRandom } from "../utils/random";
+import {
+  fitMinutesModel,
+  minutesRows,
+  positionPlaces,
+  positionRivals,
+  predictMinutes,
+  upcomingMinutesFeatures,
+} from "./minutesModel";
 
 export class FeatureEngineer {
-  private db: Db;
-  constructor(private mongoClient: MongoClient) {
-    this.db = this.mongoClient.db();
-  }
+  /**
+   * @param rollingFeatureSpecs - The rolling form features to add to every player.
+   * @param formTrendSpec - The rolling feature reported as each player's `formTrend`.
+   */
+  constructor(
+    private storage: Storage,
+    private rollingFeatureSpecs: RollingFeatureSpec[] = rollingFeatureConfig,
+    private formTrendSpec: RollingFeatureSpec = formTrendConfig
+  ) {}
   async engineerFeatures() {
     await this.createPlayerFeatures();
+    await new TeamRatings(this.storage).update();
     await this.createFixtureFeatures();
+    await this.createPlayerFixtureFeatures();
   }
 
   private async createPlayerFeatures() {
     logger.info("Engineering player features...");
-    const processedPlayerCollection = this.db.collection("processed_players");
-    const featureCollection = this.db.collection("player_features");
-    const players = await processedPlayerCollection.find({}).toArray();
+    const processedPlayerCollection = this.storage.collection("processed_players");
+    const featureCollection = this.storage.collection("player_features");
+    const season = await getCurrentSeason(this.storage);
+    const players = await processedPlayerCollection.find({ season });
+    const calendar = await GameweekCalendar.load(this.storage, season);
+    const upcomingGameweeks = calendar.upcomingGameweeks(5);
+    const gameweeksPlayed = calendar.finishedGameweeks().length || 1;
+    const external = await loadExternalPlayerData(this.storage, season);
+    const priors = positionalPriors(players);
 
     const playerFeatures = players.map((player) => {
-      const lastSeason = player.history.filter(
-        (game: { round: number }) => game.round <= 38
-      );
-      const currentSeason = player.history.filter(
-        (game: { round: number }) => game.round > 38
+      const career = careerFeatures(
+        player.historyPast ?? [],
+        player.history,
+        player.elementType !== undefined ? priors.get(player.elementType) : undefined
       );
 
       return {
         id: player.id,
+        elementType: player.elementType,
+        team: player.team,
         recentFormScore: this.calculateRecentForm(player.history),
         pricePerformanceRatio: player.totalPoints / (player.now_cost || 1),
         consistencyScore: this.calculateConsistency(player.history),
         upcomingFixtureDifficulty: this.calculateUpcomingFixtureDifficulty(
-          player.fixtures
+          player.fixtures,
+          upcomingGameweeks
         ),
 
         // New features
@@ -41,13 +91,10 @@ export class FeatureEngineer {
           (player.minutesPlayed / 90 || 1),
         xGOverPerformance: player.goalsScored - player.xG,
         xAOverPerformance: player.assists - player.xA,
-        minutesPlayedPercentage: (player.minutesPlayed / (38 * 90)) * 100,
+        minutesPlayedPercentage:
+          (player.minutesPlayed / (gameweeksPlayed * 90)) * 100,
         homeAwayPerformanceDelta: this.calculateHomeAwayDelta(player.history),
-        formTrend: this.calculateFormTrend(currentSeason),
-        seasonOnSeasonImprovement: this.calculateSeasonImprovement(
-          lastSeason,
-          currentSeason
-        ),
+        formTrend: rollingStat(player.history, this.formTrendSpec),
         injuryProneness: this.calculateInjuryProneness(player.history),
         bigChanceInvolvement:
           (player.xG + player.xA) / (player.minutesPlayed / 90 || 1),
@@ -68,37 +115,67 @@ export class FeatureEngineer {
           player.history.reduce(
             (sum: any, game: { bonus: any }) => sum + game.bonus,
             0
-          ) / player.history.length,
+          ) / (player.history.length || 1),
+
+        ...rollingFeatures(player.history, this.rollingFeatureSpecs),
+
+        // Past seasons, shrunk towards the position's average for thin records
+        ...career,
+
+        // Columns imported from outside the FPL API, e.g. penalty order or third-party xG
+        ...externalFeatures(external.get(player.id)),
       };
     });
 
-    await featureCollection.deleteMany({});
-    await featureCollection.insertMany(playerFeatures);
+    await featureCollection.deleteMany({ season });
+    await featureCollection.insertMany(tagSeason(playerFeatures, season));
     logger.info("Player features engineered and stored.");
   }
 
   private async createFixtureFeatures() {
     logger.info("Engineering fixture features...");
-    const processedFixtureCollection = this.db.collection("processed_fixtures");
-    const processedTeamCollection = this.db.collection("processed_teams");
-    const featureCollection = this.db.collection("fixture_features");
-
-    const fixtures = await processedFixtureCollection.find({}).toArray();
-    const teams = await processedTeamCollection.find({}).toArray();
+    const processedFixtureCollection = this.storage.collection("processed_fixtures");
+    const processedTeamCollection = this.storage.collection("processed_teams");
+    const featureCollection = this.storage.collection("fixture_features");
+
+    const season = await getCurrentSeason(this.storage);
+    const fixtures = await processedFixtureCollection.find({ season });
+    const teams = await processedTeamCollection.find({ season });
+    const ratings = await new TeamRatings(this.storage).history(season);
+    const scorelines = new ScorelineModels(
+      fixtures
+        .filter((fixture) => fixture.finished)
+        .map((fixture) => ({
+          home: fixture.teamH,
+          away: fixture.teamA,
+          homeGoals: fixture.teamHScore ?? fixture.homeGoals ?? 0,
+          awayGoals: fixture.teamAScore ?? fixture.awayGoals ?? 0,
+          event: fixture.event,
+        })),
+      teams.map((team) => team.id)
+    );
 
     const fixtureFeatures = await Promise.all(
       fixtures.map(async (fixture) => {
         const homeTeam = teams.find((team) => team.id === fixture.teamH);
         const awayTeam = teams.find((team) => team.id === fixture.teamA);
+        // Fitted on the gameweeks before the fixture's, like the ratings below
+        const forecast = forecastScoreline(
+          scorelines.before(fixture.event),
+          fixture.teamH,
+          fixture.teamA
+        );
 
         return {
           id: fixture.id,
           event: fixture.event,
+          teamH: fixture.teamH,
+          teamA: fixture.teamA,
           homeTeamStrength: homeTeam?.strength || 0,
           awayTeamStrength: awayTeam?.strength || 0,
           strengthDifference:
             (homeTeam?.strength || 0) - (awayTeam?.strength || 0),
-          expectedGoals: this.calculateExpectedGoals(homeTeam, awayTeam),
+          expectedGoals: forecast.expectedHomeGoals + forecast.expectedAwayGoals,
 
           // New features
           homeAttackStrength: homeTeam?.strengthAttackHome || 0,
@@ -111,14 +188,13 @@ export class FeatureEngineer {
           homeFactor: this.calculateHomeFactor(homeTeam),
           awayFactor: this.calculateAwayFactor(awayTeam),
 
-          expectedHomeGoals: this.calculateExpectedTeamGoals(
-            homeTeam?.strengthAttackHome || 0,
-            awayTeam?.strengthDefenceAway || 0
-          ),
-          expectedAwayGoals: this.calculateExpectedTeamGoals(
-            awayTeam?.strengthAttackAway || 0,
-            homeTeam?.strengthDefenceHome || 0
-          ),
+          expectedHomeGoals: forecast.expectedHomeGoals,
+          expectedAwayGoals: forecast.expectedAwayGoals,
+          homeWinProbability: forecast.homeWin,
+          drawProbability: forecast.draw,
+          awayWinProbability: forecast.awayWin,
+          mostLikelyScore: forecast.mostLikelyScore,
+          scorelineProbabilities: forecast.probabilities,
 
           homeFormFactor: homeTeam?.form || 0,
           awayFormFactor: awayTeam?.form || 0,
@@ -133,14 +209,8 @@ export class FeatureEngineer {
           difficultyRating:
             (fixture.teamHDifficulty + fixture.teamADifficulty) / 2,
 
-          expectedCleanSheetHome: this.calculateExpectedCleanSheet(
-            homeTeam?.strengthDefenceHome || 0,
-            awayTeam?.strengthAttackAway || 0
-          ),
-          expectedCleanSheetAway: this.calculateExpectedCleanSheet(
-            awayTeam?.strengthDefenceAway || 0,
-            homeTeam?.strengthAttackHome || 0
-          ),
+          expectedCleanSheetHome: forecast.cleanSheetHome,
+          expectedCleanSheetAway: forecast.cleanSheetAway,
 
           expectedCards: this.calculateExpectedCards(
             fixture.teamHDifficulty,
@@ -152,6 +222,14 @@ export class FeatureEngineer {
 
           isDerby: this.isDerbyMatch(homeTeam, awayTeam),
 
+          // Dynamic ratings as they stood before the fixture's gameweek
+          ...ratingFeatures(
+            ratings,
+            fixture.teamH,
+            fixture.teamA,
+            fixture.event
+          ),
+
           // If the fixture is finished, include actual results for model training
           actualResult: fixture.finished ? this.getActualResult(fixture) : null,
           actualGoals: fixture.finished
@@ -167,24 +245,138 @@ export class FeatureEngineer {
       })
     );
 
-    await featureCollection.deleteMany({});
-    await featureCollection.insertMany(fixtureFeatures);
+    await featureCollection.deleteMany({ season });
+    await featureCollection.insertMany(tagSeason(fixtureFeatures, season));
     logger.info("Fixture features engineered and stored.");
   }
-  // Helper function implementations
+  /**
+   * Stores opponent- and venue-specific features, the minutes probabilities, the expected
+   * points breakdown and the simulated bonus for every player and each of their fixtures
+   * in the next 5 gameweeks, so predictions can differ per fixture.
+   */
+  private async createPlayerFixtureFeatures() {
+    logger.info("Engineering player fixture features...");
+    const featureCollection = this.storage.collection("player_fixture_features");
+    const season = await getCurrentSeason(this.storage);
+    const players = await this.storage.collection("processed_players").find({ season });
+    const teams = await this.storage.collection("processed_teams").find({ season });
+    const calendar = await GameweekCalendar.load(this.storage, season);
+    const upcomingGameweeks = calendar.upcomingGameweeks(5);
+    const tiers = strengthTiers(teams);
+    const elementTypes = await this.storage.collection("elements_types").find({ season });
+    const rules = scoringRules(elementTypes);
+    const fixtureFeatures = await this.storage
+      .collection("fixture_features")
+      .find({ season });
+    const forecasts = new Map(
+      fixtureFeatures.map((features) => [
+        features.id,
+        {
+          expectedHomeGoals: features.expectedHomeGoals,
+          expectedAwayGoals: features.expectedAwayGoals,
+          cleanSheetHome: features.expectedCleanSheetHome,
+          cleanSheetAway: features.expectedCleanSheetAway,
+        },
+      ])
+    );
+    const bonus = this.simulateBonus(
+      players,
+      fixtureFeatures.filter(
+        (fixture) => fixture.event != null && upcomingGameweeks.includes(fixture.event)
+      ),
+      bpsRules(elementTypes)
+    );
+    const places = positionPlaces(elementTypes);
+    const minutesPlayers = players.map((player) => ({
+      ...player,
+      history: player.history ?? [],
+    }));
+    const minutesModel = fitMinutesModel(minutesRows(minutesPlayers, places));
+    const rivalsOf = positionRivals(minutesPlayers);
+
+    const features = minutesPlayers.flatMap((player) => {
+      const upcoming = ((player.fixtures ?? []) as ElementFixture[]).filter(
+        (fixture) => fixture.event != null && upcomingGameweeks.includes(fixture.event)
+      );
+      const minutesFeatures = upcomingMinutesFeatures(
+        player,
+        rivalsOf(player),
+        upcoming,
+        player.elementType !== undefined ? places.get(player.elementType) : undefined
+      );
+      return upcoming.map((fixture) => {
+        const forecast = forecasts.get(fixture.id);
+        const breakdown = forecast
+          ? projectPoints(
+              player.history,
+              fixtureOutlook(forecast, fixture.is_home),
+              player.elementType !== undefined ? rules.get(player.elementType) : undefined
+            )
+          : undefined;
+        const simulated = bonus.get(fixture.id)?.get(player.id);
+        return {
+          id: player.id,
+          ...playerFixtureFeatures(player.history, fixture, tiers),
+          // As in the training rows, the model's minutes inputs assume the player is
+          // fit; `Predictor` scales its prediction by availability instead
+          ...predictMinutes(minutesModel, minutesFeatures.get(fixture.id) ?? []),
+          ...expectedPointsFeatures(breakdown),
+          expectedBonus: simulated?.expectedBonus ?? null,
+          bonusProbabilities: simulated?.bonusProbabilities ?? null,
+          expectedBps: simulated?.expectedBps ?? null,
+        };
+      });
+    });
 
-  private calculateExpectedGoals(homeTeam: any, awayTeam: any): number {
-    const homeAttack = homeTeam?.strengthAttackHome || 1000;
-    const awayDefense = awayTeam?.strengthDefenceAway || 1000;
-    const awayAttack = awayTeam?.strengthAttackAway || 1000;
-    const homeDefense = homeTeam?.strengthDefenceHome || 1000;
+    await featureCollection.deleteMany({ season });
+    await featureCollection.insertMany(tagSeason(features, season));
+    logger.info("Player fixture features engineered and stored.");
+  }
 
-    const homeExpectedGoals = (homeAttack / awayDefense) * 1.25; // 1.25 is an average number of goals
-    const awayExpectedGoals = (awayAttack / homeDefense) * 1.25;
+  /**
+   * Simulates the bonus of each fixture from its scoreline forecast and the BPS profiles
+   * of both teams' players, scaled by how likely each player is to be available.
+   * Returns the forecasts by fixture, then player.
+   */
+  private simulateBonus(
+    players: ProcessedPlayer[],
+    fixtures: FixtureFeatures[],
+    rules: Map<number, BpsRules>
+  ): Map<number, Map<number, BonusForecast>> {
+    const squads = new Map<number, BpsProfile[]>();
+    for (const player of players) {
+      const playerRules =
+        player.elementType !== undefined ? rules.get(player.elementType) : undefined;
+      const profile = playerRules && bpsProfile(player.id, player.history ?? [], playerRules);
+      if (!profile || player.team === undefined) continue;
+      const availability = player.availability ?? 1;
+      squads.set(player.team, [
+        ...(squads.get(player.team) ?? []),
+        {
+          ...profile,
+          appearance: profile.appearance * availability,
+          sixtyMinutes: profile.sixtyMinutes * availability,
+        },
+      ]);
+    }
 
-    return homeExpectedGoals + awayExpectedGoals;
+    return new Map(
+      fixtures
+        .filter((fixture) => fixture.scorelineProbabilities)
+        .map((fixture) => [
+          fixture.id,
+          // Seeded per fixture, so a fixture's simulation does not depend on the others
+          new BonusSimulator(seededRandom(fixture.id)).simulate(
+            fixture.scorelineProbabilities,
+            squads.get(fixture.teamH) ?? [],
+            squads.get(fixture.teamA) ?? []
+          ),
+        ])
+    );
   }
 
+  // Helper function implementations
+
   private calculateHomeFactor(team: any): number {
     const homeStrength = team?.strengthOverallHome || 1000;
     const overallStrength = team?.averageOverallStrength || 1000;
@@ -197,29 +389,11 @@ export class FeatureEngineer {
     return awayStrength / overallStrength;
   }
 
-  private calculateExpectedTeamGoals(
-    attackStrength: number,
-    opponentDefenseStrength: number
-  ): number {
-    return (attackStrength / opponentDefenseStrength) * 1.25; // 1.25 is an average number of goals
-  }
-
   private calculatePositionStrength(position: number): number {
     // Assuming 20 teams in the league
     return Math.max(0.05, 1 - (position - 1) / 19);
   }
 
-  private calculateExpectedCleanSheet(
-    defenseStrength: number,
-    opponentAttackStrength: number
-  ): number {
-    const goalExpectancy = this.calculateExpectedTeamGoals(
-      opponentAttackStrength,
-      defenseStrength
-    );
-    return Math.exp(-goalExpectancy); // Poisson distribution for P(X=0)
-  }
-
   private calculateExpectedCards(
     homeDifficulty: number,
     awayDifficulty: number
@@ -241,12 +415,12 @@ export class FeatureEngineer {
   }
 
   private isDerbyMatch(homeTeam: any, awayTeam: any): boolean {
-    // This is a simplified implementation. In reality, you'd need a predefined list of derby matches.
-    // For demonstration, let's consider teams with codes that are close to each other as local rivals.
-    const codeDifference = Math.abs(
-      (homeTeam?.code || 0) - (awayTeam?.code || 0)
+    const home = homeTeam?.shortName;
+    const away = awayTeam?.shortName;
+    return derbyConfig.some(
+      ([first, second]) =>
+        (first === home && second === away) || (first === away && second === home)
     );
-    return codeDifference <= 3; // Arbitrary threshold
   }
 
   private getActualResult(fixture: any): string {
@@ -261,15 +435,8 @@ export class FeatureEngineer {
    * @param history - An array of game data objects for the player.
    * @returns The average total points scored by the player in their last 5 games.
    */
-  private calculateRecentForm(history: any[] | undefined): number {
-    if (!history || history.length === 0) {
-      return 0;
-    }
-    const recentGames = history.slice(-5);
-    return (
-      recentGames.reduce((sum, game) => sum + (game.total_points || 0), 0) /
-      recentGames.length
-    );
+  private calculateRecentForm(history: ElementHistory[] | undefined): number {
+    return rollingStat(history ?? [], { stat: "points", window: 5 });
   }
 
   /**
@@ -278,7 +445,7 @@ export class FeatureEngineer {
    * @param history - An array of game data objects for the player.
    * @returns The standard deviation of the player's total points scored in their game history.
    */
-  private calculateConsistency(history: any[] | undefined): number {
+  private calculateConsistency(history: ElementHistory[] | undefined): number {
     if (!history || history.length === 0) {
       return 0;
     }
@@ -291,9 +458,7 @@ export class FeatureEngineer {
     );
   }
 
-  // Helper function implementations
-
-  private calculateHomeAwayDelta(history: any[]): number {
+  private calculateHomeAwayDelta(history: ElementHistory[]): number {
     const homePerformance = history
       .filter((game) => game.was_home)
       .reduce((sum, game) => sum + game.total_points, 0);
@@ -309,35 +474,13 @@ export class FeatureEngineer {
     return homeAvg - awayAvg;
   }
 
-  private calculateFormTrend(currentSeason: any[]): number {
-    const recentGames = currentSeason.slice(-5); // Consider last 5 games
-    const weights = [0.1, 0.15, 0.2, 0.25, 0.3]; // More recent games have higher weights
-
-    return recentGames.reduce((trend, game, index) => {
-      return trend + game.total_points * weights[index];
-    }, 0);
-  }
-
-  private calculateSeasonImprovement(
-    lastSeason: any[],
-    currentSeason: any[]
-  ): number {
-    const lastSeasonAvg =
-      lastSeason.reduce((sum, game) => sum + game.total_points, 0) /
-      (lastSeason.length || 1);
-    const currentSeasonAvg =
-      currentSeason.reduce((sum, game) => sum + game.total_points, 0) /
-      (currentSeason.length || 1);
-
-    return ((currentSeasonAvg - lastSeasonAvg) / lastSeasonAvg) * 100; // Percentage improvement
-  }
-
-  private calculateInjuryProneness(history: any[]): number {
+  private calculateInjuryProneness(history: ElementHistory[]): number {
     const injuryGames = history.filter((game) => game.minutes === 0).length;
-    return (injuryGames / history.length) * 100; // Percentage of games missed
+    // Percentage of games missed; none before a player's first gameweek
+    return history.length > 0 ? (injuryGames / history.length) * 100 : 0;
   }
 
-  private calculatePriceChangeResilience(history: any[]): number {
+  private calculatePriceChangeResilience(history: ElementHistory[]): number {
     let priceChanges = 0;
     let performanceChanges = 0;
 
@@ -355,41 +498,63 @@ export class FeatureEngineer {
     return priceChanges === 0 ? 0 : performanceChanges / priceChanges;
   }
 
-  private calculateTeamImpact(history: any[]): number {
+  private calculateTeamImpact(history: ElementHistory[]): number {
+    if (history.length === 0) {
+      return 0;
+    }
     return (
       history.reduce((impact, game) => {
-        const teamScore = game.team_h_score + game.team_a_score;
+        const teamScore = (game.team_h_score ?? 0) + (game.team_a_score ?? 0);
         return impact + (game.goals_scored + game.assists) / (teamScore || 1);
       }, 0) / history.length
     );
   }
 
-  private adjustPerformanceForDifficulty(history: any[]): number {
+  private adjustPerformanceForDifficulty(
+    history: (ElementHistory & { difficulty?: number })[]
+  ): number {
+    if (history.length === 0) {
+      return 0;
+    }
     return (
       history.reduce((adjustedPerformance, game) => {
-        // Assume difficulty is on a scale of 1-5, where 5 is most difficult
-        const difficultyFactor = game.difficulty / 3; // Normalize to make 3 the baseline
+        // Assume difficulty is on a scale of 1-5, where 5 is most difficult.
+        // History entries carry no difficulty of their own, so fall back to the baseline.
+        const difficultyFactor = (game.difficulty ?? 3) / 3; // Normalize to make 3 the baseline
         return adjustedPerformance + game.total_points * difficultyFactor;
       }, 0) / history.length
     );
   }
 
   /**
-   * Calculates the average difficulty of the next 5 upcoming fixtures.
+   * Calculates the average difficulty of the fixtures in the upcoming gameweeks.
+   * A double gameweek contributes both fixtures and a blank contributes none, so the
+   * average is taken over the actual number of fixtures.
    *
    * @param fixtures - An array of fixture objects.
-   * @returns The average difficulty of the next 5 upcoming fixtures.
+   * @param upcomingGameweeks - The gameweeks to consider; when empty, the next 5 fixtures are used.
+   * @returns The average difficulty of the upcoming fixtures.
    */
   private calculateUpcomingFixtureDifficulty(
-    fixtures: any[] | undefined
+    fixtures: ElementFixture[] | undefined,
+    upcomingGameweeks: number[] = []
   ): number {
     if (!fixtures || fixtures.length === 0) {
       return 0;
     }
+    const upcoming =
+      upcomingGameweeks.length > 0
+        ? fixtures.filter(
+            (fixture) =>
+              fixture.event != null && upcomingGameweeks.includes(fixture.event)
+          )
+        : fixtures.slice(0, 5);
+    if (upcoming.length === 0) {
+      return 0;
+    }
     return (
-      fixtures
-        .slice(0, 5)
-        .reduce((sum, fixture) => sum + (fixture.difficulty || 0), 0) / 5
+      upcoming.reduce((sum, fixture) => sum + (fixture.difficulty || 0), 0) /
+      upcoming.length
     );
   }
-}
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { createHash } from "crypto";
+import { Storage } from "../storage/storage";
+
+/**
+ * What the collector knows about the last successful fetch of a resource such as
+ * `player_summary:302` or `gameweek_live:12`.
+ */
+export interface FetchState {
+  resource: string;
+  kind: string;
+  season: string;
+  lastFetched: Date;
+  finished: boolean;
+  contentHash: string;
+}
+
+/**
+ * Returns a stable SHA-1 hash of a JSON-serialisable value.
+ */
+export const hashContent = (value: unknown): string =>
+  createHash("sha1").update(JSON.stringify(value)).digest("hex");
+
+/**
+ * Persists per-resource fetch state in the `fetch_state` collection so that
+ * incremental collection runs can skip data that has not changed.
+ */
+export class FetchStateStore {
+  constructor(private storage: Storage) {}
+
+  /**
+   * Loads the state of every resource of the given kind in a season, keyed by resource.
+   */
+  async load(season: string, kind: string): Promise<Map<string, FetchState>> {
+    const states = await this.storage
+      .collection("fetch_state")
+      .find({ season, kind });
+    return new Map(states.map((state) => [state.resource, state]));
+  }
+
+  async record(
+    season: string,
+    kind: string,
+    key: number | string,
+    contentHash: string,
+    finished = false
+  ) {
+    const resource = FetchStateStore.resource(kind, key);
+    await this.storage.collection("fetch_state").updateOne(
+      { season, resource },
+      {
+        $set: { season, resource, kind, contentHash, finished, lastFetched: new Date() },
+      },
+      { upsert: true }
+    );
+  }
+
+  static resource(kind: string, key: number | string) {
+    return `${kind}:${key}`;
+  }
+}
@@ -0,0 +1,147 @@
+import { Event, Fixture } from "../models/fplTypes";
+import { Storage } from "../storage/storage";
+import { getCurrentSeason } from "./season";
+
+/**
+ * The season calendar built from the `gameweeks` (bootstrap `events`) and `fixtures`
+ * collections. Knows the current and next gameweek, their deadlines, and which teams
+ * blank (no fixture) or double (two or more fixtures) in each gameweek, so callers do
+ * not have to assume 38 gameweeks of one fixture per team.
+ */
+export class GameweekCalendar {
+  private events: Event[];
+  private fixturesByEvent = new Map<number, Fixture[]>();
+  private teamIds: number[];
+
+  /**
+   * @param events - The season's gameweeks.
+   * @param fixtures - The season's fixtures; unscheduled fixtures (`event: null`) are ignored.
+   * @param now - Clock used to decide which deadlines have passed, injectable for tests.
+   */
+  constructor(
+    events: Event[],
+    fixtures: Fixture[],
+    private now: () => Date = () => new Date()
+  ) {
+    this.events = [...events].sort((a, b) => a.id - b.id);
+    const teams = new Set<number>();
+    for (const fixture of fixtures) {
+      teams.add(fixture.team_h);
+      teams.add(fixture.team_a);
+      if (fixture.event == null) continue;
+      const list = this.fixturesByEvent.get(fixture.event) ?? [];
+      list.push(fixture);
+      this.fixturesByEvent.set(fixture.event, list);
+    }
+    this.teamIds = [...teams].sort((a, b) => a - b);
+  }
+
+  /**
+   * Builds the calendar of a season from the stored gameweeks and fixtures.
+   * @param season - Defaults to the current season.
+   */
+  static async load(storage: Storage, season?: string): Promise<GameweekCalendar> {
+    const filter = { season: season ?? (await getCurrentSeason(storage)) };
+    const events = await storage.collection("gameweeks").find(filter);
+    const fixtures = await storage.collection("fixtures").find(filter);
+    return new GameweekCalendar(events, fixtures);
+  }
+
+  get totalGameweeks(): number {
+    return this.events.length;
+  }
+
+  get gameweeks(): number[] {
+    return this.events.map((event) => event.id);
+  }
+
+  currentEvent(): Event | undefined {
+    return this.events.find((event) => event.is_current);
+  }
+
+  /**
+   * The next gameweek whose deadline has not passed yet.
+   */
+  nextEvent(): Event | undefined {
+    return (
+      this.events.find((event) => event.is_next) ??
+      this.events.find((event) => {
+        const deadline = this.deadline(event.id);
+        return deadline !== undefined && deadline > this.now();
+      })
+    );
+  }
+
+  deadline(gameweek: number): Date | undefined {
+    const event = this.events.find((e) => e.id === gameweek);
+    if (!event?.deadline_time) return undefined;
+    const deadline = new Date(event.deadline_time);
+    return Number.isNaN(deadline.getTime()) ? undefined : deadline;
+  }
+
+  /**
+   * Gameweeks whose deadline has passed, i.e. those that have live data.
+   */
+  startedGameweeks(): number[] {
+    return this.events
+      .filter((event) => {
+        const deadline = this.deadline(event.id);
+        return (
+          event.finished ||
+          event.is_current ||
+          event.is_previous ||
+          (deadline !== undefined && deadline <= this.now())
+        );
+      })
+      .map((event) => event.id);
+  }
+
+  /**
+   * Whether a gameweek is finished and its data checked, so its live data will not change.
+   */
+  isFinal(gameweek: number): boolean {
+    const event = this.events.find((e) => e.id === gameweek);
+    return Boolean(event?.finished && event.data_checked);
+  }
+
+  finishedGameweeks(): number[] {
+    return this.events.filter((event) => event.finished).map((event) => event.id);
+  }
+
+  /**
+   * The next `count` gameweeks, starting with the next deadline.
+   */
+  upcomingGameweeks(count: number): number[] {
+    const next = this.nextEvent();
+    if (!next) return [];
+    return this.gameweeks.filter((id) => id >= next.id).slice(0, count);
+  }
+
+  fixtures(gameweek: number): Fixture[] {
+    return this.fixturesByEvent.get(gameweek) ?? [];
+  }
+
+  teamFixtures(teamId: number, gameweek: number): Fixture[] {
+    return this.fixtures(gameweek).filter(
+      (fixture) => fixture.team_h === teamId || fixture.team_a === teamId
+    );
+  }
+
+  fixtureCount(teamId: number, gameweek: number): number {
+    return this.teamFixtures(teamId, gameweek).length;
+  }
+
+  /**
+   * Teams without a fixture in the gameweek.
+   */
+  blanks(gameweek: number): number[] {
+    return this.teamIds.filter((team) => this.fixtureCount(team, gameweek) === 0);
+  }
+
+  /**
+   * Teams with two or more fixtures in the gameweek.
+   */
+  doubles(gameweek: number): number[] {
+    return this.teamIds.filter((team) => this.fixtureCount(team, gameweek) > 1);
+  }
+}
@@ -0,0 +1,177 @@
+import { Storage } from "../storage/storage";
+import { FPLApiService } from "../services/fplApiService";
+import { logger } from "../utils/logger";
+import { runWithConcurrency } from "../utils/workerPool";
+import { apiConfig } from "../config/api";
+import { ClassicLeagueStanding, Pick } from "../models/fplTypes";
+import { GameweekCalendar } from "./gameweekCalendar";
+import { getCurrentSeason } from "./season";
+
+/**
+ * A rival's picks for one gameweek, as stored in `rival_picks`.
+ */
+export interface RivalPicks {
+  leagueId: number;
+  season: string;
+  entry: number;
+  event: number;
+  activeChip: string | null;
+  picks: Pick[];
+}
+
+/**
+ * How widely an element is owned and captained within a league.
+ * `effectiveOwnership` counts each pick by its multiplier, so a captain counts twice
+ * and benched players not at all.
+ */
+export interface LeagueOwnership {
+  element: number;
+  ownership: number;
+  captaincy: number;
+  effectiveOwnership: number;
+}
+
+/**
+ * Aggregates rival picks into per-element ownership, captaincy and effective ownership,
+ * each as a fraction of the number of squads.
+ */
+export function calculateLeagueOwnership(squads: { picks: Pick[] }[]): LeagueOwnership[] {
+  const totals = new Map<number, LeagueOwnership>();
+  for (const squad of squads) {
+    for (const pick of squad.picks) {
+      const entry = totals.get(pick.element) ?? {
+        element: pick.element,
+        ownership: 0,
+        captaincy: 0,
+        effectiveOwnership: 0,
+      };
+      entry.ownership += 1;
+      entry.captaincy += pick.is_captain ? 1 : 0;
+      entry.effectiveOwnership += pick.multiplier;
+      totals.set(pick.element, entry);
+    }
+  }
+  const count = squads.length || 1;
+  return [...totals.values()]
+    .map((entry) => ({
+      element: entry.element,
+      ownership: entry.ownership / count,
+      captaincy: entry.captaincy / count,
+      effectiveOwnership: entry.effectiveOwnership / count,
+    }))
+    .sort((a, b) => b.effectiveOwnership - a.effectiveOwnership);
+}
+
+/**
+ * Collects classic mini-league standings and the current picks of every rival in them.
+ */
+export class LeagueCollector {
+  constructor(private storage: Storage) {}
+
+  /**
+   * Collects each league in turn (see `fetchLeague`). A league that cannot be collected
+   * is logged and skipped, so one bad league id does not stop the others.
+   *
+   * @returns The leagues that could not be collected.
+   */
+  async fetchLeagues(leagueIds: number[], gameweek?: number): Promise<number[]> {
+    const failed: number[] = [];
+    for (const leagueId of leagueIds) {
+      try {
+        await this.fetchLeague(leagueId, gameweek);
+      } catch (error) {
+        logger.error(`Error collecting league ${leagueId}:`, error);
+        failed.push(leagueId);
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Stores a league's full standings in `league_standings` and every rival's picks for
+   * the gameweek in `rival_picks`.
+   *
+   * @param leagueId - The classic league to collect.
+   * @param gameweek - The gameweek to collect picks for; defaults to the current one.
+   * @returns The entries whose picks could not be fetched.
+   */
+  async fetchLeague(leagueId: number, gameweek?: number): Promise<number[]> {
+    const { league, standings } =
+      await FPLApiService.getClassicLeagueStandings(leagueId);
+    const season = await getCurrentSeason(this.storage);
+    await this.storage
+      .collection("league_standings")
+      .updateOne(
+        { leagueId, season },
+        { $set: { leagueId, season, league, standings, fetchedAt: new Date() } },
+        { upsert: true }
+      );
+    logger.info(
+      `League ${leagueId} (${league.name}) standings stored: ${standings.length} entries`
+    );
+
+    const calendar = await GameweekCalendar.load(this.storage, season);
+    const event = gameweek ?? calendar.currentEvent()?.id;
+    if (!event) {
+      logger.info(`No current gameweek; skipping picks for league ${leagueId}`);
+      return [];
+    }
+
+    const results = await runWithConcurrency(
+      standings,
+      apiConfig.concurrency,
+      (standing) =>
+        this.fetchAndStoreRivalPicks(leagueId, season, standing, event)
+    );
+    const failed = standings
+      .filter((_, index) => !results[index])
+      .map((standing) => standing.entry);
+    if (failed.length > 0) {
+      logger.error(
+        `Failed to fetch picks for league ${leagueId} entries: ${failed.join(", ")}`
+      );
+    }
+    return failed;
+  }
+
+  /**
+   * Computes ownership within a league from the stored rival picks.
+   */
+  async leagueOwnership(leagueId: number, event: number): Promise<LeagueOwnership[]> {
+    const season = await getCurrentSeason(this.storage);
+    const squads = await this.storage
+      .collection("rival_picks")
+      .find({ leagueId, season, event });
+    return calculateLeagueOwnership(squads);
+  }
+
+  private async fetchAndStoreRivalPicks(
+    leagueId: number,
+    season: string,
+    standing: ClassicLeagueStanding,
+    event: number
+  ): Promise<boolean> {
+    try {
+      const picks = await FPLApiService.getEntryPicks(standing.entry, event);
+      const rivalPicks: RivalPicks = {
+        leagueId,
+        season,
+        entry: standing.entry,
+        event,
+        activeChip: picks.active_chip,
+        picks: picks.picks,
+      };
+      await this.storage
+        .collection("rival_picks")
+        .updateOne(
+          { leagueId, season, entry: standing.entry, event },
+          { $set: rivalPicks },
+          { upsert: true }
+        );
+      return true;
+    } catch (error) {
+      logger.error(`Error fetching picks for entry ${standing.entry}:`, error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import {
+  EntryChip,
+  EntryEventHistory,
+  EntryPicks,
+  EntryTransfer,
+  Pick,
+} from "../models/fplTypes";
+
+/**
+ * The maximum number of free transfers a manager can bank.
+ */
+export const MAX_FREE_TRANSFERS = 5;
+
+// Playing either of these chips keeps any banked free transfers.
+const TRANSFER_PRESERVING_CHIPS = new Set(["wildcard", "freehit"]);
+
+export interface SquadPlayer {
+  element: number;
+  position: number;
+  multiplier: number;
+  isCaptain: boolean;
+  isViceCaptain: boolean;
+  purchasePrice: number;
+  nowCost: number;
+  sellingPrice: number;
+}
+
+/**
+ * The squad a manager actually owns going into the next deadline.
+ */
+export interface ManagerSquad {
+  entry: number;
+  event: number;
+  bank: number;
+  squadValue: number;
+  freeTransfers: number;
+  chipsUsed: { name: string; event: number }[];
+  players: SquadPlayer[];
+}
+
+/**
+ * Calculates the selling price of a player under the official rule: price rises are
+ * shared 50/50 (rounded down to the nearest 0.1m), price falls are passed on in full.
+ * All values are in tenths of a million.
+ */
+export const sellingPrice = (purchasePrice: number, nowCost: number) =>
+  nowCost <= purchasePrice
+    ? nowCost
+    : purchasePrice + Math.floor((nowCost - purchasePrice) / 2);
+
+/**
+ * Replays a manager's season to work out how many free transfers are available for
+ * the next deadline. Transfers before the first deadline are unlimited; after that one
+ * free transfer is added per gameweek, up to `MAX_FREE_TRANSFERS`, and a wildcard or
+ * free hit keeps whatever was banked.
+ */
+export function calculateFreeTransfers(
+  history: EntryEventHistory[],
+  chips: EntryChip[],
+  startedEvent: number
+): number {
+  const chipsByEvent = new Map(chips.map((chip) => [chip.event, chip.name]));
+  const events = [...history]
+    .filter((gw) => gw.event >= startedEvent)
+    .sort((a, b) => a.event - b.event);
+
+  let freeTransfers = 0;
+  for (const gw of events) {
+    if (gw.event === startedEvent) {
+      freeTransfers = 1;
+      continue;
+    }
+    const chip = chipsByEvent.get(gw.event);
+    if (!chip || !TRANSFER_PRESERVING_CHIPS.has(chip)) {
+      freeTransfers = Math.max(0, freeTransfers - gw.event_transfers);
+    }
+    freeTransfers = Math.min(MAX_FREE_TRANSFERS, freeTransfers + 1);
+  }
+  return Math.max(1, freeTransfers);
+}
+
+/**
+ * Works out the price paid for each element: the cost of the most recent transfer in,
+ * or `startingPrice` for players that were in the squad from the start.
+ */
+export function purchasePrices(
+  elements: number[],
+  transfers: EntryTransfer[],
+  startingPrice: (element: number) => number
+): Map<number, number> {
+  const latestTransferIn = new Map<number, EntryTransfer>();
+  for (const transfer of transfers) {
+    const current = latestTransferIn.get(transfer.element_in);
+    if (!current || transfer.time > current.time) {
+      latestTransferIn.set(transfer.element_in, transfer);
+    }
+  }
+  return new Map(
+    elements.map((element) => [
+      element,
+      latestTransferIn.get(element)?.element_in_cost ?? startingPrice(element),
+    ])
+  );
+}
+
+/**
+ * Picks out the transfers made after gameweek `event`, i.e. for the next deadline, in
+ * the order they were made. Free hit transfers are left out, since that squad reverts afterwards.
+ */
+export function pendingTransfers(
+  transfers: EntryTransfer[],
+  event: number,
+  chips: EntryChip[]
+): EntryTransfer[] {
+  const freeHitEvents = new Set(
+    chips.filter((chip) => chip.name === "freehit").map((chip) => chip.event)
+  );
+  return transfers
+    .filter((transfer) => transfer.event > event && !freeHitEvents.has(transfer.event))
+    .sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/**
+ * Applies transfers, in order, to a gameweek's picks. Each player brought in takes the
+ * slot of the one sold, without the armband: captaincy is only set at the deadline.
+ */
+export function applyTransfers(picks: Pick[], transfers: EntryTransfer[]): Pick[] {
+  return transfers.reduce(
+    (squad, transfer) =>
+      squad.map((pick) =>
+        pick.element === transfer.element_out
+          ? {
+              ...pick,
+              element: transfer.element_in,
+              multiplier: Math.min(pick.multiplier, 1),
+              is_captain: false,
+              is_vice_captain: false,
+            }
+          : pick
+      ),
+    picks
+  );
+}
+
+/**
+ * Combines a manager's picks, transfers and history into the squad they own.
+ *
+ * @param entryId - The manager's team ID.
+ * @param picks - The picks of the latest gameweek that was not a free hit. Transfers
+ *   made since are applied to them.
+ * @param history - The manager's gameweek history and chip usage.
+ * @param transfers - Every transfer made this season.
+ * @param startedEvent - The first gameweek the manager played.
+ * @param nowCost - Current price of an element.
+ * @param startingPrice - Price of an element when the manager started.
+ */
+export function buildManagerSquad(
+  entryId: number,
+  picks: EntryPicks,
+  history: { current: EntryEventHistory[]; chips: EntryChip[] },
+  transfers: EntryTransfer[],
+  startedEvent: number,
+  nowCost: (element: number) => number,
+  startingPrice: (element: number) => number
+): ManagerSquad {
+  const pending = pendingTransfers(transfers, picks.entry_history.event, history.chips);
+  const squadPicks = applyTransfers(picks.picks, pending);
+  const elements = squadPicks.map((pick) => pick.element);
+  const prices = purchasePrices(elements, transfers, startingPrice);
+  // A free hit squad reverts after its gameweek, and so does its bank.
+  const freeHitEvents = new Set(
+    history.chips.filter((chip) => chip.name === "freehit").map((chip) => chip.event)
+  );
+  const latest = [...history.current]
+    .filter((gw) => !freeHitEvents.has(gw.event))
+    .sort((a, b) => b.event - a.event)[0];
+
+  const players = squadPicks.map((pick) => {
+    const purchasePrice = prices.get(pick.element) ?? nowCost(pick.element);
+    const cost = nowCost(pick.element);
+    return {
+      element: pick.element,
+      position: pick.position,
+      multiplier: pick.multiplier,
+      isCaptain: pick.is_captain,
+      isViceCaptain: pick.is_vice_captain,
+      purchasePrice,
+      nowCost: cost,
+      sellingPrice: sellingPrice(purchasePrice, cost),
+    };
+  });
+
+  return {
+    entry: entryId,
+    event: picks.entry_history.event,
+    // The bank in the history predates the pending transfers
+    bank: pending.reduce(
+      (bank, transfer) => bank + transfer.element_out_cost - transfer.element_in_cost,
+      latest?.bank ?? picks.entry_history.bank
+    ),
+    squadValue: players.reduce((sum, player) => sum + player.sellingPrice, 0),
+    freeTransfers: Math.max(
+      0,
+      calculateFreeTransfers(history.current, history.chips, startedEvent) - pending.length
+    ),
+    chipsUsed: history.chips.map((chip) => ({ name: chip.name, event: chip.event })),
+    players,
+  };
+}
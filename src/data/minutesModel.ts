@@ -0,0 +1,321 @@
+import { ElementHistory, ElementType } from "../models/fplTypes";
+
+/**
+ * A player's chances of each minutes outcome in one fixture.
+ */
+export interface MinutesProbabilities {
+  probabilityNoMinutes: number;
+  probabilityUnder60: number;
+  probability60Plus: number;
+}
+
+/**
+ * Multinomial logistic regression weights: one row per outcome (no minutes, under 60,
+ * 60 or more), one column per entry of `MINUTES_FEATURES`.
+ */
+export interface MinutesModel {
+  weights: number[][];
+  rows: number;
+}
+
+/**
+ * What is known about a fixture before its deadline that bears on rotation.
+ */
+export interface MinutesContext {
+  /** Days since the team's previous game, if any. */
+  restDays: number | null;
+  /** Days until the team's next game, if any. */
+  daysToNext: number | null;
+  /**
+   * Teammates in the same position who have been playing 60 minutes regularly, per
+   * place in the position (`squad_max_play`).
+   */
+  depth: number;
+}
+
+/**
+ * A player as the minutes model sees them: their games and where they fit in their squad.
+ */
+export interface MinutesPlayer {
+  id: number;
+  team?: number;
+  elementType?: number;
+  /** Games oldest first. */
+  history: ElementHistory[];
+}
+
+/**
+ * One game of one player, with the features known before it and its outcome.
+ */
+export interface MinutesRow {
+  playerId: number;
+  fixture: number;
+  round: number;
+  features: number[];
+  outcome: number;
+}
+
+/** The model's inputs, in weight order. */
+export const MINUTES_FEATURES = [
+  "bias",
+  "lastMinutes",
+  "minutesLast3",
+  "minutesLast5",
+  "startsLast5",
+  "sixtyMinutesLast5",
+  "noMinutesLast5",
+  "noHistory",
+  "shortRest",
+  "shortTurnaround",
+  "depth",
+];
+
+/** Games the recent-minutes features look back over. */
+const RECENT_GAMES = 5;
+
+/** Rest or turnaround this many days or shorter counts as congested. */
+const CONGESTED_DAYS = 3;
+
+/** Teammates playing 60 minutes in at least this share of recent games are established. */
+const ESTABLISHED_SHARE = 0.5;
+
+/** Places in a position when `element_types` does not say. */
+const DEFAULT_PLACES = 3;
+
+const FIT_ITERATIONS = 200;
+const LEARNING_RATE = 1;
+const L2_PENALTY = 0.001;
+
+/**
+ * The outcome index of a game: 0 for no minutes, 1 for under 60, 2 for 60 or more.
+ */
+export const minutesOutcome = (minutes: number) =>
+  minutes <= 0 ? 0 : minutes < 60 ? 1 : 2;
+
+const daysBetween = (from: string | null | undefined, to: string | null | undefined) =>
+  from && to ? (new Date(to).getTime() - new Date(from).getTime()) / 86_400_000 : null;
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Whether a player has been playing 60 minutes in most of their recent games.
+ */
+const isEstablished = (before: ElementHistory[]) =>
+  before.length > 0 &&
+  mean(before.slice(-RECENT_GAMES).map((game) => (game.minutes >= 60 ? 1 : 0))) >=
+    ESTABLISHED_SHARE;
+
+/**
+ * The model's inputs for a fixture, from the player's games before it.
+ *
+ * @param before - The player's games before the fixture, oldest first.
+ */
+export function minutesFeatures(
+  before: ElementHistory[],
+  context: MinutesContext
+): number[] {
+  const recent = before.slice(-RECENT_GAMES);
+  const minutes = recent.map((game) => game.minutes / 90);
+  return [
+    1,
+    minutes[minutes.length - 1] ?? 0,
+    mean(minutes.slice(-3)),
+    mean(minutes),
+    mean(recent.map((game) => (game.starts > 0 ? 1 : 0))),
+    mean(recent.map((game) => (game.minutes >= 60 ? 1 : 0))),
+    mean(recent.map((game) => (game.minutes <= 0 ? 1 : 0))),
+    before.length === 0 ? 1 : 0,
+    context.restDays !== null && context.restDays <= CONGESTED_DAYS ? 1 : 0,
+    context.daysToNext !== null && context.daysToNext <= CONGESTED_DAYS ? 1 : 0,
+    context.depth,
+  ];
+}
+
+/**
+ * Teammates in a player's position who are established starters, per place in the
+ * position.
+ *
+ * @param teammates - The earlier games of each teammate in the same position.
+ */
+export const squadDepth = (teammates: ElementHistory[][], places: number) =>
+  teammates.filter(isEstablished).length / (places || DEFAULT_PLACES);
+
+/**
+ * Places per position from `element_types`, keyed by element type id.
+ */
+export const positionPlaces = (
+  elementTypes: Pick<ElementType, "id" | "squad_max_play">[]
+) =>
+  new Map(elementTypes.map((elementType) => [elementType.id, elementType.squad_max_play]));
+
+/**
+ * Players grouped by team and position, so each can find their rivals for a place.
+ */
+export function positionRivals(players: MinutesPlayer[]) {
+  const groups = new Map<string, MinutesPlayer[]>();
+  for (const player of players) {
+    const key = `${player.team}:${player.elementType}`;
+    groups.set(key, [...(groups.get(key) ?? []), player]);
+  }
+  return (player: MinutesPlayer) =>
+    (groups.get(`${player.team}:${player.elementType}`) ?? []).filter(
+      (other) => other.id !== player.id
+    );
+}
+
+/**
+ * One row per game in every player's history, with features from what was known before
+ * its gameweek: their own earlier games, the schedule and their teammates' earlier games.
+ */
+export function minutesRows(
+  players: MinutesPlayer[],
+  places: Map<number, number> = new Map()
+): MinutesRow[] {
+  const rivalsOf = positionRivals(players);
+  return players.flatMap((player) => {
+    const teammates = rivalsOf(player);
+    const slots =
+      player.elementType !== undefined ? places.get(player.elementType) : undefined;
+    return player.history.map((game, index) => {
+      const previous = player.history[index - 1];
+      const next = player.history[index + 1];
+      const before = player.history.filter((earlier) => earlier.round < game.round);
+      const depth = squadDepth(
+        teammates.map((teammate) =>
+          teammate.history.filter((earlier) => earlier.round < game.round)
+        ),
+        slots ?? DEFAULT_PLACES
+      );
+      return {
+        playerId: player.id,
+        fixture: game.fixture,
+        round: game.round,
+        features: minutesFeatures(before, {
+          restDays: daysBetween(previous?.kickoff_time, game.kickoff_time),
+          daysToNext: daysBetween(game.kickoff_time, next?.kickoff_time),
+          depth,
+        }),
+        outcome: minutesOutcome(game.minutes),
+      };
+    });
+  });
+}
+
+/**
+ * The model's inputs for each of a player's upcoming fixtures, from every game played
+ * so far. Rest and turnaround count the other upcoming fixtures as well as past games.
+ *
+ * @param rivals - Teammates in the same position.
+ * @param fixtures - The player's upcoming fixtures.
+ * @returns The inputs by fixture id.
+ */
+export function upcomingMinutesFeatures(
+  player: MinutesPlayer,
+  rivals: MinutesPlayer[],
+  fixtures: { id: number; kickoff_time: string | null }[],
+  places: number = DEFAULT_PLACES
+): Map<number, number[]> {
+  const depth = squadDepth(rivals.map((rival) => rival.history), places);
+  const schedule = [...fixtures].sort((a, b) =>
+    (a.kickoff_time ?? "").localeCompare(b.kickoff_time ?? "")
+  );
+  const lastGame = player.history[player.history.length - 1]?.kickoff_time;
+  return new Map(
+    schedule.map((fixture, index) => [
+      fixture.id,
+      minutesFeatures(player.history, {
+        restDays: daysBetween(
+          index > 0 ? schedule[index - 1].kickoff_time : lastGame,
+          fixture.kickoff_time
+        ),
+        daysToNext: daysBetween(fixture.kickoff_time, schedule[index + 1]?.kickoff_time),
+        depth,
+      }),
+    ])
+  );
+}
+
+const dot = (weights: number[], features: number[]) =>
+  weights.reduce((sum, weight, index) => sum + weight * (features[index] ?? 0), 0);
+
+const softmax = (scores: number[]) => {
+  const max = Math.max(...scores);
+  const exponentials = scores.map((score) => Math.exp(score - max));
+  const total = exponentials.reduce((sum, value) => sum + value, 0);
+  return exponentials.map((value) => value / total);
+};
+
+/**
+ * Fits the weights by gradient descent on the average log-loss, with a small L2
+ * penalty so outcomes never seen with a feature do not push its weight without bound.
+ * With no rows every outcome is equally likely.
+ */
+export function fitMinutesModel(
+  rows: Pick<MinutesRow, "features" | "outcome">[]
+): MinutesModel {
+  const weights = [0, 1, 2].map(() => MINUTES_FEATURES.map(() => 0));
+  if (rows.length === 0) return { weights, rows: 0 };
+
+  for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+    const gradient = weights.map((row) => row.map(() => 0));
+    for (const row of rows) {
+      const probabilities = softmax(weights.map((outcome) => dot(outcome, row.features)));
+      probabilities.forEach((probability, outcome) => {
+        const error = probability - (outcome === row.outcome ? 1 : 0);
+        row.features.forEach((value, feature) => {
+          gradient[outcome][feature] += error * value;
+        });
+      });
+    }
+    weights.forEach((outcome, index) =>
+      outcome.forEach((weight, feature) => {
+        outcome[feature] -=
+          LEARNING_RATE * (gradient[index][feature] / rows.length + L2_PENALTY * weight);
+      })
+    );
+  }
+  return { weights, rows: rows.length };
+}
+
+/**
+ * The chances of each minutes outcome, with the chance of playing at all scaled by the
+ * player's availability (FPL's chance of playing).
+ */
+export function predictMinutes(
+  model: MinutesModel,
+  features: number[],
+  availability = 1
+): MinutesProbabilities {
+  const [none, under60, sixtyPlus] = softmax(
+    model.weights.map((outcome) => dot(outcome, features))
+  );
+  return {
+    probabilityNoMinutes: 1 - (1 - none) * availability,
+    probabilityUnder60: under60 * availability,
+    probability60Plus: sixtyPlus * availability,
+  };
+}
+
+/** Gameweeks covered by each model `MinutesModels` fits. */
+const REFIT_EVERY = 4;
+
+/**
+ * Fits models on the rows of earlier gameweeks only, refitting every few gameweeks, so
+ * a game's prediction never sees its own outcome.
+ */
+export class MinutesModels {
+  private fitted = new Map<number, MinutesModel>();
+
+  constructor(private rows: MinutesRow[]) {}
+
+  before(round: number): MinutesModel {
+    const start = round - ((round - 1) % REFIT_EVERY);
+    let model = this.fitted.get(start);
+    if (!model) {
+      model = fitMinutesModel(this.rows.filter((row) => row.round < start));
+      this.fitted.set(start, model);
+    }
+    return model;
+  }
+}
@@ -0,0 +1,82 @@
+import { ElementFixture, ElementHistory } from "../models/fplTypes";
+
+export type StrengthTier = "top" | "middle" | "bottom";
+
+/** Teams ranked 1-6 by strength are "top", 7-14 "middle" and the rest "bottom". */
+const TOP_TIER_SIZE = 6;
+const MIDDLE_TIER_END = 14;
+
+const TIER_RANK: Record<StrengthTier, number> = { top: 1, middle: 2, bottom: 3 };
+
+/**
+ * Places every team in a strength tier by its average FPL overall strength. The
+ * current ratings are applied to past games too, since FPL only adjusts them a
+ * few times a season.
+ */
+export function strengthTiers(
+  teams: { id: number; averageOverallStrength?: number }[]
+): Map<number, StrengthTier> {
+  const ranked = [...teams].sort(
+    (a, b) => (b.averageOverallStrength || 0) - (a.averageOverallStrength || 0)
+  );
+  return new Map(
+    ranked.map((team, index): [number, StrengthTier] => [
+      team.id,
+      index < TOP_TIER_SIZE ? "top" : index < MIDDLE_TIER_END ? "middle" : "bottom",
+    ])
+  );
+}
+
+/**
+ * Games, minutes and points per 90 over a subset of a player's history.
+ */
+function split(games: ElementHistory[]) {
+  const minutes = games.reduce((sum, game) => sum + (game.minutes || 0), 0);
+  const points = games.reduce((sum, game) => sum + (game.total_points || 0), 0);
+  return {
+    games: games.length,
+    pointsPer90: minutes > 0 ? (points / minutes) * 90 : 0,
+  };
+}
+
+/**
+ * Features of one player for one upcoming fixture, from the player's history against
+ * the same opponent, against teams in the opponent's strength tier, at the same venue,
+ * and against that tier at that venue (e.g. points per 90 away at top-six sides).
+ * Each points-per-90 figure comes with the number of games behind it, since the
+ * narrower buckets are often small.
+ */
+export function playerFixtureFeatures(
+  history: ElementHistory[],
+  fixture: Pick<ElementFixture, "id" | "event" | "is_home" | "team_h" | "team_a" | "difficulty">,
+  tiers: Map<number, StrengthTier>
+) {
+  const opponentTeam = fixture.is_home ? fixture.team_a : fixture.team_h;
+  const opponentTier = tiers.get(opponentTeam) ?? "middle";
+  const atVenue = history.filter((game) => game.was_home === fixture.is_home);
+  const inTier = (game: ElementHistory) =>
+    (tiers.get(game.opponent_team) ?? "middle") === opponentTier;
+
+  const vsOpponent = split(history.filter((game) => game.opponent_team === opponentTeam));
+  const vsTier = split(history.filter(inTier));
+  const venue = split(atVenue);
+  const vsTierAtVenue = split(atVenue.filter(inTier));
+
+  return {
+    fixtureId: fixture.id,
+    event: fixture.event,
+    wasHome: fixture.is_home ? 1 : 0,
+    opponentTeam,
+    opponentTier,
+    opponentTierRank: TIER_RANK[opponentTier],
+    fixtureDifficulty: fixture.difficulty,
+    gamesVsOpponent: vsOpponent.games,
+    pointsPer90VsOpponent: vsOpponent.pointsPer90,
+    gamesVsTier: vsTier.games,
+    pointsPer90VsTier: vsTier.pointsPer90,
+    gamesAtVenue: venue.games,
+    pointsPer90AtVenue: venue.pointsPer90,
+    gamesVsTierAtVenue: vsTierAtVenue.games,
+    pointsPer90VsTierAtVenue: vsTierAtVenue.pointsPer90,
+  };
+}
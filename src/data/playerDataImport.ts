@@ -0,0 +1,348 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { Storage } from "../storage/storage";
+import { Element, Team } from "../models/fplTypes";
+import { logger } from "../utils/logger";
+import { getCurrentSeason } from "./season";
+
+export type ImportedValue = number | string | boolean;
+
+/**
+ * The imported columns of one player from one source, as stored in
+ * `external_player_data`.
+ */
+export interface ExternalPlayerData {
+  season: string;
+  source: string;
+  element: number;
+  importedAt: Date;
+  values: Record<string, ImportedValue>;
+}
+
+export interface UnmatchedRow {
+  /** 1-based position of the row in the file, not counting a CSV header. */
+  row: number;
+  reason: string;
+  values: Record<string, string>;
+}
+
+export interface ImportReport {
+  source: string;
+  season: string;
+  rows: number;
+  matched: number;
+  unmatched: UnmatchedRow[];
+}
+
+/** Columns that identify the player rather than carry data. */
+const ID_COLUMNS = ["id", "element"];
+const NAME_COLUMNS = ["web_name", "name", "player"];
+const TEAM_COLUMNS = ["team", "team_name"];
+
+/** Smallest name similarity, from 0 to 1, accepted as a fuzzy match. */
+const MIN_SIMILARITY = 0.8;
+
+/**
+ * Smallest lead in similarity a fuzzy match needs over the runner-up; closer calls are
+ * rejected as ambiguous.
+ */
+const MIN_MARGIN = 0.1;
+
+/**
+ * Parses CSV text with a header row into one record per line. Handles quoted fields,
+ * including commas, line breaks and doubled quotes inside them.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...lines] = rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+  if (!header) return [];
+  const columns = header.map((column) => column.trim());
+  return lines.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? "").trim()]))
+  );
+}
+
+/**
+ * Reads the rows of a `.csv` file, or of a `.json` file holding an array of objects.
+ */
+export async function readRows(file: string): Promise<Record<string, string>[]> {
+  const text = await readFile(file, "utf8");
+  if (path.extname(file).toLowerCase() !== ".json") {
+    return parseCsv(text);
+  }
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${file} must contain an array of player objects`);
+  }
+  return parsed.map((item: Record<string, unknown>) =>
+    Object.fromEntries(
+      Object.entries(item).map(([key, value]) => [key, value == null ? "" : String(value)])
+    )
+  );
+}
+
+/**
+ * Lower-cases a name and strips accents, punctuation and spaces, so "Ødegaard" and
+ * "odegaard" compare equal.
+ */
+export const normalizeName = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ø/gi, "o")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two normalized names from 0 (nothing in common) to 1 (equal).
+ */
+export const nameSimilarity = (a: string, b: string) =>
+  a.length + b.length === 0 ? 1 : 1 - editDistance(a, b) / Math.max(a.length, b.length);
+
+const playerNames = (player: Element) =>
+  [
+    player.web_name,
+    `${player.first_name} ${player.second_name}`,
+    player.second_name,
+  ].map(normalizeName);
+
+const firstValue = (row: Record<string, string>, columns: string[]) =>
+  columns.map((column) => row[column]).find((value) => value !== undefined && value !== "");
+
+/**
+ * Resolves import rows to FPL players by id, by name, or by team and name. Names are
+ * compared after normalizing and, failing an exact match, by edit-distance similarity;
+ * a fuzzy match is only accepted when it leads the runner-up by more than `MIN_MARGIN`.
+ */
+export class PlayerMatcher {
+  constructor(private players: Element[], private teams: Team[]) {}
+
+  match(row: Record<string, string>): { element?: number; reason?: string } {
+    const id = firstValue(row, ID_COLUMNS);
+    if (id !== undefined) {
+      const player = this.players.find((candidate) => candidate.id === Number(id));
+      return player ? { element: player.id } : { reason: `unknown player id ${id}` };
+    }
+
+    const name = firstValue(row, NAME_COLUMNS);
+    if (name === undefined) {
+      return { reason: "no id or name column" };
+    }
+
+    let candidates = this.players;
+    const teamName = firstValue(row, TEAM_COLUMNS);
+    if (teamName !== undefined) {
+      const team = this.findTeam(teamName);
+      if (!team) return { reason: `unknown team ${teamName}` };
+      candidates = candidates.filter((player) => player.team === team.id);
+    }
+
+    const wanted = normalizeName(name);
+    const scored = candidates
+      .map((player) => ({
+        player,
+        score: Math.max(...playerNames(player).map((known) => nameSimilarity(wanted, known))),
+      }))
+      .sort((a, b) => b.score - a.score);
+    const [best, runnerUp] = scored;
+
+    if (!best || best.score < MIN_SIMILARITY) {
+      return { reason: `no player matches ${name}` };
+    }
+    // An exact match is only ambiguous when another name matches exactly too
+    const margin = best.score === 1 ? 0 : MIN_MARGIN;
+    if (runnerUp && best.score - runnerUp.score <= margin) {
+      return { reason: `${name} matches several players; add a team or id column` };
+    }
+    return { element: best.player.id };
+  }
+
+  private findTeam(name: string): Team | undefined {
+    const wanted = normalizeName(name);
+    return this.teams.find(
+      (team) =>
+        String(team.id) === name ||
+        normalizeName(team.name) === wanted ||
+        normalizeName(team.short_name) === wanted
+    );
+  }
+}
+
+/**
+ * Converts a cell to a number or boolean where it looks like one. Empty cells are
+ * dropped.
+ */
+export function parseValue(value: string): ImportedValue | undefined {
+  if (value === "") return undefined;
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === "true";
+  const number = Number(value);
+  return Number.isFinite(number) ? number : value;
+}
+
+const IDENTIFYING_COLUMNS = [...ID_COLUMNS, ...NAME_COLUMNS, ...TEAM_COLUMNS];
+
+/**
+ * Imports per-player data maintained outside the FPL API, e.g. penalty and set-piece
+ * takers or third-party xG, into `external_player_data`. Re-importing a source replaces
+ * that source's rows for the season.
+ */
+export class PlayerDataImporter {
+  constructor(private storage: Storage) {}
+
+  /**
+   * @param source - Names the data set; defaults to the file name without extension.
+   */
+  async importFile(
+    file: string,
+    options: { source?: string; season?: string } = {}
+  ): Promise<ImportReport> {
+    const source = options.source ?? path.basename(file, path.extname(file));
+    return this.importRows(await readRows(file), source, options.season);
+  }
+
+  async importRows(
+    rows: Record<string, string>[],
+    source: string,
+    season?: string
+  ): Promise<ImportReport> {
+    const selected = season ?? (await getCurrentSeason(this.storage));
+    const players = await this.storage.collection("players").find({ season: selected });
+    const teams = await this.storage.collection("teams").find({ season: selected });
+    const matcher = new PlayerMatcher(players, teams);
+    const importedAt = new Date();
+
+    const documents = new Map<number, ExternalPlayerData>();
+    const unmatched: UnmatchedRow[] = [];
+    rows.forEach((row, index) => {
+      const { element, reason } = matcher.match(row);
+      if (element === undefined) {
+        unmatched.push({ row: index + 1, reason: reason ?? "unmatched", values: row });
+        return;
+      }
+      const values: Record<string, ImportedValue> = {};
+      for (const [column, cell] of Object.entries(row)) {
+        const value = parseValue(cell);
+        if (!IDENTIFYING_COLUMNS.includes(column) && value !== undefined) {
+          values[column] = value;
+        }
+      }
+      // A later row for the same player adds to, and overrides, an earlier one
+      const existing = documents.get(element);
+      documents.set(element, {
+        season: selected,
+        source,
+        element,
+        importedAt,
+        values: { ...existing?.values, ...values },
+      });
+    });
+
+    const collection = this.storage.collection("external_player_data");
+    await collection.deleteMany({ season: selected, source });
+    await collection.insertMany([...documents.values()]);
+
+    for (const row of unmatched) {
+      logger.info(`Row ${row.row} of ${source} not imported: ${row.reason}`);
+    }
+    logger.info(
+      `Imported ${documents.size} players from ${source} (${unmatched.length} of ${rows.length} rows unmatched)`
+    );
+    return {
+      source,
+      season: selected,
+      rows: rows.length,
+      matched: rows.length - unmatched.length,
+      unmatched,
+    };
+  }
+}
+
+/**
+ * Loads the imported values of every player in a season, merging sources in import
+ * order so the most recent import wins when two sources share a column.
+ */
+export async function loadExternalPlayerData(
+  storage: Storage,
+  season: string
+): Promise<Map<number, Record<string, ImportedValue>>> {
+  const documents = await storage
+    .collection("external_player_data")
+    .find({ season }, { sort: { importedAt: 1 } });
+  const merged = new Map<number, Record<string, ImportedValue>>();
+  for (const document of documents) {
+    merged.set(document.element, { ...merged.get(document.element), ...document.values });
+  }
+  return merged;
+}
+
+/**
+ * Turns imported values into player features named `external` plus the column in
+ * PascalCase, e.g. `penalty_order` becomes `externalPenaltyOrder`. Booleans become 1 or
+ * 0; text columns are left out, since every feature must be numeric.
+ */
+export function externalFeatures(
+  values: Record<string, ImportedValue> = {}
+): Record<string, number> {
+  const features: Record<string, number> = {};
+  for (const [column, value] of Object.entries(values)) {
+    if (typeof value === "string") continue;
+    const name = column
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part[0].toUpperCase() + part.slice(1))
+      .join("");
+    features[`external${name}`] = typeof value === "boolean" ? Number(value) : value;
+  }
+  return features;
+}
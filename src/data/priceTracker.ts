@@ -0,0 +1,209 @@
+import { Storage } from "../storage/storage";
+import { FPLApiService } from "../services/fplApiService";
+import { logger } from "../utils/logger";
+import { BootstrapStatic, Element } from "../models/fplTypes";
+import { seasonFromEvents, getCurrentSeason } from "./season";
+
+/**
+ * One player's price and transfer activity at the time of a daily snapshot, as stored
+ * in `price_snapshots` (one document per player per day).
+ */
+export interface PriceSnapshot {
+  season: string;
+  element: number;
+  event: number | null;
+  date: string;
+  takenAt: Date;
+  nowCost: number;
+  selectedByPercent: number;
+  transfersInEvent: number;
+  transfersOutEvent: number;
+}
+
+/**
+ * A player's estimated chance of a price rise or fall at the next price update.
+ * `progress` is the net transfers since the last price change as a fraction of the
+ * estimated threshold; positive towards a rise, negative towards a fall.
+ */
+export interface PriceChangeEstimate {
+  element: number;
+  webName?: string;
+  nowCost: number;
+  netTransfersSinceChange: number;
+  threshold: number;
+  progress: number;
+  riseProbability: number;
+  fallProbability: number;
+}
+
+export interface PriceChangeReport {
+  risers: PriceChangeEstimate[];
+  fallers: PriceChangeEstimate[];
+}
+
+/**
+ * Net transfers needed to move a price, as a fraction of the player's owners. The real
+ * thresholds are not published; this is a rough estimate that works across ownership levels.
+ */
+export const THRESHOLD_OWNER_FRACTION = 0.08;
+
+/**
+ * Floor on the threshold so barely-owned players do not move on a handful of transfers.
+ */
+export const MIN_THRESHOLD = 10000;
+
+/**
+ * Steepness of the logistic curve turning threshold progress into a probability.
+ */
+const PROBABILITY_STEEPNESS = 6;
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * The UTC calendar day of a date, e.g. `"2024-09-01"`.
+ */
+export const snapshotDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Builds the snapshot of every element in a bootstrap payload.
+ */
+export function createPriceSnapshots(
+  elements: Element[],
+  season: string,
+  event: number | null,
+  takenAt: Date
+): PriceSnapshot[] {
+  return elements.map((element) => ({
+    season,
+    element: element.id,
+    event,
+    date: snapshotDate(takenAt),
+    takenAt,
+    nowCost: element.now_cost,
+    selectedByPercent: parseFloat(element.selected_by_percent) || 0,
+    transfersInEvent: element.transfers_in_event,
+    transfersOutEvent: element.transfers_out_event,
+  }));
+}
+
+/**
+ * Sums a player's net transfers since their price last changed. The event transfer
+ * counters reset every gameweek, so each snapshot contributes the change since the
+ * previous snapshot of the same gameweek, or its full count at the start of a new one.
+ *
+ * @param snapshots - One player's snapshots, in any order.
+ * @returns The net transfers since the last change and those made since the previous snapshot.
+ */
+export function netTransfersSinceChange(snapshots: PriceSnapshot[]) {
+  const sorted = [...snapshots].sort(
+    (a, b) => a.takenAt.getTime() - b.takenAt.getTime()
+  );
+  let total = 0;
+  let latest = 0;
+  sorted.forEach((snapshot, index) => {
+    const net = snapshot.transfersInEvent - snapshot.transfersOutEvent;
+    const previous = sorted[index - 1];
+    const sameEvent = previous !== undefined && previous.event === snapshot.event;
+    latest = sameEvent
+      ? net - (previous.transfersInEvent - previous.transfersOutEvent)
+      : net;
+    // The transfers that triggered a price change do not count towards the next one
+    total = previous && previous.nowCost !== snapshot.nowCost ? 0 : total + latest;
+  });
+  return { total, latest };
+}
+
+/**
+ * Estimates a player's chance of rising or falling at the next price update from their
+ * net transfer momentum: the transfers accumulated since the last change plus another
+ * day at the latest rate, compared with a threshold proportional to ownership.
+ *
+ * @param snapshots - The player's snapshots of the season; must not be empty.
+ * @param totalPlayers - The number of FPL managers, from bootstrap `total_players`.
+ */
+export function estimatePriceChange(
+  snapshots: PriceSnapshot[],
+  totalPlayers: number
+): PriceChangeEstimate {
+  const latest = snapshots.reduce((a, b) => (b.takenAt > a.takenAt ? b : a));
+  const { total, latest: lastDay } = netTransfersSinceChange(snapshots);
+  const owners = (latest.selectedByPercent / 100) * totalPlayers;
+  const threshold = Math.max(MIN_THRESHOLD, owners * THRESHOLD_OWNER_FRACTION);
+  const progress = (total + lastDay) / threshold;
+  return {
+    element: latest.element,
+    nowCost: latest.nowCost,
+    netTransfersSinceChange: total,
+    threshold,
+    progress,
+    riseProbability:
+      progress > 0 ? logistic(PROBABILITY_STEEPNESS * (progress - 1)) : 0,
+    fallProbability:
+      progress < 0 ? logistic(PROBABILITY_STEEPNESS * (-progress - 1)) : 0,
+  };
+}
+
+/**
+ * Records daily price snapshots in `price_snapshots` and ranks likely risers and fallers.
+ */
+export class PriceTracker {
+  constructor(private storage: Storage) {}
+
+  /**
+   * Fetches the latest bootstrap data and stores today's snapshot of every player,
+   * replacing any snapshot already taken today.
+   *
+   * @returns The bootstrap data the snapshot was taken from.
+   */
+  async takeSnapshot(now: Date = new Date()): Promise<BootstrapStatic> {
+    const data = await FPLApiService.getBootstrapStatic();
+    const season =
+      seasonFromEvents(data.events) ?? (await getCurrentSeason(this.storage));
+    const event = data.events.find((e) => e.is_current)?.id ?? null;
+    const snapshots = createPriceSnapshots(data.elements, season, event, now);
+
+    const collection = this.storage.collection("price_snapshots");
+    await collection.createIndex({ season: 1, element: 1, date: 1 });
+    await collection.deleteMany({ season, date: snapshotDate(now) });
+    await collection.insertMany(snapshots);
+    logger.info(
+      `Price snapshot for ${snapshots[0]?.date ?? "today"} stored: ${snapshots.length} players`
+    );
+    return data;
+  }
+
+  /**
+   * Ranks the players most likely to rise and fall at the next price update.
+   *
+   * @param totalPlayers - The number of FPL managers, from bootstrap `total_players`.
+   * @param limit - The number of players in each list.
+   */
+  async priceChangeReport(totalPlayers: number, limit = 10): Promise<PriceChangeReport> {
+    const season = await getCurrentSeason(this.storage);
+    const snapshots = await this.storage.collection("price_snapshots").find({ season });
+    const players = await this.storage.collection("players").find({ season });
+    const names = new Map(players.map((player) => [player.id, player.web_name]));
+
+    const byElement = new Map<number, PriceSnapshot[]>();
+    for (const snapshot of snapshots) {
+      const list = byElement.get(snapshot.element) ?? [];
+      list.push(snapshot);
+      byElement.set(snapshot.element, list);
+    }
+    const estimates = [...byElement.values()].map((list) => {
+      const estimate = estimatePriceChange(list, totalPlayers);
+      return { ...estimate, webName: names.get(estimate.element) };
+    });
+
+    return {
+      risers: estimates
+        .filter((estimate) => estimate.riseProbability > 0)
+        .sort((a, b) => b.riseProbability - a.riseProbability)
+        .slice(0, limit),
+      fallers: estimates
+        .filter((estimate) => estimate.fallProbability > 0)
+        .sort((a, b) => b.fallProbability - a.fallProbability)
+        .slice(0, limit),
+    };
+  }
+}
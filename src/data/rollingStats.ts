@@ -0,0 +1,84 @@
+import { ElementHistory } from "../models/fplTypes";
+
+/**
+ * Per-game stats that rolling features can be computed over.
+ */
+export const ROLLING_STATS = {
+  points: (game: ElementHistory) => game.total_points || 0,
+  minutes: (game: ElementHistory) => game.minutes || 0,
+  xG: (game: ElementHistory) => parseFloat(game.expected_goals || "0"),
+  xA: (game: ElementHistory) => parseFloat(game.expected_assists || "0"),
+  bonus: (game: ElementHistory) => game.bonus || 0,
+  bps: (game: ElementHistory) => game.bps || 0,
+  ict: (game: ElementHistory) => parseFloat(game.ict_index || "0"),
+};
+
+export type RollingStat = keyof typeof ROLLING_STATS;
+
+/**
+ * One rolling feature: a stat averaged over the last `window` games, over every game with
+ * exponentially decaying weights that halve every `halfLife` games, or over the last
+ * `window` games with those weights.
+ */
+export interface RollingFeatureSpec {
+  stat: RollingStat;
+  window?: number;
+  halfLife?: number;
+  /** Divide by the minutes played in the same games instead of the game count. */
+  per90?: boolean;
+  /** Weight each game by the share of 90 minutes played, so cameos count less. */
+  minutesWeighted?: boolean;
+}
+
+/**
+ * Names the feature a spec produces, e.g. `pointsLast5`, `xGPer90Ewm3`,
+ * `pointsLast5Ewm3` or `bonusMinutesWeightedLast10`.
+ */
+export function rollingFeatureName(spec: RollingFeatureSpec): string {
+  const span =
+    (spec.window !== undefined ? `Last${spec.window}` : "") +
+    (spec.halfLife !== undefined ? `Ewm${String(spec.halfLife).replace(".", "_")}` : "");
+  return `${spec.stat}${spec.per90 ? "Per90" : ""}${spec.minutesWeighted ? "MinutesWeighted" : ""}${span}`;
+}
+
+/**
+ * Computes one rolling feature over a player's games, oldest first. A player without
+ * games, or without minutes for a per-90 or minutes-weighted feature, scores 0.
+ */
+export function rollingStat(history: ElementHistory[], spec: RollingFeatureSpec): number {
+  if (spec.window === undefined && spec.halfLife === undefined) {
+    throw new Error(`Rolling feature on ${spec.stat} needs a window or a half-life`);
+  }
+  const games = spec.window !== undefined ? history.slice(-spec.window) : history;
+  const value = ROLLING_STATS[spec.stat];
+
+  let weightedValues = 0;
+  let weights = 0;
+  let weightedMinutes = 0;
+  games.forEach((game, index) => {
+    const age = games.length - 1 - index;
+    let weight = spec.halfLife !== undefined ? Math.pow(0.5, age / spec.halfLife) : 1;
+    if (spec.minutesWeighted) weight *= Math.min(game.minutes || 0, 90) / 90;
+    weightedValues += weight * value(game);
+    weights += weight;
+    weightedMinutes += weight * (game.minutes || 0);
+  });
+
+  if (spec.per90) {
+    return weightedMinutes > 0 ? (weightedValues / weightedMinutes) * 90 : 0;
+  }
+  return weights > 0 ? weightedValues / weights : 0;
+}
+
+/**
+ * Computes every configured rolling feature over a player's games, keyed by
+ * `rollingFeatureName`.
+ */
+export function rollingFeatures(
+  history: ElementHistory[],
+  specs: RollingFeatureSpec[]
+): Record<string, number> {
+  return Object.fromEntries(
+    specs.map((spec) => [rollingFeatureName(spec), rollingStat(history, spec)])
+  );
+}
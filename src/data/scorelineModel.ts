@@ -0,0 +1,285 @@
+/**
+ * A finished match between two teams, as the scoreline model sees it.
+ */
+export interface MatchResult {
+  home: number;
+  away: number;
+  homeGoals: number;
+  awayGoals: number;
+}
+
+/**
+ * Fitted Dixon-Coles parameters. The home side's goals are Poisson with mean
+ * `attack[home] * defence[away] * homeAdvantage`, the away side's with mean
+ * `attack[away] * defence[home]`; `rho` corrects the frequency of 0-0, 1-0, 0-1 and 1-1.
+ * A team's attack is the goals it scores per match against an average defence on
+ * neutral ground; defences average 1, and one above 1 concedes more than average.
+ */
+export interface ScorelineModel {
+  attack: Record<number, number>;
+  defence: Record<number, number>;
+  homeAdvantage: number;
+  rho: number;
+  matches: number;
+}
+
+/**
+ * What a scoreline matrix implies about a fixture.
+ */
+export interface ScorelineForecast {
+  /** `probabilities[h][a]` is the chance of the home side scoring h and the away side a. */
+  probabilities: number[][];
+  homeWin: number;
+  draw: number;
+  awayWin: number;
+  expectedHomeGoals: number;
+  expectedAwayGoals: number;
+  /** Chance the home side keeps a clean sheet, i.e. the away side scores 0. */
+  cleanSheetHome: number;
+  cleanSheetAway: number;
+  mostLikelyScore: [number, number];
+}
+
+/** Scorelines up to this many goals per side are modelled; more is vanishingly rare. */
+export const MAX_GOALS = 10;
+
+/**
+ * Pseudo-matches of average attack and defence each team starts with, so teams with few
+ * games are pulled towards average rather than fitted to a handful of scores.
+ */
+const PRIOR_MATCHES = 3;
+
+/** Goals per side per match of an average Premier League fixture, used as the prior. */
+const PRIOR_GOALS_PER_SIDE = 1.4;
+
+const FIT_ITERATIONS = 100;
+
+const poisson = (goals: number, mean: number) => {
+  let probability = Math.exp(-mean);
+  for (let k = 1; k <= goals; k++) probability *= mean / k;
+  return probability;
+};
+
+/**
+ * The Dixon-Coles adjustment to the independent-Poisson probability of low scores.
+ */
+const tau = (
+  homeGoals: number,
+  awayGoals: number,
+  homeMean: number,
+  awayMean: number,
+  rho: number
+) => {
+  if (homeGoals === 0 && awayGoals === 0) return 1 - homeMean * awayMean * rho;
+  if (homeGoals === 0 && awayGoals === 1) return 1 + homeMean * rho;
+  if (homeGoals === 1 && awayGoals === 0) return 1 + awayMean * rho;
+  if (homeGoals === 1 && awayGoals === 1) return 1 - rho;
+  return 1;
+};
+
+/**
+ * Fits attack, defence and home advantage by maximum likelihood with Maher's iterative
+ * updates, then `rho` by a grid search over the Dixon-Coles likelihood.
+ *
+ * @param teams - Every team to rate, including any without matches yet.
+ */
+export function fitScorelineModel(
+  results: MatchResult[],
+  teams: number[]
+): ScorelineModel {
+  const attack = new Map(teams.map((team) => [team, PRIOR_GOALS_PER_SIDE]));
+  const defence = new Map(teams.map((team) => [team, 1]));
+  let homeAdvantage = 1;
+
+  const scored = new Map(teams.map((team) => [team, 0]));
+  const conceded = new Map(teams.map((team) => [team, 0]));
+  const add = (totals: Map<number, number>, team: number, value: number) =>
+    totals.set(team, (totals.get(team) ?? 0) + value);
+  let homeGoals = 0;
+  for (const match of results) {
+    add(scored, match.home, match.homeGoals);
+    add(scored, match.away, match.awayGoals);
+    add(conceded, match.home, match.awayGoals);
+    add(conceded, match.away, match.homeGoals);
+    homeGoals += match.homeGoals;
+  }
+
+  // Each team also plays PRIOR_MATCHES matches against an average opponent
+  const priorGoals = PRIOR_MATCHES * PRIOR_GOALS_PER_SIDE;
+  const attackOf = (team: number) => attack.get(team) ?? PRIOR_GOALS_PER_SIDE;
+  const defenceOf = (team: number) => defence.get(team) ?? 1;
+
+  // Updating attack, defence and home advantage in turn, each from the latest values of
+  // the others, converges where updating them all at once can oscillate
+  for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+    const attackExposure = new Map<number, number>();
+    for (const match of results) {
+      add(attackExposure, match.home, defenceOf(match.away) * homeAdvantage);
+      add(attackExposure, match.away, defenceOf(match.home));
+    }
+    for (const team of teams) {
+      const goalsFor = (scored.get(team) ?? 0) + priorGoals;
+      attack.set(team, goalsFor / ((attackExposure.get(team) ?? 0) + PRIOR_MATCHES));
+    }
+
+    const defenceExposure = new Map<number, number>();
+    for (const match of results) {
+      add(defenceExposure, match.home, attackOf(match.away));
+      add(defenceExposure, match.away, attackOf(match.home) * homeAdvantage);
+    }
+    for (const team of teams) {
+      const goalsAgainst = (conceded.get(team) ?? 0) + priorGoals;
+      defence.set(team, goalsAgainst / ((defenceExposure.get(team) ?? 0) + priorGoals));
+    }
+
+    // Attack and defence are only identified up to a common factor, so defences average 1
+    const meanDefence =
+      [...defence.values()].reduce((sum, value) => sum + value, 0) / (defence.size || 1);
+    for (const team of teams) {
+      defence.set(team, defenceOf(team) / meanDefence);
+      attack.set(team, attackOf(team) * meanDefence);
+    }
+
+    const homeExposure = results.reduce(
+      (sum, match) => sum + attackOf(match.home) * defenceOf(match.away),
+      0
+    );
+    homeAdvantage = (homeGoals + PRIOR_MATCHES) / (homeExposure + PRIOR_MATCHES);
+  }
+
+  const model: ScorelineModel = {
+    attack: Object.fromEntries(attack),
+    defence: Object.fromEntries(defence),
+    homeAdvantage,
+    rho: 0,
+    matches: results.length,
+  };
+  model.rho = fitRho(model, results);
+  return model;
+}
+
+/**
+ * The `rho` in [-0.2, 0.2] that maximises the likelihood of the results given the
+ * fitted goal means, kept small enough that every adjusted probability stays positive.
+ */
+function fitRho(model: ScorelineModel, results: MatchResult[]): number {
+  let best = { rho: 0, logLikelihood: -Infinity };
+  for (let step = -20; step <= 20; step++) {
+    const rho = step / 100;
+    let logLikelihood = 0;
+    for (const match of results) {
+      const { home, away } = goalMeans(model, match.home, match.away);
+      const adjustment = tau(match.homeGoals, match.awayGoals, home, away, rho);
+      if (adjustment <= 0) {
+        logLikelihood = -Infinity;
+        break;
+      }
+      logLikelihood += Math.log(adjustment);
+    }
+    if (logLikelihood > best.logLikelihood) best = { rho, logLikelihood };
+  }
+  return best.rho;
+}
+
+/**
+ * The goals each side is expected to score under the independent-Poisson part of the model.
+ * Teams the model has not seen are taken to be average.
+ */
+export function goalMeans(model: ScorelineModel, home: number, away: number) {
+  const attacks = Object.values(model.attack);
+  const averageAttack =
+    attacks.length > 0
+      ? attacks.reduce((sum, value) => sum + value, 0) / attacks.length
+      : PRIOR_GOALS_PER_SIDE;
+  const attack = (team: number) => model.attack[team] ?? averageAttack;
+  const defence = (team: number) => model.defence[team] ?? 1;
+  return {
+    home: attack(home) * defence(away) * model.homeAdvantage,
+    away: attack(away) * defence(home),
+  };
+}
+
+/**
+ * Builds the scoreline probability matrix of a fixture and the forecasts derived from it.
+ */
+export function forecastScoreline(
+  model: ScorelineModel,
+  home: number,
+  away: number
+): ScorelineForecast {
+  const means = goalMeans(model, home, away);
+  const probabilities: number[][] = [];
+  let total = 0;
+  for (let h = 0; h <= MAX_GOALS; h++) {
+    probabilities.push([]);
+    for (let a = 0; a <= MAX_GOALS; a++) {
+      const probability =
+        tau(h, a, means.home, means.away, model.rho) *
+        poisson(h, means.home) *
+        poisson(a, means.away);
+      probabilities[h].push(probability);
+      total += probability;
+    }
+  }
+
+  const forecast: ScorelineForecast = {
+    probabilities,
+    homeWin: 0,
+    draw: 0,
+    awayWin: 0,
+    expectedHomeGoals: 0,
+    expectedAwayGoals: 0,
+    cleanSheetHome: 0,
+    cleanSheetAway: 0,
+    mostLikelyScore: [0, 0],
+  };
+  for (let h = 0; h <= MAX_GOALS; h++) {
+    for (let a = 0; a <= MAX_GOALS; a++) {
+      // Normalise away the probability of scorelines beyond MAX_GOALS
+      const probability = (probabilities[h][a] /= total);
+      if (h > a) forecast.homeWin += probability;
+      else if (h === a) forecast.draw += probability;
+      else forecast.awayWin += probability;
+      forecast.expectedHomeGoals += h * probability;
+      forecast.expectedAwayGoals += a * probability;
+      if (a === 0) forecast.cleanSheetHome += probability;
+      if (h === 0) forecast.cleanSheetAway += probability;
+      const [bestH, bestA] = forecast.mostLikelyScore;
+      if (probability > probabilities[bestH][bestA]) forecast.mostLikelyScore = [h, a];
+    }
+  }
+  return forecast;
+}
+
+/**
+ * Fits one model per gameweek on the results of earlier gameweeks only, so a fixture's
+ * forecast never sees its own result. Each gameweek's model is fitted once and reused.
+ */
+export class ScorelineModels {
+  private fitted = new Map<number | null, ScorelineModel>();
+
+  /**
+   * @param results - Every finished match, with the gameweek it was played in.
+   * @param teams - Every team to rate.
+   */
+  constructor(
+    private results: (MatchResult & { event: number | null })[],
+    private teams: number[]
+  ) {}
+
+  /**
+   * @param event - The gameweek about to be played; null for a model of every result.
+   */
+  before(event: number | null): ScorelineModel {
+    let model = this.fitted.get(event);
+    if (!model) {
+      const earlier =
+        event === null
+          ? this.results
+          : this.results.filter((result) => result.event !== null && result.event < event);
+      model = fitScorelineModel(earlier, this.teams);
+      this.fitted.set(event, model);
+    }
+    return model;
+  }
+}
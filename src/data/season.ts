@@ -0,0 +1,159 @@
+import { Event } from "../models/fplTypes";
+import { CollectionName, CollectionTypes } from "../models/documents";
+import { Filter, Storage } from "../storage/storage";
+
+/**
+ * Collections whose documents are tagged with a `season` field, e.g. `"2024/25"`.
+ * Each run only replaces the documents of the season it works on, so earlier
+ * seasons stay queryable.
+ */
+export const SEASON_COLLECTIONS: CollectionName[] = [
+  "bootstrap_static",
+  "teams",
+  "players",
+  "gameweeks",
+  "elements_types",
+  "fixtures",
+  "player_summaries",
+  "gameweek_live",
+  "price_snapshots",
+  "availability_changes",
+  "external_player_data",
+  "fetch_state",
+  "managers",
+  "manager_history",
+  "manager_transfers",
+  "manager_picks",
+  "manager_squads",
+  "league_standings",
+  "rival_picks",
+  "processed_players",
+  "processed_fixtures",
+  "processed_teams",
+  "team_ratings",
+  "player_features",
+  "fixture_features",
+  "player_fixture_features",
+  "predictions",
+  "data_quality_reports",
+];
+
+/**
+ * Formats the season that starts in `startYear`, e.g. 2024 becomes `"2024/25"`.
+ */
+export const formatSeason = (startYear: number) =>
+  `${startYear}/${String((startYear + 1) % 100).padStart(2, "0")}`;
+
+/**
+ * The season a date falls in; seasons are taken to roll over on 1 July.
+ */
+export const seasonForDate = (date: Date) =>
+  formatSeason(date.getUTCMonth() >= 6 ? date.getUTCFullYear() : date.getUTCFullYear() - 1);
+
+/**
+ * Derives the season from the first gameweek's deadline.
+ */
+export function seasonFromEvents(events: Pick<Event, "id" | "deadline_time">[]): string | undefined {
+  const first = [...events].sort((a, b) => a.id - b.id)[0];
+  if (!first?.deadline_time) return undefined;
+  const deadline = new Date(first.deadline_time);
+  return Number.isNaN(deadline.getTime()) ? undefined : seasonForDate(deadline);
+}
+
+/**
+ * Returns the season the pipeline is currently working on: the one marked current in the
+ * `seasons` collection, else the one derived from the gameweeks of the newest season
+ * stored, else today's.
+ */
+export async function getCurrentSeason(storage: Storage): Promise<string> {
+  const current = await storage.collection("seasons").findOne({ current: true });
+  if (current?.id) return current.id;
+  const events = await storage.collection("gameweeks").find();
+  // Older seasons' gameweeks would otherwise decide the season by their deadlines
+  const latest = events
+    .map((event) => event.season)
+    .filter(Boolean)
+    .sort()
+    .pop();
+  return (
+    seasonFromEvents(events.filter((event) => event.season === latest)) ??
+    latest ??
+    seasonForDate(new Date())
+  );
+}
+
+/**
+ * Marks `season` as the current season in the `seasons` collection.
+ */
+export async function setCurrentSeason(storage: Storage, season: string) {
+  const seasons = storage.collection("seasons");
+  await seasons.updateMany({ id: { $ne: season } }, { $set: { current: false } });
+  await seasons.updateOne(
+    { id: season },
+    { $set: { id: season, current: true }, $setOnInsert: { createdAt: new Date() } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Lists every season known to the `seasons` collection, oldest first.
+ */
+export async function listSeasons(storage: Storage): Promise<string[]> {
+  const seasons = await storage.collection("seasons").find();
+  return seasons.map((season) => season.id).sort();
+}
+
+/**
+ * Creates a `{ season, id }` index on every season-tagged collection.
+ */
+export async function ensureSeasonIndexes(storage: Storage) {
+  for (const name of SEASON_COLLECTIONS) {
+    await storage.collection(name).createIndex({ season: 1, id: 1 });
+  }
+}
+
+/**
+ * Finds documents of one or more seasons, e.g. to build features or training data
+ * spanning several seasons.
+ */
+export async function findForSeasons<K extends CollectionName>(
+  storage: Storage,
+  collection: K,
+  seasons: string[],
+  filter: Filter<CollectionTypes[K]> = {}
+): Promise<CollectionTypes[K][]> {
+  return storage
+    .collection(collection)
+    .find({ ...filter, season: { $in: seasons } } as Filter<CollectionTypes[K]>);
+}
+
+/**
+ * Adds the season tag to each document.
+ */
+export const tagSeason = <T extends object>(documents: T[], season: string) =>
+  documents.map((document) => ({ ...document, season }));
+
+/**
+ * Snapshots every document of `season` into `archive_<collection>`, replacing any earlier
+ * snapshot of that season, and marks the season as archived.
+ *
+ * @returns The number of documents archived per collection.
+ */
+export async function archiveSeason(storage: Storage, season: string) {
+  const archivedAt = new Date();
+  const counts: Record<string, number> = {};
+  for (const name of SEASON_COLLECTIONS) {
+    // Archived copies are plain documents, so the collection is accessed untyped
+    const documents = await storage.collection(name as string).find({ season });
+    const archive = storage.collection(`archive_${name}`);
+    await archive.deleteMany({ season });
+    await archive.insertMany(
+      documents.map(({ _id, ...document }) => ({ ...document, archivedAt }))
+    );
+    counts[name] = documents.length;
+  }
+  await storage
+    .collection("seasons")
+    .updateOne({ id: season }, { $set: { id: season, archivedAt } }, { upsert: true });
+  return counts;
+}
@@ -0,0 +1,262 @@
+import { Storage } from "../storage/storage";
+import { ProcessedFixture, ProcessedTeam } from "../models/documents";
+import { logger } from "../utils/logger";
+import { getCurrentSeason } from "./season";
+
+/**
+ * A team's ratings after a gameweek, as stored in `team_ratings`. Gameweek 0 holds the
+ * starting ratings.
+ */
+export interface TeamRating {
+  season: string;
+  team: number;
+  event: number;
+  /** Result-based Elo rating. */
+  rating: number;
+  /** Goals-scored rating: higher scores more. */
+  attack: number;
+  /** Goals-conceded rating: higher concedes less. */
+  defence: number;
+  played: number;
+}
+
+export type RatingState = Omit<TeamRating, "season" | "team" | "event">;
+
+export const RATING_DEFAULTS = {
+  /** Rating of an average team. */
+  base: 1500,
+  /** Elo points added to the home side's rating. */
+  homeAdvantage: 60,
+  /** Result rating change per unit of surprise. */
+  kResult: 20,
+  /** Attack and defence rating change per goal more or fewer than expected. */
+  kGoals: 15,
+  /** Goals an average team scores against another on neutral ground. */
+  leagueGoals: 1.35,
+};
+
+export type RatingOptions = typeof RATING_DEFAULTS;
+
+/**
+ * What the ratings need of a team: its average static FPL strengths.
+ */
+export type RatedTeam = Pick<ProcessedTeam, "id"> & {
+  averageOverallStrength?: number;
+  averageAttackStrength?: number;
+  averageDefenceStrength?: number;
+};
+
+/**
+ * What the ratings need of a fixture: its sides and, once finished, its score.
+ */
+export type RatedFixture = Pick<ProcessedFixture, "id" | "event" | "teamH" | "teamA" | "finished"> & {
+  kickoffTime?: string | null;
+  teamHScore?: number | null;
+  teamAScore?: number | null;
+  homeGoals?: number;
+  awayGoals?: number;
+};
+
+/**
+ * The chance the home side wins, counting a draw as half, from their result ratings.
+ */
+export const homeWinExpectancy = (
+  home: RatingState,
+  away: RatingState,
+  options: RatingOptions = RATING_DEFAULTS
+) => 1 / (1 + Math.pow(10, -(home.rating + options.homeAdvantage - away.rating) / 400));
+
+/**
+ * Goals each side is expected to score from their attack and defence ratings. A 400
+ * point edge of attack over defence means ten times the league average.
+ */
+export function expectedGoals(
+  home: RatingState,
+  away: RatingState,
+  options: RatingOptions = RATING_DEFAULTS
+) {
+  const advantage = options.homeAdvantage / 2;
+  return {
+    home: options.leagueGoals * Math.pow(10, (home.attack + advantage - away.defence) / 400),
+    away: options.leagueGoals * Math.pow(10, (away.attack - advantage - home.defence) / 400),
+  };
+}
+
+/**
+ * Starting ratings from the static FPL strengths, centred on `base` so a team of
+ * average strength starts at `base`.
+ */
+export function initialRatings(
+  teams: RatedTeam[],
+  options: RatingOptions = RATING_DEFAULTS
+): Map<number, RatingState> {
+  const average = (field: Exclude<keyof RatedTeam, "id">) =>
+    teams.reduce((sum, team) => sum + (team[field] || 0), 0) / (teams.length || 1);
+  const overall = average("averageOverallStrength");
+  const attack = average("averageAttackStrength");
+  const defence = average("averageDefenceStrength");
+
+  return new Map(
+    teams.map((team) => [
+      team.id,
+      {
+        rating: options.base + ((team.averageOverallStrength || overall) - overall),
+        attack: options.base + ((team.averageAttackStrength || attack) - attack),
+        defence: options.base + ((team.averageDefenceStrength || defence) - defence),
+        played: 0,
+      },
+    ])
+  );
+}
+
+/**
+ * Walks the finished fixtures in kickoff order and updates both sides' ratings after
+ * each. The result rating moves by how surprising the result was, scaled up for wider
+ * margins; attack and defence move by the goals scored and conceded against the
+ * expectation. Returns every team's ratings after each gameweek, starting with
+ * gameweek 0, and the ratings after the last fixture.
+ */
+export function computeRatings(
+  teams: RatedTeam[],
+  fixtures: RatedFixture[],
+  season: string,
+  options: RatingOptions = RATING_DEFAULTS
+): { history: TeamRating[]; current: Map<number, RatingState> } {
+  const ratings = initialRatings(teams, options);
+  const played = fixtures
+    .filter((fixture) => fixture.finished && fixture.event != null)
+    .sort(
+      (a, b) =>
+        (a.kickoffTime ?? "").localeCompare(b.kickoffTime ?? "") || a.id - b.id
+    );
+
+  const snapshot = (event: number) =>
+    [...ratings].map(([team, state]) => ({ season, team, event, ...state }));
+  const history: TeamRating[] = snapshot(0);
+
+  let event = played[0]?.event ?? 0;
+  for (const fixture of played) {
+    // A fixture rearranged into an earlier gameweek's slot counts towards the current one
+    if ((fixture.event as number) > event) {
+      history.push(...snapshot(event));
+      event = fixture.event as number;
+    }
+    const home = ratings.get(fixture.teamH);
+    const away = ratings.get(fixture.teamA);
+    if (!home || !away) continue;
+
+    const homeGoals = fixture.teamHScore ?? fixture.homeGoals ?? 0;
+    const awayGoals = fixture.teamAScore ?? fixture.awayGoals ?? 0;
+    const result = homeGoals > awayGoals ? 1 : homeGoals < awayGoals ? 0 : 0.5;
+    const margin = Math.log(Math.abs(homeGoals - awayGoals) + 1) + 1;
+    const change = options.kResult * margin * (result - homeWinExpectancy(home, away, options));
+    const expected = expectedGoals(home, away, options);
+
+    ratings.set(fixture.teamH, {
+      rating: home.rating + change,
+      attack: home.attack + options.kGoals * (homeGoals - expected.home),
+      defence: home.defence - options.kGoals * (awayGoals - expected.away),
+      played: home.played + 1,
+    });
+    ratings.set(fixture.teamA, {
+      rating: away.rating - change,
+      attack: away.attack + options.kGoals * (awayGoals - expected.away),
+      defence: away.defence - options.kGoals * (homeGoals - expected.home),
+      played: away.played + 1,
+    });
+  }
+  if (played.length > 0) {
+    history.push(...snapshot(event));
+  }
+
+  return { history, current: ratings };
+}
+
+/**
+ * Looks up each team's ratings as they stood before a gameweek, i.e. after the latest
+ * earlier gameweek in the history.
+ */
+export class RatingHistory {
+  private byTeam = new Map<number, TeamRating[]>();
+
+  constructor(history: TeamRating[]) {
+    for (const rating of [...history].sort((a, b) => a.event - b.event)) {
+      const ratings = this.byTeam.get(rating.team) ?? [];
+      ratings.push(rating);
+      this.byTeam.set(rating.team, ratings);
+    }
+  }
+
+  /**
+   * @param event - The gameweek about to be played; null for the latest ratings.
+   */
+  before(team: number, event: number | null): TeamRating | undefined {
+    const ratings = this.byTeam.get(team) ?? [];
+    const earlier =
+      event === null ? ratings : ratings.filter((rating) => rating.event < event);
+    return earlier[earlier.length - 1];
+  }
+}
+
+/**
+ * The Elo features of a fixture from both sides' ratings before its gameweek, or nulls
+ * when either side has no ratings.
+ */
+export function ratingFeatures(
+  ratings: RatingHistory,
+  homeTeamId: number,
+  awayTeamId: number,
+  event: number | null,
+  options: RatingOptions = RATING_DEFAULTS
+) {
+  const home = ratings.before(homeTeamId, event);
+  const away = ratings.before(awayTeamId, event);
+  const goals = home && away ? expectedGoals(home, away, options) : undefined;
+  return {
+    homeElo: home?.rating ?? null,
+    awayElo: away?.rating ?? null,
+    eloDifference: home && away ? home.rating - away.rating : null,
+    homeEloAttack: home?.attack ?? null,
+    awayEloAttack: away?.attack ?? null,
+    homeEloDefence: home?.defence ?? null,
+    awayEloDefence: away?.defence ?? null,
+    eloHomeWinExpectancy: home && away ? homeWinExpectancy(home, away, options) : null,
+    eloExpectedHomeGoals: goals?.home ?? null,
+    eloExpectedAwayGoals: goals?.away ?? null,
+  };
+}
+
+/**
+ * Maintains the `team_ratings` collection from the processed fixtures of a season.
+ */
+export class TeamRatings {
+  constructor(
+    private storage: Storage,
+    private options: RatingOptions = RATING_DEFAULTS
+  ) {}
+
+  /**
+   * Recomputes the season's rating history from scratch and stores it.
+   */
+  async update(season?: string): Promise<TeamRating[]> {
+    const selected = season ?? (await getCurrentSeason(this.storage));
+    const teams = await this.storage.collection("processed_teams").find({ season: selected });
+    const fixtures = await this.storage
+      .collection("processed_fixtures")
+      .find({ season: selected });
+    const { history } = computeRatings(teams, fixtures, selected, this.options);
+
+    const collection = this.storage.collection("team_ratings");
+    await collection.deleteMany({ season: selected });
+    await collection.insertMany(history);
+    logger.info(`Team ratings updated for ${teams.length} teams`);
+    return history;
+  }
+
+  async history(season?: string): Promise<RatingHistory> {
+    const selected = season ?? (await getCurrentSeason(this.storage));
+    return new RatingHistory(
+      await this.storage.collection("team_ratings").find({ season: selected })
+    );
+  }
+}
@@ -1,14 +1,56 @@
 import { connectToDatabase } from "./config/database";
 import { FPLDataCollector } from "./data/dataCollector";
+import { LeagueCollector } from "./data/leagueCollector";
 import { DataProcessor } from "./data/dataProcessor";
 import { FeatureEngineer } from "./data/featureEngineer";
+import { DataQualityValidator } from "./data/dataQuality";
 import { DatasetCreator } from "./ml/datasetCreator";
 import { ModelTrainer } from "./ml/modelTrainer";
 import { Predictor } from "./ml/predictor";
 import { logger } from "./utils/logger";
+import { flagValue, hasFlag } from "./utils/cliArgs";
+import { FPLApiService } from "./services/fplApiService";
+import { RecordingTransport, ReplayTransport } from "./services/transports";
+import { MongoStorage } from "./storage/mongoStorage";
+import { qualityConfig } from "./config/quality";
 
 /**
- * The main entry point of the application. This function:
+ * Selects the FPL API transport from the command line:
+ * `--record <dir>` stores every response in `dir`, `--replay <dir>` serves responses from
+ * `dir` without network access, optionally frozen at `--snapshot-at <ISO timestamp>`.
+ * Throws if the timestamp cannot be parsed.
+ */
+function configureTransport() {
+  const recordDir = flagValue("record") || process.env.FPL_RECORD_DIR;
+  const replayDir = flagValue("replay") || process.env.FPL_REPLAY_DIR;
+  const snapshotFlag = flagValue("snapshot-at");
+  const snapshotAt = snapshotFlag !== undefined ? new Date(snapshotFlag) : undefined;
+  if (snapshotAt && Number.isNaN(snapshotAt.getTime())) {
+    throw new Error(
+      `Invalid --snapshot-at "${snapshotFlag}"; expected an ISO timestamp such as 2024-08-16T17:30:00Z`
+    );
+  }
+
+  if (replayDir) {
+    FPLApiService.useTransport(new ReplayTransport(replayDir, snapshotAt));
+    logger.info(`Replaying FPL API responses from ${replayDir}`);
+  } else if (recordDir) {
+    FPLApiService.useTransport(
+      new RecordingTransport(FPLApiService.createRequester(), recordDir)
+    );
+    logger.info(`Recording FPL API responses to ${recordDir}`);
+  }
+}
+
+/**
+ * The main entry point of the application. Pass `--full` to re-fetch every player summary
+ * and gameweek instead of only what changed since the last run, and `--record`/`--replay`
+ * to run against a snapshot on disk (see `configureTransport`). Pass `--entry <id>` (or set
+ * `FPL_ENTRY_ID`) to also collect that manager's squad, and `--leagues <id,id>` (or
+ * `FPL_LEAGUE_IDS`) to collect mini-league standings and rival picks. The collected data and
+ * the engineered features are checked for quality; pass `--fail-on-quality` (or set
+ * `FPL_QUALITY_FAIL=true`) to stop when a threshold in `qualityConfig` is exceeded.
+ * This function:
  * 1. Connects to the MongoDB database.
  * 2. Checks if the required data collections exist in the database.
  * 3. If the data does not exist, it fetches and processes the data.
@@ -17,26 +59,49 @@ import { logger } from "./utils/logger";
  * 6. Disconnects from the MongoDB database.
  */
 async function main() {
+  const full = hasFlag("full");
+  const failOnThresholds = hasFlag("fail-on-quality") || qualityConfig.failOnThresholds;
+
   try {
+    configureTransport();
     const mongoClient = await connectToDatabase();
     logger.info("Connected to MongoDB");
+    const storage = new MongoStorage(mongoClient);
+
+    const validator = new DataQualityValidator(storage, {
+      ...qualityConfig,
+      failOnThresholds,
+    });
+
+    const collector = new FPLDataCollector(storage);
+    await collector.fetchAllData({ full });
+    await validator.checkCollection();
+
+    const entryId = flagValue("entry") || process.env.FPL_ENTRY_ID;
+    if (entryId) {
+      await collector.fetchAndStoreManager(Number(entryId));
+    }
 
-    const collector = new FPLDataCollector(mongoClient);
-    await collector.fetchAllData();
+    const leagueIds = flagValue("leagues") || process.env.FPL_LEAGUE_IDS;
+    if (leagueIds) {
+      const leagueCollector = new LeagueCollector(storage);
+      await leagueCollector.fetchLeagues(leagueIds.split(",").map(Number));
+    }
 
-    const processor = new DataProcessor(mongoClient);
+    const processor = new DataProcessor(storage);
     await processor.processData();
 
-    const featureEngineer = new FeatureEngineer(mongoClient);
+    const featureEngineer = new FeatureEngineer(storage);
     await featureEngineer.engineerFeatures();
+    await validator.checkFeatures();
 
-    //   const datasetCreator = new DatasetCreator(mongoClient);
+    //   const datasetCreator = new DatasetCreator(storage);
     //   await datasetCreator.createTrainingDataset();
 
-    //   const modelTrainer = new ModelTrainer(mongoClient);
+    //   const modelTrainer = new ModelTrainer(storage);
     //   await modelTrainer.trainModel();
 
-    //   const predictor = new Predictor(mongoClient);
+    //   const predictor = new Predictor(storage);
     //   await predictor.loadModel();
 
     //   // Example usage
@@ -50,6 +115,7 @@ async function main() {
     logger.info("Disconnected from MongoDB");
   } catch (error) {
     logger.error("An error occurred:", error);
+    process.exitCode = 1;
   }
 }
 
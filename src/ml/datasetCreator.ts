@@ -1,42 +1,53 @@
-import { MongoClient, Db } from 'mongodb';
+import { Storage } from '../storage/storage';
 import { logger } from '../utils/logger';
+import { TrainingExample } from '../models/documents';
+import { findForSeasons, getCurrentSeason } from '../data/season';
+import { buildGameweekRows } from './gameweekDataset';
+import { missingFeatures } from './featureRegistry';
 
 /**
- * The `DatasetCreator` class is responsible for creating a training dataset by combining player and fixture data from the database.
+ * The `DatasetCreator` class is responsible for creating the training dataset from the collected player history.
  *
- * The `createTrainingDataset` method retrieves player and fixture feature data from the database, combines them into a training dataset, and stores the dataset in the `training_dataset` collection.
- *
- * The `combinePlayerAndFixtureData` method is a private helper method that generates the training data by iterating over the player and fixture features and creating a combined data point for each combination.
+ * The `createTrainingDataset` method builds one row per player per played fixture of each selected season (see `buildGameweekRows`) and stores the rows in the `training_dataset` collection.
  */
 export class DatasetCreator {
-  private db: Db;
-
   /**
-   * Initializes the database connection for the `DatasetCreator` class.
+   * Initializes the storage used by the `DatasetCreator` class.
    *
-   * @param mongoClient - The MongoDB client instance used to connect to the database.
+   * @param storage - The storage holding the pipeline's collections.
    */
-  constructor(private mongoClient: MongoClient) {
-      this.db = this.mongoClient.db();
-  }
+  constructor(private storage: Storage) {}
 
   /**
-   * Creates a training dataset by combining player and fixture feature data from the database.
+   * Creates a training dataset from the stored player summaries, teams and fixtures.
    *
-   * This method retrieves the player and fixture feature data from the database, combines them into a training dataset, and stores the dataset in the `training_dataset` collection.
+   * Each row describes one player in one played fixture using only what was known before that gameweek's deadline, labelled with the player's real `total_points`. Rows carry `season` and `gameweek` so the trainer can split by time. The dataset replaces the contents of the `training_dataset` collection.
    *
+   * @param seasons - The seasons to build the dataset from, e.g. `['2023/24', '2024/25']`; defaults to the current season.
    * @returns The generated training dataset.
    */
-  async createTrainingDataset() {
+  async createTrainingDataset(seasons?: string[]) {
     logger.info('Creating training dataset...');
-    const playerFeaturesCollection = this.db.collection('player_features');
-    const fixtureFeaturesCollection = this.db.collection('fixture_features');
-    const trainingDatasetCollection = this.db.collection('training_dataset');
-
-    const playerFeatures = await playerFeaturesCollection.find({}).toArray();
-    const fixtureFeatures = await fixtureFeaturesCollection.find({}).toArray();
-
-    const trainingData = this.combinePlayerAndFixtureData(playerFeatures, fixtureFeatures);
+    const trainingDatasetCollection = this.storage.collection('training_dataset');
+    const selectedSeasons = seasons ?? [await getCurrentSeason(this.storage)];
+
+    const trainingData: TrainingExample[] = [];
+    for (const season of selectedSeasons) {
+      const rows = buildGameweekRows({
+        season,
+        summaries: await findForSeasons(this.storage, 'player_summaries', [season]),
+        players: await findForSeasons(this.storage, 'players', [season]),
+        elementTypes: await findForSeasons(this.storage, 'elements_types', [season]),
+        teams: await findForSeasons(this.storage, 'teams', [season]),
+        fixtures: await findForSeasons(this.storage, 'fixtures', [season])
+      });
+      logger.info(`Built ${rows.length} training rows for season ${season}`);
+      const missing = rows.length > 0 ? missingFeatures(rows[0]) : [];
+      if (missing.length > 0) {
+        throw new Error(`Training rows lack registered features: ${missing.join(', ')}`);
+      }
+      trainingData.push(...rows);
+    }
 
     await trainingDatasetCollection.deleteMany({});
     await trainingDatasetCollection.insertMany(trainingData);
@@ -44,39 +55,4 @@ export class DatasetCreator {
 
     return trainingData;
   }
-
-  /**
-   * Combines player and fixture feature data to create a training dataset.
-   *
-   * This private helper method iterates over the player and fixture feature data, and generates a combined data point for each combination of player and fixture. The resulting training data points include various features extracted from the player and fixture data, as well as a placeholder for the target variable (actual points).
-   *
-   * @param playerFeatures - An array of player feature data objects.
-   * @param fixtureFeatures - An array of fixture feature data objects.
-   * @returns An array of training data points, where each data point is an object containing the combined player and fixture features.
-   */
-  private combinePlayerAndFixtureData(playerFeatures: any[], fixtureFeatures: any[]) {
-    const trainingData = [];
-
-    for (const player of playerFeatures) {
-      for (const fixture of fixtureFeatures) {
-        trainingData.push({
-          playerId: player.id,
-          fixtureId: fixture.id,
-          recentFormScore: player.recentFormScore,
-          pricePerformanceRatio: player.pricePerformanceRatio,
-          consistencyScore: player.consistencyScore,
-          upcomingFixtureDifficulty: player.upcomingFixtureDifficulty,
-          homeTeamStrength: fixture.homeTeamStrength,
-          awayTeamStrength: fixture.awayTeamStrength,
-          strengthDifference: fixture.strengthDifference,
-          expectedGoals: fixture.expectedGoals,
-          // Add more features as needed
-          // Target variable (you may need to adjust this based on your actual data)
-          actualPoints: Math.random() * 20 // This is a placeholder, replace with actual points data
-        });
-      }
-    }
-
-    return trainingData;
-  }
-}
\ No newline at end of file
+}
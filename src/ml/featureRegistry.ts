@@ -0,0 +1,435 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Where a feature is read from at prediction time: the `player_features`,
+ * `fixture_features` or `player_fixture_features` document of the player and fixture.
+ */
+export type FeatureSource = 'player' | 'fixture' | 'playerFixture';
+
+/**
+ * How `FeaturePreprocessor` scales a numeric feature: standardised to zero mean and unit
+ * variance, min-max scaled to [0, 1], or log-transformed (`log(1 + x)`).
+ */
+export type Scaling = 'standard' | 'minmax' | 'log' | 'none';
+
+export interface FeatureDefinition {
+  /** The feature's name, also its column in `training_dataset`. */
+  name: string;
+  source: FeatureSource;
+  /** The field of the source document, when it differs from `name`. */
+  field?: string;
+  /** Categories are ids, e.g. a position or team, and are one-hot encoded. */
+  type: 'number' | 'boolean' | 'category';
+  /** Scaling of a numeric feature; defaults to `'standard'`. */
+  scaling?: Scaling;
+  /** Used when the value is missing, null, NaN or infinite and no training data says otherwise. */
+  default: number;
+  /** Bump when the feature's meaning or computation changes, so older models are rejected. */
+  version: number;
+  description: string;
+}
+
+/**
+ * The model's inputs, in input order. Training, prediction and the training dataset
+ * all read this list, so a feature is added or changed here only.
+ */
+export const FEATURES: FeatureDefinition[] = [
+  {
+    name: 'recentFormScore',
+    source: 'player',
+    type: 'number',
+    default: 0,
+    version: 1,
+    description: 'Average points over the last 5 games'
+  },
+  {
+    name: 'pricePerformanceRatio',
+    source: 'player',
+    type: 'number',
+    scaling: 'log',
+    default: 0,
+    version: 1,
+    description: 'Season points per tenth of a million of price'
+  },
+  {
+    name: 'consistencyScore',
+    source: 'player',
+    type: 'number',
+    default: 0,
+    version: 1,
+    description: 'Standard deviation of points per game'
+  },
+  {
+    name: 'upcomingFixtureDifficulty',
+    source: 'playerFixture',
+    field: 'fixtureDifficulty',
+    type: 'number',
+    scaling: 'minmax',
+    default: 3,
+    version: 2,
+    description: "FPL difficulty of the fixture for the player's team, 1 to 5"
+  },
+  {
+    name: 'wasHome',
+    source: 'playerFixture',
+    type: 'boolean',
+    default: 0,
+    version: 1,
+    description: 'Whether the player is at home'
+  },
+  {
+    name: 'opponentTierRank',
+    source: 'playerFixture',
+    type: 'number',
+    scaling: 'minmax',
+    default: 2,
+    version: 1,
+    description: 'Strength tier of the opponent: 1 top six, 2 middle, 3 bottom'
+  },
+  {
+    name: 'pointsPer90VsOpponent',
+    source: 'playerFixture',
+    type: 'number',
+    default: 0,
+    version: 1,
+    description: 'Points per 90 minutes in earlier games against the same opponent'
+  },
+  {
+    name: 'gamesVsOpponent',
+    source: 'playerFixture',
+    type: 'number',
+    scaling: 'log',
+    default: 0,
+    version: 1,
+    description: 'Earlier games against the same opponent'
+  },
+  {
+    name: 'pointsPer90VsTier',
+    source: 'playerFixture',
+    type: 'number',
+    default: 0,
+    version: 1,
+    description: "Points per 90 minutes in earlier games against the opponent's tier"
+  },
+  {
+    name: 'gamesVsTier',
+    source: 'playerFixture',
+    type: 'number',
+    scaling: 'log',
+    default: 0,
+    version: 1,
+    description: "Earlier games against the opponent's tier"
+  },
+  {
+    name: 'pointsPer90AtVenue',
+    source: 'playerFixture',
+    type: 'number',
+    default: 0,
+    version: 1,
+    description: 'Points per 90 minutes in earlier games at the same venue'
+  },
+  {
+    name: 'gamesAtVenue',
+    source: 'playerFixture',
+    type: 'number',
+    scaling: 'log',
+    default: 0,
+    version: 1,
+    description: 'Earlier games at the same venue'
+  },
+  {
+    name: 'pointsPer90VsTierAtVenue',
+    source: 'playerFixture',
+    type: 'number',
+    default: 0,
+    version: 1,
+    description: "Points per 90 minutes in earlier games against the opponent's tier at the same venue"
+  },
+  {
+    name: 'gamesVsTierAtVenue',
+    source: 'playerFixture',
+    type: 'number',
+    scaling: 'log',
+    default: 0,
+    version: 1,
+    description: "Earlier games against the opponent's tier at the same venue"
+  },
+  {
+    name: 'homeTeamStrength',
+    source: 'fixture',
+    type: 'number',
+    default: 0,
+    version: 1,
+    description: 'FPL strength rating of the home team'
+  },
+  {
+    name: 'awayTeamStrength',
+    source: 'fixture',
+    type: 'number',
+    default: 0,
+    version: 1,
+    description: 'FPL strength rating of the away team'
+  },
+  {
+    name: 'strengthDifference',
+    source: 'fixture',
+    type: 'number',
+    default: 0,
+    version: 1,
+    description: 'Home minus away strength rating'
+  },
+  {
+    name: 'homeElo',
+    source: 'fixture',
+    type: 'number',
+    default: 1500,
+    version: 1,
+    description: 'Result-based Elo rating of the home team before the gameweek'
+  },
+  {
+    name: 'awayElo',
+    source: 'fixture',
+    type: 'number',
+    default: 1500,
+    version: 1,
+    description: 'Result-based Elo rating of the away team before the gameweek'
+  },
+  {
+    name: 'eloDifference',
+    source: 'fixture',
+    type: 'number',
+    default: 0,
+    version: 1,
+    description: 'Home minus away Elo rating'
+  },
+  {
+    name: 'homeEloAttack',
+    source: 'fixture',
+    type: 'number',
+    default: 1500,
+    version: 1,
+    description: 'Goals-scored rating of the home team'
+  },
+  {
+    name: 'awayEloAttack',
+    source: 'fixture',
+    type: 'number',
+    default: 1500,
+    version: 1,
+    description: 'Goals-scored rating of the away team'
+  },
+  {
+    name: 'homeEloDefence',
+    source: 'fixture',
+    type: 'number',
+    default: 1500,
+    version: 1,
+    description: 'Goals-conceded rating of the home team; higher concedes less'
+  },
+  {
+    name: 'awayEloDefence',
+    source: 'fixture',
+    type: 'number',
+    default: 1500,
+    version: 1,
+    description: 'Goals-conceded rating of the away team; higher concedes less'
+  },
+  {
+    name: 'eloHomeWinExpectancy',
+    source: 'fixture',
+    type: 'number',
+    scaling: 'minmax',
+    default: 0.5,
+    version: 1,
+    description: 'Chance the home team wins, counting a draw as half, from the Elo ratings'
+  },
+  {
+    name: 'eloExpectedHomeGoals',
+    source: 'fixture',
+    type: 'number',
+    scaling: 'log',
+    default: 1.35,
+    version: 1,
+    description: 'Goals the home team is expected to score from the attack and defence ratings'
+  },
+  {
+    name: 'eloExpectedAwayGoals',
+    source: 'fixture',
+    type: 'number',
+    scaling: 'log',
+    default: 1.35,
+    version: 1,
+    description: 'Goals the away team is expected to score from the attack and defence ratings'
+  },
+  {
+    name: 'expectedGoals',
+    source: 'fixture',
+    type: 'number',
+    scaling: 'log',
+    default: 2.5,
+    version: 2,
+    description: 'Total goals expected from the scoreline model fitted on earlier results'
+  },
+  {
+    name: 'expectedPoints',
+    source: 'playerFixture',
+    type: 'number',
+    default: 2,
+    version: 1,
+    description: 'Points expected from the official scoring rules and per-event probabilities'
+  },
+  {
+    name: 'probabilityUnder60',
+    source: 'playerFixture',
+    type: 'number',
+    default: 0.1,
+    version: 1,
+    description: 'Chance of playing under 60 minutes, from the minutes model'
+  },
+  {
+    name: 'probability60Plus',
+    source: 'playerFixture',
+    type: 'number',
+    default: 0.5,
+    version: 1,
+    description: 'Chance of playing 60 minutes or more, from the minutes model'
+  },
+  {
+    name: 'elementType',
+    source: 'player',
+    type: 'category',
+    default: 0,
+    version: 1,
+    description: 'Position: 1 goalkeeper, 2 defender, 3 midfielder, 4 forward'
+  },
+  {
+    name: 'teamId',
+    source: 'player',
+    field: 'team',
+    type: 'category',
+    default: 0,
+    version: 1,
+    description: "The player's team"
+  }
+];
+
+/**
+ * The feature list stored next to a trained model, as `features.json`.
+ */
+export interface FeatureManifest {
+  features: Omit<FeatureDefinition, 'description'>[];
+  savedAt: string;
+}
+
+export const FEATURE_MANIFEST_FILE = 'features.json';
+
+/**
+ * Thrown when a saved model was trained on a different feature list than the registry's.
+ */
+export class FeatureMismatchError extends Error {
+  constructor(public differences: string[]) {
+    super(`Model features do not match the feature registry: ${differences.join('; ')}. Retrain the model.`);
+    this.name = 'FeatureMismatchError';
+  }
+}
+
+/** A feature's value, or null when it is missing, NaN or infinite. */
+export type RawValue = number | null;
+
+const toRaw = (value: unknown): RawValue => {
+  const number = typeof value === 'boolean' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const withDefaults = (values: RawValue[], features: FeatureDefinition[]) =>
+  values.map((value, index) => value ?? features[index].default);
+
+/**
+ * Reads the features of a flat training row, whose columns are named after the features.
+ */
+export function rawTrainingValues(row: Record<string, unknown>, features: FeatureDefinition[] = FEATURES): RawValue[] {
+  return features.map((feature) => toRaw(row[feature.name]));
+}
+
+/**
+ * Reads the features of a player and fixture from their stored feature documents.
+ */
+export function rawFeatureValues(
+  sources: Partial<Record<FeatureSource, Record<string, unknown> | null>>,
+  features: FeatureDefinition[] = FEATURES
+): RawValue[] {
+  return features.map((feature) => toRaw(sources[feature.source]?.[feature.field ?? feature.name]));
+}
+
+/**
+ * Like `rawTrainingValues`, with missing values replaced by each feature's default.
+ */
+export const trainingVector = (row: Record<string, unknown>, features: FeatureDefinition[] = FEATURES) =>
+  withDefaults(rawTrainingValues(row, features), features);
+
+/**
+ * Like `rawFeatureValues`, with missing documents or values replaced by each feature's default.
+ */
+export const featureVector = (
+  sources: Partial<Record<FeatureSource, Record<string, unknown> | null>>,
+  features: FeatureDefinition[] = FEATURES
+) => withDefaults(rawFeatureValues(sources, features), features);
+
+/**
+ * Lists the registered features that a set of training rows lacks.
+ */
+export const missingFeatures = (row: Record<string, unknown>, features: FeatureDefinition[] = FEATURES) =>
+  features.filter((feature) => !(feature.name in row)).map((feature) => feature.name);
+
+/**
+ * Writes the feature list a model was trained on into the model's directory.
+ */
+export function writeFeatureManifest(modelDir: string, features: FeatureDefinition[] = FEATURES) {
+  const manifest: FeatureManifest = {
+    features: features.map(({ description, ...feature }) => feature),
+    savedAt: new Date().toISOString()
+  };
+  fs.writeFileSync(path.join(modelDir, FEATURE_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+}
+
+export function readFeatureManifest(modelDir: string): FeatureManifest | undefined {
+  const file = path.join(modelDir, FEATURE_MANIFEST_FILE);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : undefined;
+}
+
+/**
+ * Throws a `FeatureMismatchError` unless the model's saved feature list matches the
+ * registry in order, name, source, field, type, scaling, version and default.
+ */
+export function assertFeaturesMatch(manifest: FeatureManifest | undefined, features: FeatureDefinition[] = FEATURES) {
+  if (!manifest) {
+    throw new FeatureMismatchError([`the model has no ${FEATURE_MANIFEST_FILE}`]);
+  }
+
+  const differences: string[] = [];
+  if (manifest.features.length !== features.length) {
+    differences.push(`the model has ${manifest.features.length} features, the registry ${features.length}`);
+  }
+  features.forEach((feature, index) => {
+    const saved = manifest.features[index];
+    if (!saved) return;
+    if (saved.name !== feature.name) {
+      differences.push(`input ${index} is ${saved.name} in the model but ${feature.name} in the registry`);
+    } else if (saved.version !== feature.version) {
+      differences.push(`${feature.name} is version ${saved.version} in the model but ${feature.version} in the registry`);
+    } else if (
+      saved.source !== feature.source ||
+      saved.field !== feature.field ||
+      saved.type !== feature.type ||
+      saved.scaling !== feature.scaling ||
+      saved.default !== feature.default
+    ) {
+      differences.push(`${feature.name} changed source, field, type, scaling or default without a version bump`);
+    }
+  });
+
+  if (differences.length > 0) {
+    throw new FeatureMismatchError(differences);
+  }
+}
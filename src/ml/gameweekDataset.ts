@@ -0,0 +1,246 @@
+import { Element, ElementHistory, ElementType, Fixture, Team } from '../models/fplTypes';
+import { CollectionTypes, TrainingExample } from '../models/documents';
+import { ScorelineModels, forecastScoreline } from '../data/scorelineModel';
+import { ScoringRules, fixtureOutlook, projectPoints, scoringRules } from '../data/expectedPoints';
+import { MinutesModels, minutesRows, positionPlaces, predictMinutes } from '../data/minutesModel';
+import { StrengthTier, playerFixtureFeatures, strengthTiers } from '../data/opponentFeatures';
+import { RatingHistory, computeRatings, ratingFeatures } from '../data/teamRatings';
+
+type PlayerSummary = CollectionTypes['player_summaries'];
+
+/**
+ * The inputs of one season needed to build its training rows.
+ */
+export interface SeasonData {
+  season: string;
+  summaries: PlayerSummary[];
+  /** The season's players, for their positions. */
+  players?: Element[];
+  /** The season's positions, for their scoring rules. */
+  elementTypes?: ElementType[];
+  teams: Team[];
+  fixtures: Fixture[];
+}
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+};
+
+/**
+ * Scoreline models fitted on the season's finished fixtures, gameweek by gameweek.
+ */
+const scorelineModels = (data: SeasonData) =>
+  new ScorelineModels(
+    data.fixtures
+      .filter((fixture) => fixture.finished && fixture.team_h_score !== null && fixture.team_a_score !== null)
+      .map((fixture) => ({
+        home: fixture.team_h,
+        away: fixture.team_a,
+        homeGoals: fixture.team_h_score as number,
+        awayGoals: fixture.team_a_score as number,
+        event: fixture.event
+      })),
+    data.teams.map((team) => team.id)
+  );
+
+/**
+ * Elo ratings walked through the season's finished fixtures, gameweek by gameweek, from
+ * starting ratings based on the static FPL strengths.
+ */
+const ratingHistory = (data: SeasonData) =>
+  new RatingHistory(
+    computeRatings(
+      data.teams.map((team) => ({
+        id: team.id,
+        averageOverallStrength: (team.strength_overall_home + team.strength_overall_away) / 2,
+        averageAttackStrength: (team.strength_attack_home + team.strength_attack_away) / 2,
+        averageDefenceStrength: (team.strength_defence_home + team.strength_defence_away) / 2
+      })),
+      data.fixtures.map((fixture) => ({
+        id: fixture.id,
+        event: fixture.event,
+        teamH: fixture.team_h,
+        teamA: fixture.team_a,
+        finished: fixture.finished,
+        kickoffTime: fixture.kickoff_time,
+        teamHScore: fixture.team_h_score,
+        teamAScore: fixture.team_a_score
+      })),
+      data.season
+    ).history
+  );
+
+/**
+ * Builds the features of one appearance from the player's earlier gameweeks only.
+ *
+ * Everything in `before` belongs to a gameweek whose deadline passed before this one's,
+ * so a double gameweek's second fixture does not see the first. The fixture's own
+ * venue, difficulty, teams and the player's price are all published before the deadline,
+ * the expected goals come from a scoreline model fitted on earlier gameweeks' results, and
+ * the Elo features from the ratings after the previous gameweek.
+ * The opponent and venue features are computed as `FeatureEngineer` computes them for
+ * upcoming fixtures (see `playerFixtureFeatures`), from the earlier gameweeks only.
+ *
+ * @param appearance - The history entry being predicted; only its pre-deadline fields are read.
+ * @param before - The player's history entries from earlier gameweeks, oldest first.
+ * @param ratings - The teams' Elo ratings after each gameweek.
+ * @param tiers - The strength tier of every team.
+ * @param rules - The scoring rules of the player's position, if known.
+ */
+export function appearanceFeatures(
+  appearance: ElementHistory,
+  before: ElementHistory[],
+  fixture: Fixture | undefined,
+  teams: Map<number, Team>,
+  scorelines: ScorelineModels,
+  ratings: RatingHistory,
+  tiers: Map<number, StrengthTier>,
+  rules?: ScoringRules
+) {
+  const points = before.map((game) => game.total_points);
+  const minutes = before.reduce((sum, game) => sum + game.minutes, 0);
+  const totalPoints = points.reduce((sum, value) => sum + value, 0);
+  const homeTeam = fixture ? teams.get(fixture.team_h) : undefined;
+  const awayTeam = fixture ? teams.get(fixture.team_a) : undefined;
+  const difficulty = fixture
+    ? appearance.was_home
+      ? fixture.team_h_difficulty
+      : fixture.team_a_difficulty
+    : 0;
+  const forecast = fixture
+    ? forecastScoreline(scorelines.before(appearance.round), fixture.team_h, fixture.team_a)
+    : undefined;
+  const opponent = playerFixtureFeatures(
+    before,
+    {
+      id: appearance.fixture,
+      event: appearance.round,
+      is_home: appearance.was_home,
+      // Without the fixture only the opponent's side is known
+      team_h: fixture?.team_h ?? (appearance.was_home ? 0 : appearance.opponent_team),
+      team_a: fixture?.team_a ?? (appearance.was_home ? appearance.opponent_team : 0),
+      difficulty
+    },
+    tiers
+  );
+
+  return {
+    recentFormScore: mean(points.slice(-5)),
+    pricePerformanceRatio: totalPoints / (appearance.value || 1),
+    consistencyScore: standardDeviation(points),
+    upcomingFixtureDifficulty: difficulty,
+    homeTeamStrength: homeTeam?.strength || 0,
+    awayTeamStrength: awayTeam?.strength || 0,
+    strengthDifference: (homeTeam?.strength || 0) - (awayTeam?.strength || 0),
+    // No team has the id 0, so without the fixture every Elo feature is null
+    ...ratingFeatures(ratings, fixture?.team_h ?? 0, fixture?.team_a ?? 0, appearance.round),
+    expectedGoals: forecast ? forecast.expectedHomeGoals + forecast.expectedAwayGoals : null,
+    expectedPoints: forecast
+      ? projectPoints(before, fixtureOutlook(forecast, appearance.was_home), rules)?.total ?? null
+      : null,
+
+    opponentTierRank: opponent.opponentTierRank,
+    gamesVsOpponent: opponent.gamesVsOpponent,
+    pointsPer90VsOpponent: opponent.pointsPer90VsOpponent,
+    gamesVsTier: opponent.gamesVsTier,
+    pointsPer90VsTier: opponent.pointsPer90VsTier,
+    gamesAtVenue: opponent.gamesAtVenue,
+    pointsPer90AtVenue: opponent.pointsPer90AtVenue,
+    gamesVsTierAtVenue: opponent.gamesVsTierAtVenue,
+    pointsPer90VsTierAtVenue: opponent.pointsPer90VsTierAtVenue,
+
+    wasHome: appearance.was_home ? 1 : 0,
+    price: appearance.value,
+    gamesBefore: before.length,
+    startsBefore: before.reduce((sum, game) => sum + (game.starts || 0), 0),
+    minutesBefore: minutes,
+    pointsBefore: totalPoints,
+    pointsPerGameBefore: mean(points),
+    pointsPer90Before: minutes > 0 ? (totalPoints / minutes) * 90 : 0,
+    goalsBefore: before.reduce((sum, game) => sum + game.goals_scored, 0),
+    assistsBefore: before.reduce((sum, game) => sum + game.assists, 0),
+    bonusBefore: before.reduce((sum, game) => sum + game.bonus, 0),
+    recentMinutes: mean(before.slice(-5).map((game) => game.minutes))
+  };
+}
+
+/**
+ * Builds one training row per player per played fixture of a season from
+ * `player_summaries.history`, labelled with the points the player actually scored.
+ * Appearances in fixtures that are not finished yet are skipped.
+ *
+ * Features only use what was known before the gameweek's deadline (see
+ * `appearanceFeatures`; the minutes probabilities come from `MinutesModels`, fitted on
+ * earlier gameweeks), and every row carries its season and gameweek so models can be
+ * validated on later gameweeks than they were trained on.
+ *
+ * @param data - The season's player summaries, players, positions, teams and fixtures.
+ * @returns The rows ordered by gameweek, then player.
+ */
+export function buildGameweekRows(data: SeasonData): TrainingExample[] {
+  const teams = new Map(data.teams.map((team) => [team.id, team]));
+  const fixtures = new Map(data.fixtures.map((fixture) => [fixture.id, fixture]));
+  const players = new Map((data.players ?? []).map((player) => [player.id, player]));
+  const scorelines = scorelineModels(data);
+  const ratings = ratingHistory(data);
+  const tiers = strengthTiers(
+    data.teams.map((team) => ({
+      id: team.id,
+      averageOverallStrength: (team.strength_overall_home + team.strength_overall_away) / 2
+    }))
+  );
+  const rules = scoringRules(data.elementTypes ?? []);
+  const histories = data.summaries.map((summary) => ({
+    id: summary.id,
+    team: players.get(summary.id)?.team,
+    elementType: players.get(summary.id)?.element_type,
+    history: [...(summary.history ?? [])].sort(
+      (a, b) => a.round - b.round || a.kickoff_time.localeCompare(b.kickoff_time)
+    )
+  }));
+  const minutes = minutesRows(histories, positionPlaces(data.elementTypes ?? []));
+  const minutesFeatures = new Map(minutes.map((row) => [`${row.playerId}:${row.fixture}`, row.features]));
+  const minutesModels = new MinutesModels(minutes);
+  const rows: TrainingExample[] = [];
+
+  for (const { id, elementType, history } of histories) {
+    for (const appearance of history) {
+      const before = history.filter((game) => game.round < appearance.round);
+      const fixture = fixtures.get(appearance.fixture);
+      // Points of a fixture still in progress are provisional
+      if (fixture && !fixture.finished) continue;
+      rows.push({
+        season: data.season,
+        gameweek: appearance.round,
+        playerId: id,
+        elementType: elementType ?? null,
+        fixtureId: appearance.fixture,
+        teamId: fixture ? (appearance.was_home ? fixture.team_h : fixture.team_a) : null,
+        opponentTeamId: appearance.opponent_team,
+        kickoffTime: appearance.kickoff_time,
+        ...appearanceFeatures(
+          appearance,
+          before,
+          fixture,
+          teams,
+          scorelines,
+          ratings,
+          tiers,
+          elementType !== undefined ? rules.get(elementType) : undefined
+        ),
+        ...predictMinutes(
+          minutesModels.before(appearance.round),
+          minutesFeatures.get(`${id}:${appearance.fixture}`) ?? []
+        ),
+        actualMinutes: appearance.minutes,
+        actualPoints: appearance.total_points
+      });
+    }
+  }
+
+  return rows.sort((a, b) => a.gameweek - b.gameweek || a.playerId - b.playerId);
+}
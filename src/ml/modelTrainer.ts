@@ -1,95 +1,171 @@
-import { MongoClient, Db } from 'mongodb';
+import { Storage } from '../storage/storage';
+import { TrainingExample } from '../models/documents';
 import { logger } from '../utils/logger';
 import * as tf from '@tensorflow/tfjs-node';
 import * as fs from 'fs';
 import * as path from 'path';
+import { FEATURES, rawTrainingValues, writeFeatureManifest } from './featureRegistry';
+import { FeaturePreprocessor } from './preprocessing';
+import {
+  EpochMetrics,
+  EvaluationScores,
+  TrainingHyperparameters,
+  TrainingRun,
+  chronologicalSplit,
+  datasetHash,
+  evaluationScores
+} from './trainingRuns';
+import { trainingConfig } from '../config/training';
+
+/** Where models are saved, relative to the project root. */
+const MODELS_DIR = 'models';
+
+/** The model `Predictor` loads; every completed run replaces it. */
+const CURRENT_MODEL = 'fpl_predictor_model';
 
 /**
  * Provides functionality for training a machine learning model for predicting fantasy football points.
- * The `ModelTrainer` class is responsible for loading training data from a MongoDB database, preparing the data,
+ * The `ModelTrainer` class is responsible for loading training data from storage, preparing the data,
  * creating and training a TensorFlow.js model, and saving the trained model to disk.
+ *
+ * Every run is recorded in the `training_runs` collection with its hyperparameters, feature list,
+ * dataset hash, per-epoch metrics and final evaluation, and its model is kept in `models/runs/<runId>`.
  */
 export class ModelTrainer {
-  private db: Db;
+  private hyperparameters: TrainingHyperparameters;
 
   /**
-   * Initializes the database connection for the `ModelTrainer` class.
-   * @param mongoClient - The MongoDB client instance used to connect to the database.
+   * Initializes the storage and hyperparameters used by the `ModelTrainer` class.
+   * @param storage - The storage holding the pipeline's collections.
+   * @param hyperparameters - Overrides of the defaults in `trainingConfig`.
    */
-  constructor(private mongoClient: MongoClient) {
-    this.db = this.mongoClient.db();
+  constructor(private storage: Storage, hyperparameters: Partial<TrainingHyperparameters> = {}) {
+    this.hyperparameters = { ...trainingConfig, ...hyperparameters };
   }
 
   /**
    * Trains a machine learning model for predicting fantasy football points.
-   * This method loads the training data from a MongoDB database, prepares the data,
-   * creates and trains a TensorFlow.js model, and saves the trained model to disk.
+   * This method loads the training data from storage in chronological order, holds the latest rows out
+   * for validation, creates and trains a TensorFlow.js model, evaluates it on the held-out rows, and saves
+   * it both as the run's model and as the current model. The run is recorded in `training_runs` as it
+   * progresses and marked failed if training throws.
+   *
+   * @returns The recorded run.
    */
-  async trainModel() {
+  async trainModel(): Promise<TrainingRun> {
     logger.info('Training model...');
-    const trainingDatasetCollection = this.db.collection('training_dataset');
-    const trainingData = await trainingDatasetCollection.find({}).toArray();
+    const trainingDatasetCollection = this.storage.collection('training_dataset');
+    const trainingData = await trainingDatasetCollection.find(
+      {},
+      { sort: { season: 1, gameweek: 1, playerId: 1, fixtureId: 1 } }
+    );
+
+    const runs = this.storage.collection('training_runs');
+    const run: TrainingRun = {
+      runId: new Date().toISOString().replace(/[:.]/g, '-'),
+      startedAt: new Date(),
+      status: 'running',
+      hyperparameters: this.hyperparameters,
+      features: FEATURES.map(({ description, ...feature }) => feature),
+      datasetHash: datasetHash(trainingData),
+      datasetRows: trainingData.length,
+      seasons: [...new Set(trainingData.map((row) => row.season))],
+      epochs: []
+    };
+    await runs.insertOne(run);
+    logger.info(`Training run ${run.runId} on ${run.datasetRows} rows (dataset ${run.datasetHash.slice(0, 12)})`);
 
-    const { inputs, labels } = this.prepareData(trainingData);
+    try {
+      const { train, validation, preprocessor } = this.prepareData(trainingData);
+      const model = this.createModel(preprocessor.outputSize);
+      try {
+        await this.fitModel(model, train, validation, async (metrics) => {
+          run.epochs.push(metrics);
+          await runs.updateOne({ runId: run.runId }, { $set: { epochs: run.epochs } });
+        });
 
-    const model = this.createModel();
-    await this.fitModel(model, inputs, labels);
+        run.evaluation = validation && this.evaluateModel(model, validation, train.labels);
+        run.modelDir = path.join(MODELS_DIR, 'runs', run.runId);
+        await this.saveModel(model, preprocessor, run.modelDir);
+        await this.saveModel(model, preprocessor, path.join(MODELS_DIR, CURRENT_MODEL));
+      } finally {
+        // Tensors and models hold native memory until they are disposed
+        tf.dispose([train.inputs, validation?.inputs]);
+        model.dispose();
+      }
 
-    await this.saveModel(model);
-    logger.info('Model trained and saved.');
+      run.status = 'completed';
+      run.finishedAt = new Date();
+      await runs.updateOne(
+        { runId: run.runId },
+        { $set: { status: run.status, finishedAt: run.finishedAt, evaluation: run.evaluation, modelDir: run.modelDir } }
+      );
+      if (run.evaluation) {
+        logger.info(
+          `Evaluation on ${run.evaluation.rows} held-out rows: mae = ${run.evaluation.mae}, rmse = ${run.evaluation.rmse}, r2 = ${run.evaluation.r2} (baseline mae = ${run.evaluation.baselineMae})`
+        );
+      }
+      logger.info('Model trained and saved.');
+      return run;
+    } catch (error) {
+      await runs.updateOne(
+        { runId: run.runId },
+        { $set: { status: 'failed', finishedAt: new Date(), error: String(error) } }
+      );
+      throw error;
+    }
   }
 
   /**
    * Prepares the training data by extracting the input features and labels from the provided data.
-   * The input features are extracted from each data item and stored in a 2D tensor. The labels are
-   * extracted from each data item and stored in a 1D tensor.
+   * The latest rows are held out for validation (see `chronologicalSplit`). The input features, in the
+   * order of the feature registry, are extracted from each data item, imputed, scaled and encoded by a
+   * `FeaturePreprocessor` fitted on the training rows only, and stored in 2D tensors. The labels are the
+   * actual fantasy football points of each data item.
    *
-   * @param data - An array of data items containing the input features and labels.
-   * @returns An object containing the input features and labels as TensorFlow.js tensors.
+   * @param data - An array of data items containing the input features and labels, oldest first.
+   * @returns The training rows, the held-out rows if any, and the fitted preprocessor.
    */
-  private prepareData(data: any[]) {
-    const inputs = data.map(item => [
-      item.recentFormScore,
-      item.pricePerformanceRatio,
-      item.consistencyScore,
-      item.upcomingFixtureDifficulty,
-      item.homeTeamStrength,
-      item.awayTeamStrength,
-      item.strengthDifference,
-      item.expectedGoals
-    ]);
-
-    /**
-     * Extracts the actual fantasy football points for each data item in the provided array.
-     * @param data - An array of data items containing input features and actual fantasy football points.
-     * @returns A 1D tensor containing the actual fantasy football points for each data item.
-     */
-    const labels = data.map(item => item.actualPoints);
+  private prepareData(data: TrainingExample[]) {
+    const { train, validation } = chronologicalSplit(data, this.hyperparameters.validationSplit);
+    const rawInputs = train.map(item => rawTrainingValues(item));
+    const preprocessor = FeaturePreprocessor.fit(rawInputs);
+
+    const tensors = (items: TrainingExample[]) => ({
+      inputs: tf.tensor2d(items.map(item => preprocessor.transform(rawTrainingValues(item))), [
+        items.length,
+        preprocessor.outputSize
+      ]),
+      labels: items.map(item => item.actualPoints)
+    });
 
     return {
-      inputs: tf.tensor2d(inputs),
-      labels: tf.tensor1d(labels)
+      train: tensors(train),
+      validation: validation.length > 0 ? tensors(validation) : undefined,
+      preprocessor
     };
   }
 
   /**
    * Creates a TensorFlow.js sequential model for predicting fantasy football points.
-   * The model has three dense layers:
-   * - The first layer has 64 units and a ReLU activation function. It takes an input shape of 8 features.
-   * - The second layer has 32 units and a ReLU activation function.
-   * - The final layer has 1 unit (for the predicted fantasy points).
-   * The model is compiled with the Adam optimizer and mean squared error loss function, and the mean absolute error metric is used.
+   * The model has one dense layer per entry of the `layers` hyperparameter, with the configured
+   * activation, followed by a final layer with 1 unit (for the predicted fantasy points).
+   * The model is compiled with the configured optimizer and learning rate and the mean squared error
+   * loss function, and the mean absolute error metric is used.
    *
+   * @param inputSize - The number of inputs the preprocessor produces.
    * @returns A compiled TensorFlow.js sequential model.
    */
-  private createModel() {
+  private createModel(inputSize: number) {
+    const { layers, activation, optimizer, learningRate } = this.hyperparameters;
     const model = tf.sequential();
-    model.add(tf.layers.dense({ units: 64, activation: 'relu', inputShape: [8] }));
-    model.add(tf.layers.dense({ units: 32, activation: 'relu' }));
-    model.add(tf.layers.dense({ units: 1 }));
+    layers.forEach((units, index) => {
+      model.add(tf.layers.dense({ units, activation, ...(index === 0 ? { inputShape: [inputSize] } : {}) }));
+    });
+    model.add(tf.layers.dense({ units: 1, ...(layers.length === 0 ? { inputShape: [inputSize] } : {}) }));
 
     model.compile({
-      optimizer: tf.train.adam(),
+      optimizer: tf.train[optimizer](learningRate),
       loss: 'meanSquaredError',
       metrics: ['mae']
     });
@@ -98,37 +174,87 @@ export class ModelTrainer {
   }
 
   /**
-   * Trains the provided TensorFlow.js sequential model using the given input features and labels.
-   * The model is trained for 5 epochs, with 20% of the data used for validation. The loss and mean absolute error are logged at the end of each epoch.
+   * Trains the provided TensorFlow.js sequential model on the training rows for the configured number of
+   * epochs and batch size, validating on the held-out rows. The training and validation loss and mean
+   * absolute error are logged and passed to `onEpoch` at the end of each epoch. The label tensors are
+   * disposed once training ends; the input tensors belong to the caller.
    *
    * @param model - The TensorFlow.js sequential model to be trained.
-   * @param inputs - A 2D tensor containing the input features for the model.
-   * @param labels - A 1D tensor containing the actual fantasy football points for each data item.
+   * @param train - The training inputs and labels.
+   * @param validation - The held-out inputs and labels, if any.
+   * @param onEpoch - Called with each epoch's metrics.
    * @returns A Promise that resolves when the model training is complete.
    */
-  private async fitModel(model: tf.Sequential, inputs: tf.Tensor, labels: tf.Tensor) {
-    await model.fit(inputs, labels, {
-      epochs: 5,
-      validationSplit: 0.2,
-      callbacks: {
-        onEpochEnd: (epoch, logs) => {
-          logger.info(`Epoch ${epoch}: loss = ${logs?.loss}, mae = ${logs?.mae}`);
+  private async fitModel(
+    model: tf.Sequential,
+    train: { inputs: tf.Tensor2D; labels: number[] },
+    validation: { inputs: tf.Tensor2D; labels: number[] } | undefined,
+    onEpoch: (metrics: EpochMetrics) => Promise<void>
+  ) {
+    const labels = tf.tensor1d(train.labels);
+    const validationLabels = validation && tf.tensor1d(validation.labels);
+    try {
+      await model.fit(train.inputs, labels, {
+        epochs: this.hyperparameters.epochs,
+        batchSize: this.hyperparameters.batchSize,
+        validationData: validation && validationLabels ? [validation.inputs, validationLabels] : undefined,
+        callbacks: {
+          onEpochEnd: async (epoch, logs) => {
+            const metrics: EpochMetrics = {
+              epoch,
+              loss: logs?.loss ?? NaN,
+              mae: logs?.mae ?? NaN,
+              ...(validation ? { valLoss: logs?.val_loss, valMae: logs?.val_mae } : {})
+            };
+            logger.info(
+              `Epoch ${epoch}: loss = ${metrics.loss}, mae = ${metrics.mae}` +
+                (validation ? `, val_loss = ${metrics.valLoss}, val_mae = ${metrics.valMae}` : '')
+            );
+            await onEpoch(metrics);
+          }
         }
-      }
-    });
+      });
+    } finally {
+      tf.dispose([labels, validationLabels]);
+    }
+  }
+
+  /**
+   * Scores the trained model on the held-out rows against a baseline that always predicts the mean
+   * points of the training rows.
+   *
+   * @param model - The trained model.
+   * @param validation - The held-out inputs and labels.
+   * @param trainLabels - The labels of the training rows.
+   */
+  private evaluateModel(
+    model: tf.Sequential,
+    validation: { inputs: tf.Tensor2D; labels: number[] },
+    trainLabels: number[]
+  ): EvaluationScores {
+    const output = model.predict(validation.inputs) as tf.Tensor;
+    const predictions = Array.from(output.dataSync());
+    output.dispose();
+    const baseline = trainLabels.reduce((sum, label) => sum + label, 0) / (trainLabels.length || 1);
+    return evaluationScores(predictions, validation.labels, baseline);
   }
 
   /**
-   * Saves the provided TensorFlow.js sequential model to a local directory.
-   * The directory is created if it does not already exist.
+   * Saves the provided TensorFlow.js sequential model to a local directory, together with the
+   * feature list it was trained on and the fitted preprocessing. The directory is created if it
+   * does not already exist.
    *
    * @param model - The TensorFlow.js sequential model to be saved.
+   * @param preprocessor - The preprocessing fitted on the training data.
+   * @param directory - The model's directory, relative to the project root.
    */
-  private async saveModel(model: tf.Sequential) {
-    const modelDir = path.join(__dirname, '..', '..', 'models');
+  private async saveModel(model: tf.Sequential, preprocessor: FeaturePreprocessor, directory: string) {
+    const modelDir = path.join(__dirname, '..', '..', directory);
     this.ensureDirectoryExistence(modelDir);
-    const saveResult = await model.save(`file://${modelDir}/fpl_predictor_model`);
-    logger.info(`Model saved: ${saveResult}`);
+    const saveResult = await model.save(`file://${modelDir}`);
+    writeFeatureManifest(modelDir);
+    preprocessor.save(modelDir);
+    logger.info(`Model saved to ${directory}: ${saveResult}`);
   }
 
   /**
@@ -1,79 +1,129 @@
 import * as tf from '@tensorflow/tfjs-node';
-import { MongoClient, Db } from 'mongodb';
+import { Storage } from '../storage/storage';
+import { Prediction } from '../models/documents';
 import { logger } from '../utils/logger';
 import * as path from 'path';
+import { GameweekCalendar } from '../data/gameweekCalendar';
+import { getCurrentSeason } from '../data/season';
+import { assertFeaturesMatch, rawFeatureValues, readFeatureManifest } from './featureRegistry';
+import { FeaturePreprocessor } from './preprocessing';
 
 export class Predictor {
-  private db: Db;
   private model: tf.LayersModel | null = null;
+  private preprocessor: FeaturePreprocessor | null = null;
 
-  constructor(private mongoClient: MongoClient) {
-    this.db = this.mongoClient.db();
-  }
+  constructor(private storage: Storage) {}
 
+  /**
+   * Loads the trained model and the preprocessing fitted with it. Throws a
+   * `FeatureMismatchError` when the model was trained on a different feature list than the
+   * current feature registry.
+   */
   async loadModel() {
-    const modelPath = path.join(__dirname, '..', '..', 'models', 'fpl_predictor_model', 'model.json');
-    this.model = await tf.loadLayersModel(`file://${modelPath}`);
+    const modelDir = path.join(__dirname, '..', '..', 'models', 'fpl_predictor_model');
+    assertFeaturesMatch(readFeatureManifest(modelDir));
+    this.preprocessor = FeaturePreprocessor.load(modelDir);
+    this.preprocessor.assertFitFor();
+    this.model = await tf.loadLayersModel(`file://${path.join(modelDir, 'model.json')}`);
     logger.info('Model loaded successfully');
   }
 
+  /**
+   * Predicts a player's points in a fixture. The model's inputs are read from the player's,
+   * the fixture's and the player's per-fixture features as the feature registry declares.
+   * Like the training rows, the minutes probabilities among them assume the player is fit,
+   * so the prediction is then scaled by the player's availability: a doubtful player is
+   * marked down and one with no chance of playing is projected at zero.
+   */
   async predictPlayerPoints(playerId: number, fixtureId: number) {
-    if (!this.model) {
+    if (!this.model || !this.preprocessor) {
       throw new Error('Model not loaded');
     }
 
-    const playerFeatures = await this.db.collection('player_features').findOne({ id: playerId });
-    const fixtureFeatures = await this.db.collection('fixture_features').findOne({ id: fixtureId });
+    const season = await getCurrentSeason(this.storage);
+    const playerFeatures = await this.storage.collection('player_features').findOne({ id: playerId, season });
+    const fixtureFeatures = await this.storage.collection('fixture_features').findOne({ id: fixtureId, season });
+    const processedPlayer = await this.storage.collection('processed_players').findOne({ id: playerId, season });
+    const playerFixtureFeatures = await this.storage
+      .collection('player_fixture_features')
+      .findOne({ id: playerId, fixtureId, season });
 
     if (!playerFeatures || !fixtureFeatures) {
       throw new Error('Player or fixture not found');
     }
 
-    const input = tf.tensor2d([[
-      playerFeatures.recentFormScore,
-      playerFeatures.pricePerformanceRatio,
-      playerFeatures.consistencyScore,
-      playerFeatures.upcomingFixtureDifficulty,
-      fixtureFeatures.homeTeamStrength,
-      fixtureFeatures.awayTeamStrength,
-      fixtureFeatures.strengthDifference,
-      fixtureFeatures.expectedGoals
-    ]]);
-
-    const prediction = this.model.predict(input) as tf.Tensor;
-    const predictedPoints = prediction.dataSync()[0];
-
-    return predictedPoints;
+    const { model, preprocessor } = this;
+    // Disposes the input and prediction tensors once the value is read
+    const predictedPoints = tf.tidy(() => {
+      const input = tf.tensor2d([
+        preprocessor.transform(
+          rawFeatureValues({ player: playerFeatures, fixture: fixtureFeatures, playerFixture: playerFixtureFeatures })
+        )
+      ]);
+      return (model.predict(input) as tf.Tensor).dataSync()[0];
+    });
+
+    return predictedPoints * (processedPlayer?.availability ?? 1);
   }
 
-  async generateRecommendations(budget: number, limit: number = 5) {
-    const players = await this.db.collection('processed_players').find().toArray();
-    const fixtures = await this.db.collection('fixture_features').find().toArray();
-    
+  /**
+   * Ranks affordable players by predicted points per gameweek over the next `horizon`
+   * gameweeks. Every fixture a player's team has in that window is predicted, so a double
+   * gameweek counts twice and a blank counts as zero. Players with no chance of playing
+   * are left out, and doubtful ones are marked down by their availability.
+   * Every prediction is stored in `predictions`.
+   */
+  async generateRecommendations(budget: number, limit: number = 5, horizon: number = 5) {
+    const season = await getCurrentSeason(this.storage);
+    const players = await this.storage.collection('processed_players').find({ season });
+    const calendar = await GameweekCalendar.load(this.storage, season);
+    const gameweeks = calendar.upcomingGameweeks(horizon);
+
     const recommendations = [];
+    const predictions: Prediction[] = [];
+    const createdAt = new Date();
 
     for (const player of players) {
       if (player.now_cost > budget) continue;
+      if (player.availability === 0 || player.team === undefined) continue;
 
       let totalPredictedPoints = 0;
-      for (const fixture of fixtures.slice(0, 5)) { // Predict for next 5 fixtures
-        const predictedPoints = await this.predictPlayerPoints(player.id, fixture.id);
-        totalPredictedPoints += predictedPoints;
+      let fixtureCount = 0;
+      for (const gameweek of gameweeks) {
+        for (const fixture of calendar.teamFixtures(player.team, gameweek)) {
+          const predictedPoints = await this.predictPlayerPoints(player.id, fixture.id);
+          totalPredictedPoints += predictedPoints;
+          fixtureCount++;
+        }
       }
 
-      const averagePredictedPoints = totalPredictedPoints / 5;
+      const averagePredictedPoints = totalPredictedPoints / (gameweeks.length || 1);
+      predictions.push({
+        season,
+        playerId: player.id,
+        gameweeks,
+        fixtureCount,
+        predictedPoints: averagePredictedPoints,
+        createdAt
+      });
 
       recommendations.push({
         id: player.id,
-        name: player.web_name,
-        position: player.element_type,
+        name: player.webName,
+        position: player.elementType,
         team: player.team,
         cost: player.now_cost,
+        fixtureCount,
+        status: player.status,
+        news: player.news,
+        chanceOfPlaying: player.chanceOfPlayingNextRound,
         predictedPoints: averagePredictedPoints
       });
     }
 
+    await this.storage.collection('predictions').insertMany(predictions);
+
     recommendations.sort((a, b) => b.predictedPoints - a.predictedPoints);
     return recommendations.slice(0, limit);
   }
-}
\ No newline at end of file
+}
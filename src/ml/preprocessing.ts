@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FEATURES, FeatureDefinition, FeatureMismatchError, RawValue, Scaling } from './featureRegistry';
+
+/**
+ * The fitted parameters of one numeric feature.
+ */
+export interface NumericStep {
+  feature: string;
+  kind: 'numeric';
+  scaling: Scaling;
+  /** Replaces missing values: the training median. */
+  impute: number;
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * The categories of one categorical feature seen in training, one input each.
+ * A category not seen in training encodes as all zeros.
+ */
+export interface CategoryStep {
+  feature: string;
+  kind: 'category';
+  categories: number[];
+}
+
+export type PreprocessingStep = NumericStep | CategoryStep;
+
+export const PREPROCESSING_FILE = 'preprocessing.json';
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const logTransform = (value: number) => Math.log1p(Math.max(value, 0));
+
+/**
+ * Turns the raw feature values of the registry into model inputs: imputes missing values,
+ * scales numeric features and one-hot encodes categorical ones. It is fitted on the
+ * training rows, saved next to the model and loaded by `Predictor`, so predictions are
+ * transformed exactly as the training data was.
+ */
+export class FeaturePreprocessor {
+  constructor(public readonly steps: PreprocessingStep[]) {}
+
+  /**
+   * Fits the preprocessing steps on training rows of raw values, in registry order.
+   */
+  static fit(rows: RawValue[][], features: FeatureDefinition[] = FEATURES): FeaturePreprocessor {
+    return new FeaturePreprocessor(
+      features.map((feature, index): PreprocessingStep => {
+        const values = rows.map((row) => row[index]).filter((value): value is number => value !== null);
+
+        if (feature.type === 'category') {
+          return {
+            feature: feature.name,
+            kind: 'category',
+            categories: [...new Set(values)].sort((a, b) => a - b)
+          };
+        }
+
+        const scaling = feature.scaling ?? 'standard';
+        const impute = values.length > 0 ? median(values) : feature.default;
+        const scaled = (values.length > 0 ? values : [impute]).map((value) =>
+          scaling === 'log' ? logTransform(value) : value
+        );
+        const mean = scaled.reduce((sum, value) => sum + value, 0) / scaled.length;
+        const variance = scaled.reduce((sum, value) => sum + (value - mean) ** 2, 0) / scaled.length;
+        return {
+          feature: feature.name,
+          kind: 'numeric',
+          scaling,
+          impute,
+          mean,
+          std: Math.sqrt(variance),
+          min: scaled.reduce((min, value) => Math.min(min, value), Infinity),
+          max: scaled.reduce((max, value) => Math.max(max, value), -Infinity)
+        };
+      })
+    );
+  }
+
+  /**
+   * The number of model inputs the steps produce.
+   */
+  get outputSize(): number {
+    return this.steps.reduce((size, step) => size + (step.kind === 'category' ? step.categories.length : 1), 0);
+  }
+
+  /**
+   * Transforms one row of raw values, in registry order, into model inputs.
+   */
+  transform(row: RawValue[]): number[] {
+    return this.steps.flatMap((step, index) => {
+      const value = row[index];
+      if (step.kind === 'category') {
+        return step.categories.map((category) => (category === value ? 1 : 0));
+      }
+
+      const imputed = value ?? step.impute;
+      switch (step.scaling) {
+        case 'standard':
+          return [step.std > 0 ? (imputed - step.mean) / step.std : 0];
+        case 'minmax':
+          return [step.max > step.min ? (imputed - step.min) / (step.max - step.min) : 0];
+        case 'log':
+          // Log-transformed features are standardised on the log scale
+          return [step.std > 0 ? (logTransform(imputed) - step.mean) / step.std : 0];
+        default:
+          return [imputed];
+      }
+    });
+  }
+
+  /**
+   * Throws a `FeatureMismatchError` unless the steps were fitted on the given features, in order.
+   */
+  assertFitFor(features: FeatureDefinition[] = FEATURES) {
+    const fitted = this.steps.map((step) => step.feature).join(', ');
+    const expected = features.map((feature) => feature.name).join(', ');
+    if (fitted !== expected) {
+      throw new FeatureMismatchError([`preprocessing was fitted on [${fitted}], the registry lists [${expected}]`]);
+    }
+  }
+
+  save(modelDir: string) {
+    fs.writeFileSync(path.join(modelDir, PREPROCESSING_FILE), JSON.stringify({ steps: this.steps }, null, 2));
+  }
+
+  /**
+   * Loads the preprocessing saved with a model. Throws when the model has none, since
+   * feeding it unscaled values would give meaningless predictions.
+   */
+  static load(modelDir: string): FeaturePreprocessor {
+    const file = path.join(modelDir, PREPROCESSING_FILE);
+    if (!fs.existsSync(file)) {
+      throw new Error(`No ${PREPROCESSING_FILE} in ${modelDir}; retrain the model`);
+    }
+    return new FeaturePreprocessor(JSON.parse(fs.readFileSync(file, 'utf8')).steps);
+  }
+}
@@ -0,0 +1,184 @@
+import { createHash } from 'crypto';
+import { FEATURES, FeatureDefinition, FeatureManifest, rawTrainingValues } from './featureRegistry';
+
+/**
+ * The settings of a training run that are chosen rather than learned.
+ */
+export interface TrainingHyperparameters {
+  /** Units of each hidden dense layer, input side first. */
+  layers: number[];
+  activation: 'relu' | 'elu' | 'tanh' | 'sigmoid';
+  optimizer: 'adam' | 'sgd' | 'rmsprop';
+  learningRate: number;
+  epochs: number;
+  batchSize: number;
+  /** Share of the latest rows held out for validation and the final evaluation. */
+  validationSplit: number;
+}
+
+/**
+ * Training and validation metrics at the end of one epoch. The validation metrics are
+ * missing when the run holds no rows out.
+ */
+export interface EpochMetrics {
+  epoch: number;
+  loss: number;
+  mae: number;
+  valLoss?: number;
+  valMae?: number;
+}
+
+/**
+ * How well a trained model predicts the held-out rows, next to a baseline that always
+ * predicts the mean points of the training rows.
+ */
+export interface EvaluationScores {
+  rows: number;
+  mae: number;
+  rmse: number;
+  r2: number;
+  baselineMae: number;
+}
+
+/**
+ * One run of `ModelTrainer.trainModel`, as stored in `training_runs`.
+ */
+export interface TrainingRun {
+  runId: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  status: 'running' | 'completed' | 'failed';
+  hyperparameters: TrainingHyperparameters;
+  features: FeatureManifest['features'];
+  /** See `datasetHash`; equal hashes mean the runs trained on the same data. */
+  datasetHash: string;
+  datasetRows: number;
+  seasons: string[];
+  epochs: EpochMetrics[];
+  evaluation?: EvaluationScores;
+  /** Where the run's model was saved, relative to the project root. */
+  modelDir?: string;
+  error?: string;
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * A fingerprint of a training dataset: a SHA-256 over every row's identity, feature
+ * values and label, taken in the order given. Rows are expected in the trainer's
+ * chronological order, so the same data always hashes the same however it was stored.
+ */
+export function datasetHash(rows: Row[], features: FeatureDefinition[] = FEATURES): string {
+  const hash = createHash('sha256');
+  hash.update(JSON.stringify(features.map((feature) => feature.name)));
+  for (const row of rows) {
+    hash.update(
+      JSON.stringify([
+        row.season,
+        row.gameweek,
+        row.playerId,
+        row.fixtureId,
+        rawTrainingValues(row, features),
+        row.actualPoints
+      ])
+    );
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Splits rows, already in chronological order, into training rows and the latest
+ * `validationSplit` share held out, so a model is always validated on gameweeks after
+ * those it was trained on.
+ */
+export function chronologicalSplit<T>(rows: T[], validationSplit: number) {
+  const validationRows = Math.round(rows.length * validationSplit);
+  const cut = rows.length - validationRows;
+  return { train: rows.slice(0, cut), validation: rows.slice(cut) };
+}
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Scores predictions against the actual points.
+ *
+ * @param baseline - The constant prediction the model should beat, e.g. the mean training label.
+ */
+export function evaluationScores(predictions: number[], labels: number[], baseline: number): EvaluationScores {
+  const average = mean(labels);
+  const squaredError = labels.reduce((sum, label, index) => sum + (predictions[index] - label) ** 2, 0);
+  const totalVariance = labels.reduce((sum, label) => sum + (label - average) ** 2, 0);
+  return {
+    rows: labels.length,
+    mae: mean(labels.map((label, index) => Math.abs(predictions[index] - label))),
+    rmse: Math.sqrt(squaredError / (labels.length || 1)),
+    r2: totalVariance > 0 ? 1 - squaredError / totalVariance : 0,
+    baselineMae: mean(labels.map((label) => Math.abs(baseline - label)))
+  };
+}
+
+const formatNumber = (value: number | undefined, digits = 3) =>
+  value === undefined || !Number.isFinite(value) ? '-' : value.toFixed(digits);
+
+/**
+ * The rows of a side-by-side comparison of runs: a label, then one value per run.
+ * Features that are not in every run are listed per run, so a change of feature set
+ * stands out, and every epoch's training and validation mae gets a row of its own.
+ */
+export function comparisonRows(runs: TrainingRun[]): string[][] {
+  const featureNames = runs.map((run) => run.features.map((feature) => `${feature.name}@${feature.version}`));
+  const shared = featureNames.reduce<string[]>(
+    (common, names, index) => (index === 0 ? names : common.filter((name) => names.includes(name))),
+    []
+  );
+  const last = (run: TrainingRun) => run.epochs[run.epochs.length - 1];
+  const epochCount = Math.max(0, ...runs.map((run) => run.epochs.length));
+  const row = (label: string, value: (run: TrainingRun, index: number) => string) => [
+    label,
+    ...runs.map(value)
+  ];
+
+  return [
+    row('run', (run) => run.runId),
+    row('status', (run) => run.status),
+    row('started', (run) => new Date(run.startedAt).toISOString()),
+    row('dataset', (run) => run.datasetHash.slice(0, 12)),
+    row('rows', (run) => String(run.datasetRows)),
+    row('seasons', (run) => run.seasons.join(', ')),
+    row('features', (run) => String(run.features.length)),
+    row('other features', (_run, index) => featureNames[index].filter((name) => !shared.includes(name)).join(', ') || '-'),
+    row('layers', (run) => run.hyperparameters.layers.join('-')),
+    row('activation', (run) => run.hyperparameters.activation),
+    row('optimizer', (run) => run.hyperparameters.optimizer),
+    row('learning rate', (run) => String(run.hyperparameters.learningRate)),
+    row('epochs', (run) => `${run.epochs.length}/${run.hyperparameters.epochs}`),
+    row('batch size', (run) => String(run.hyperparameters.batchSize)),
+    row('validation split', (run) => String(run.hyperparameters.validationSplit)),
+    ...Array.from({ length: epochCount }, (_, epoch) =>
+      row(`epoch ${epoch} mae / val mae`, (run) => {
+        const metrics = run.epochs[epoch];
+        return metrics ? `${formatNumber(metrics.mae)} / ${formatNumber(metrics.valMae)}` : '-';
+      })
+    ),
+    row('final loss', (run) => formatNumber(last(run)?.loss)),
+    row('final val loss', (run) => formatNumber(last(run)?.valLoss)),
+    row('final mae', (run) => formatNumber(last(run)?.mae)),
+    row('final val mae', (run) => formatNumber(last(run)?.valMae)),
+    row('eval mae', (run) => formatNumber(run.evaluation?.mae)),
+    row('eval rmse', (run) => formatNumber(run.evaluation?.rmse)),
+    row('eval r2', (run) => formatNumber(run.evaluation?.r2)),
+    row('baseline mae', (run) => formatNumber(run.evaluation?.baselineMae))
+  ];
+}
+
+/**
+ * Lays out rows of cells as lines of left-aligned columns.
+ */
+export function formatTable(rows: string[][]): string[] {
+  const widths = rows.reduce<number[]>(
+    (max, cells) => cells.map((cell, index) => Math.max(max[index] ?? 0, cell.length)),
+    []
+  );
+  return rows.map((cells) => cells.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd());
+}
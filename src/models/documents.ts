@@ -0,0 +1,248 @@
+// Types of the documents the pipeline stores, keyed by collection in `CollectionTypes`
+
+import {
+  BootstrapStatic,
+  ClassicLeague,
+  ClassicLeagueStanding,
+  Element,
+  ElementFixture,
+  ElementHistory,
+  ElementHistoryPast,
+  ElementStatus,
+  ElementType,
+  Entry,
+  EntryHistory,
+  EntryPicks,
+  EntryTransfer,
+  Event,
+  Fixture,
+  GameweekLive,
+  PlayerSummary,
+  Team,
+} from "./fplTypes";
+import type { FetchState } from "../data/fetchState";
+import type { ManagerSquad } from "../data/managerSquad";
+import type { RivalPicks } from "../data/leagueCollector";
+import type { PriceSnapshot } from "../data/priceTracker";
+import type { AvailabilityChange } from "../data/availability";
+import type { QualityReport } from "../data/dataQuality";
+import type { ExternalPlayerData } from "../data/playerDataImport";
+import type { TeamRating } from "../data/teamRatings";
+import type { TrainingRun } from "../ml/trainingRuns";
+
+/**
+ * The season tag carried by every season-scoped document, e.g. `"2024/25"`.
+ */
+export interface Seasoned {
+  season: string;
+}
+
+export interface SeasonRecord {
+  id: string;
+  current?: boolean;
+  createdAt?: Date;
+  archivedAt?: Date;
+}
+
+export interface LeagueStandings extends Seasoned {
+  leagueId: number;
+  league: ClassicLeague;
+  standings: ClassicLeagueStanding[];
+  fetchedAt: Date;
+}
+
+/**
+ * A player's season so far, as written to `processed_players` by `DataProcessor`.
+ * Bootstrap fields are missing when the player is not in the latest bootstrap.
+ */
+export interface ProcessedPlayer extends Seasoned {
+  id: number;
+  webName?: string;
+  team?: number;
+  elementType?: number;
+  status?: ElementStatus;
+  news?: string;
+  newsAdded?: string | null;
+  chanceOfPlayingNextRound?: number | null;
+  chanceOfPlayingThisRound?: number | null;
+  availability: number;
+  totalPoints: number;
+  averagePoints: number;
+  form: number;
+  valueForm: number;
+  valueSeason: number;
+  pointsPerGame: number;
+  selectedByPercent: number;
+  now_cost: number;
+  minutesPlayed: number;
+  minutesPerGame: number;
+  goalsScored: number;
+  goalsPerGame: number;
+  assists: number;
+  assistsPerGame: number;
+  cleanSheets: number;
+  goalsConceded: number;
+  saves: number;
+  xG: number;
+  xA: number;
+  xGI: number;
+  upcomingFixtureDifficulty: number;
+  upcomingFixtureCount: number;
+  seasonOnSeasonPerformance: number;
+  lastSeasonPoints: number;
+  history: ElementHistory[];
+  historyPast: ElementHistoryPast[];
+  fixtures: ElementFixture[];
+}
+
+/**
+ * A fixture with its per-team stat totals, as written to `processed_fixtures`.
+ */
+export interface ProcessedFixture extends Seasoned {
+  id: number;
+  event: number | null;
+  teamH: number;
+  teamA: number;
+  teamHDifficulty: number;
+  teamADifficulty: number;
+  kickoffTime: string | null;
+  finished: boolean;
+  started: boolean | null;
+  minutes: number;
+  teamHScore: number | null;
+  teamAScore: number | null;
+  homeGoals: number;
+  awayGoals: number;
+  homeAssists: number;
+  awayAssists: number;
+  homeOwnGoals: number;
+  awayOwnGoals: number;
+  homePenaltiesSaved: number;
+  awayPenaltiesSaved: number;
+  homePenaltiesMissed: number;
+  awayPenaltiesMissed: number;
+  homeYellowCards: number;
+  awayYellowCards: number;
+  homeRedCards: number;
+  awayRedCards: number;
+  homeSaves: number;
+  awaySaves: number;
+  homeBonus: number;
+  awayBonus: number;
+  homeBps: number;
+  awayBps: number;
+  pulseId: number;
+}
+
+/**
+ * A team with its averaged strengths and home biases, as written to `processed_teams`.
+ */
+export interface ProcessedTeam extends Seasoned {
+  id: number;
+  code: number;
+  name: string;
+  shortName: string;
+  strength: number;
+  form: string | null;
+  position: number;
+  played: number;
+  points: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  strengthOverallHome: number;
+  strengthOverallAway: number;
+  strengthAttackHome: number;
+  strengthAttackAway: number;
+  strengthDefenceHome: number;
+  strengthDefenceAway: number;
+  averageOverallStrength: number;
+  averageAttackStrength: number;
+  averageDefenceStrength: number;
+  overallStrengthHomeBias: number;
+  attackStrengthHomeBias: number;
+  defenceStrengthHomeBias: number;
+  unavailable: boolean;
+  pulseId: number;
+}
+
+export interface PlayerFeatures extends Seasoned {
+  id: number;
+  [feature: string]: any;
+}
+
+/**
+ * Features of one player for one upcoming fixture, e.g. their record against the
+ * opponent's strength tier at the fixture's venue.
+ */
+export interface PlayerFixtureFeatures extends Seasoned {
+  /** The player's id. */
+  id: number;
+  fixtureId: number;
+  event: number | null;
+  [feature: string]: any;
+}
+
+export interface FixtureFeatures extends Seasoned {
+  id: number;
+  event: number | null;
+  [feature: string]: any;
+}
+
+export interface TrainingExample extends Seasoned {
+  gameweek: number;
+  playerId: number;
+  fixtureId: number;
+  actualPoints: number;
+  [feature: string]: any;
+}
+
+/**
+ * A player's projected points over the upcoming gameweeks, as stored in `predictions`.
+ */
+export interface Prediction extends Seasoned {
+  playerId: number;
+  gameweeks: number[];
+  fixtureCount: number;
+  predictedPoints: number;
+  createdAt: Date;
+}
+
+/**
+ * Maps every collection name to the type of its documents.
+ */
+export interface CollectionTypes {
+  seasons: SeasonRecord;
+  bootstrap_static: BootstrapStatic & Seasoned;
+  teams: Team & Seasoned;
+  players: Element & Seasoned;
+  gameweeks: Event & Seasoned;
+  elements_types: ElementType & Seasoned;
+  fixtures: Fixture & Seasoned;
+  player_summaries: PlayerSummary & { id: number } & Seasoned;
+  gameweek_live: GameweekLive & { id: number } & Seasoned;
+  price_snapshots: PriceSnapshot;
+  availability_changes: AvailabilityChange;
+  external_player_data: ExternalPlayerData;
+  fetch_state: FetchState;
+  managers: Entry & Seasoned;
+  manager_history: EntryHistory & { entry: number } & Seasoned;
+  manager_transfers: EntryTransfer & Seasoned;
+  manager_picks: EntryPicks & { entry: number; event: number } & Seasoned;
+  manager_squads: ManagerSquad & Seasoned;
+  league_standings: LeagueStandings;
+  rival_picks: RivalPicks;
+  processed_players: ProcessedPlayer;
+  processed_fixtures: ProcessedFixture;
+  processed_teams: ProcessedTeam;
+  team_ratings: TeamRating;
+  player_features: PlayerFeatures;
+  fixture_features: FixtureFeatures;
+  player_fixture_features: PlayerFixtureFeatures;
+  training_dataset: TrainingExample;
+  predictions: Prediction;
+  training_runs: TrainingRun;
+  data_quality_reports: QualityReport;
+}
+
+export type CollectionName = keyof CollectionTypes;
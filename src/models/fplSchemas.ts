@@ -0,0 +1,411 @@
+import {
+  BootstrapStatic,
+  ClassicLeagueStandingsPage,
+  Entry,
+  EntryHistory,
+  EntryPicks,
+  EntryTransfer,
+  Fixture,
+  GameweekLive,
+  PlayerSummary,
+} from "./fplTypes";
+
+/**
+ * Runtime schemas for the FPL API payloads described in `fplTypes.ts`.
+ *
+ * Only the fields the pipeline relies on are declared; extra fields returned by
+ * the API are accepted untouched. A primitive type suffixed with `?` may also be `null`.
+ */
+type Primitive = "number" | "string" | "boolean";
+
+export type FieldSchema = Primitive | `${Primitive}?` | ObjectSchema | ArraySchema;
+
+export interface ObjectSchema {
+  kind: "object";
+  fields: Record<string, FieldSchema>;
+  nullable?: boolean;
+}
+
+export interface ArraySchema {
+  kind: "array";
+  items: FieldSchema;
+}
+
+export interface ValidationIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+/**
+ * Thrown when an FPL API payload does not match its schema. The message names the
+ * first offending field; every issue found is available on `issues`.
+ */
+export class FPLValidationError extends Error {
+  constructor(public readonly resource: string, public readonly issues: ValidationIssue[]) {
+    const first = issues[0];
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more issue(s))` : "";
+    super(
+      `Invalid ${resource} payload: field "${first.path}" expected ${first.expected} but received ${first.received}${more}`
+    );
+    this.name = "FPLValidationError";
+  }
+}
+
+const object = (fields: Record<string, FieldSchema>, nullable = false): ObjectSchema => ({
+  kind: "object",
+  fields,
+  nullable,
+});
+
+const arrayOf = (items: FieldSchema): ArraySchema => ({ kind: "array", items });
+
+const describe = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isNaN(value)) return "NaN";
+  return typeof value;
+};
+
+/**
+ * Walks `value` against `schema`, pushing every mismatch onto `issues`.
+ * Arrays report at most one issue per field to keep the output readable for
+ * payloads with hundreds of elements.
+ */
+const collectIssues = (
+  value: unknown,
+  schema: FieldSchema,
+  path: string,
+  issues: ValidationIssue[]
+) => {
+  if (typeof schema === "string") {
+    const nullable = schema.endsWith("?");
+    const type = nullable ? schema.slice(0, -1) : schema;
+    if (value === null && nullable) return;
+    const ok =
+      typeof value === type && !(type === "number" && Number.isNaN(value as number));
+    if (!ok) {
+      issues.push({ path, expected: nullable ? `${type} or null` : type, received: describe(value) });
+    }
+    return;
+  }
+
+  if (schema.kind === "array") {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: "array", received: describe(value) });
+      return;
+    }
+    const seen = new Set<string>();
+    value.forEach((item, index) => {
+      const itemIssues: ValidationIssue[] = [];
+      collectIssues(item, schema.items, `${path}[${index}]`, itemIssues);
+      for (const issue of itemIssues) {
+        const key = issue.path.replace(/\[\d+\]/g, "[]");
+        if (!seen.has(key)) {
+          seen.add(key);
+          issues.push(issue);
+        }
+      }
+    });
+    return;
+  }
+
+  if (value === null && schema.nullable) return;
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    issues.push({ path, expected: "object", received: describe(value) });
+    return;
+  }
+  for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+    const fieldPath = path ? `${path}.${field}` : field;
+    const record = value as Record<string, unknown>;
+    if (!(field in record)) {
+      issues.push({ path: fieldPath, expected: describeSchema(fieldSchema), received: "missing" });
+      continue;
+    }
+    collectIssues(record[field], fieldSchema, fieldPath, issues);
+  }
+};
+
+const describeSchema = (schema: FieldSchema): string => {
+  if (typeof schema === "string") {
+    return schema.endsWith("?") ? `${schema.slice(0, -1)} or null` : schema;
+  }
+  return schema.kind;
+};
+
+export const elementSchema = object({
+  id: "number",
+  code: "number",
+  element_type: "number",
+  team: "number",
+  web_name: "string",
+  status: "string",
+  news: "string",
+  chance_of_playing_next_round: "number?",
+  chance_of_playing_this_round: "number?",
+  now_cost: "number",
+  form: "string",
+  points_per_game: "string",
+  selected_by_percent: "string",
+  value_form: "string",
+  value_season: "string",
+  total_points: "number",
+  minutes: "number",
+  goals_scored: "number",
+  assists: "number",
+  clean_sheets: "number",
+  goals_conceded: "number",
+  saves: "number",
+  bonus: "number",
+  bps: "number",
+  expected_goals: "string",
+  expected_assists: "string",
+  transfers_in_event: "number",
+  transfers_out_event: "number",
+});
+
+export const teamSchema = object({
+  id: "number",
+  code: "number",
+  name: "string",
+  short_name: "string",
+  strength: "number",
+  strength_overall_home: "number",
+  strength_overall_away: "number",
+  strength_attack_home: "number",
+  strength_attack_away: "number",
+  strength_defence_home: "number",
+  strength_defence_away: "number",
+  position: "number",
+});
+
+export const eventSchema = object({
+  id: "number",
+  name: "string",
+  deadline_time: "string",
+  finished: "boolean",
+  is_previous: "boolean",
+  is_current: "boolean",
+  is_next: "boolean",
+  chip_plays: arrayOf(object({ chip_name: "string", num_played: "number" })),
+});
+
+export const elementTypeSchema = object({
+  id: "number",
+  singular_name: "string",
+  singular_name_short: "string",
+  plural_name: "string",
+  squad_select: "number",
+  squad_min_play: "number",
+  squad_max_play: "number",
+});
+
+export const bootstrapStaticSchema = object({
+  events: arrayOf(eventSchema),
+  teams: arrayOf(teamSchema),
+  elements: arrayOf(elementSchema),
+  element_types: arrayOf(elementTypeSchema),
+  total_players: "number",
+});
+
+const fixtureStatValueSchema = object({ value: "number", element: "number" });
+
+export const fixtureSchema = object({
+  id: "number",
+  event: "number?",
+  finished: "boolean",
+  started: "boolean?",
+  kickoff_time: "string?",
+  team_h: "number",
+  team_a: "number",
+  team_h_score: "number?",
+  team_a_score: "number?",
+  team_h_difficulty: "number",
+  team_a_difficulty: "number",
+  stats: arrayOf(
+    object({
+      identifier: "string",
+      a: arrayOf(fixtureStatValueSchema),
+      h: arrayOf(fixtureStatValueSchema),
+    })
+  ),
+});
+
+export const elementHistorySchema = object({
+  element: "number",
+  fixture: "number",
+  opponent_team: "number",
+  total_points: "number",
+  was_home: "boolean",
+  kickoff_time: "string",
+  round: "number",
+  minutes: "number",
+  goals_scored: "number",
+  assists: "number",
+  clean_sheets: "number",
+  goals_conceded: "number",
+  saves: "number",
+  bonus: "number",
+  bps: "number",
+  expected_goals: "string",
+  expected_assists: "string",
+  expected_goal_involvements: "string",
+  value: "number",
+});
+
+export const elementFixtureSchema = object({
+  id: "number",
+  team_h: "number",
+  team_a: "number",
+  event: "number?",
+  kickoff_time: "string?",
+  is_home: "boolean",
+  difficulty: "number",
+});
+
+export const elementHistoryPastSchema = object({
+  season_name: "string",
+  element_code: "number",
+  start_cost: "number",
+  end_cost: "number",
+  total_points: "number",
+  minutes: "number",
+});
+
+export const playerSummarySchema = object({
+  fixtures: arrayOf(elementFixtureSchema),
+  history: arrayOf(elementHistorySchema),
+  history_past: arrayOf(elementHistoryPastSchema),
+});
+
+export const gameweekLiveSchema = object({
+  elements: arrayOf(
+    object({
+      id: "number",
+      stats: object({
+        minutes: "number",
+        total_points: "number",
+        bonus: "number",
+        bps: "number",
+      }),
+      explain: arrayOf(object({ fixture: "number" })),
+    })
+  ),
+});
+
+export const entrySchema = object({
+  id: "number",
+  name: "string",
+  started_event: "number",
+  current_event: "number?",
+  last_deadline_bank: "number?",
+  last_deadline_value: "number?",
+});
+
+const entryEventHistorySchema = object({
+  event: "number",
+  points: "number",
+  total_points: "number",
+  bank: "number",
+  value: "number",
+  event_transfers: "number",
+  event_transfers_cost: "number",
+});
+
+export const entryHistorySchema = object({
+  current: arrayOf(entryEventHistorySchema),
+  chips: arrayOf(object({ name: "string", event: "number" })),
+});
+
+export const entryTransferSchema = object({
+  event: "number",
+  time: "string",
+  element_in: "number",
+  element_in_cost: "number",
+  element_out: "number",
+  element_out_cost: "number",
+});
+
+export const entryPicksSchema = object({
+  active_chip: "string?",
+  entry_history: entryEventHistorySchema,
+  picks: arrayOf(
+    object({
+      element: "number",
+      position: "number",
+      multiplier: "number",
+      is_captain: "boolean",
+      is_vice_captain: "boolean",
+    })
+  ),
+});
+
+export const classicLeagueStandingsSchema = object({
+  league: object({ id: "number", name: "string" }),
+  standings: object({
+    has_next: "boolean",
+    page: "number",
+    results: arrayOf(
+      object({
+        entry: "number",
+        entry_name: "string",
+        player_name: "string",
+        rank: "number",
+        total: "number",
+      })
+    ),
+  }),
+});
+
+/**
+ * Validates `payload` against `schema` and returns every issue found.
+ * An empty array means the payload is valid.
+ */
+export function findIssues(payload: unknown, schema: FieldSchema): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  collectIssues(payload, schema, "", issues);
+  return issues.map((issue) => ({ ...issue, path: issue.path || "(root)" }));
+}
+
+/**
+ * Validates `payload` against `schema`, throwing an `FPLValidationError` naming the
+ * offending field if it does not match.
+ */
+export function assertValid<T>(resource: string, payload: unknown, schema: FieldSchema): T {
+  const issues = findIssues(payload, schema);
+  if (issues.length > 0) {
+    throw new FPLValidationError(resource, issues);
+  }
+  return payload as T;
+}
+
+export const validateBootstrapStatic = (payload: unknown) =>
+  assertValid<BootstrapStatic>("bootstrap-static", payload, bootstrapStaticSchema);
+
+export const validateFixtures = (payload: unknown) =>
+  assertValid<Fixture[]>("fixtures", payload, arrayOf(fixtureSchema));
+
+export const validatePlayerSummary = (payload: unknown) =>
+  assertValid<PlayerSummary>("element-summary", payload, playerSummarySchema);
+
+export const validateGameweekLive = (payload: unknown) =>
+  assertValid<GameweekLive>("event live", payload, gameweekLiveSchema);
+
+export const validateEntry = (payload: unknown) =>
+  assertValid<Entry>("entry", payload, entrySchema);
+
+export const validateEntryHistory = (payload: unknown) =>
+  assertValid<EntryHistory>("entry history", payload, entryHistorySchema);
+
+export const validateEntryTransfers = (payload: unknown) =>
+  assertValid<EntryTransfer[]>("entry transfers", payload, arrayOf(entryTransferSchema));
+
+export const validateEntryPicks = (payload: unknown) =>
+  assertValid<EntryPicks>("entry picks", payload, entryPicksSchema);
+
+export const validateClassicLeagueStandings = (payload: unknown) =>
+  assertValid<ClassicLeagueStandingsPage>(
+    "classic league standings",
+    payload,
+    classicLeagueStandingsSchema
+  );
@@ -1,29 +1,448 @@
 // Define types for the FPL API responses
+
+/**
+ * Availability status of a player: available, doubtful, injured, suspended,
+ * unavailable (left the club) or not in the squad.
+ */
+export type ElementStatus = "a" | "d" | "i" | "s" | "u" | "n";
+
+export interface Element {
+  id: number;
+  code: number;
+  element_type: number;
+  team: number;
+  team_code: number;
+  first_name: string;
+  second_name: string;
+  web_name: string;
+  status: ElementStatus;
+  news: string;
+  news_added: string | null;
+  chance_of_playing_next_round: number | null;
+  chance_of_playing_this_round: number | null;
+  now_cost: number;
+  cost_change_event: number;
+  cost_change_event_fall: number;
+  cost_change_start: number;
+  cost_change_start_fall: number;
+  form: string;
+  points_per_game: string;
+  selected_by_percent: string;
+  value_form: string;
+  value_season: string;
+  ep_next: string | null;
+  ep_this: string | null;
+  total_points: number;
+  event_points: number;
+  minutes: number;
+  starts: number;
+  goals_scored: number;
+  assists: number;
+  clean_sheets: number;
+  goals_conceded: number;
+  own_goals: number;
+  penalties_saved: number;
+  penalties_missed: number;
+  yellow_cards: number;
+  red_cards: number;
+  saves: number;
+  bonus: number;
+  bps: number;
+  influence: string;
+  creativity: string;
+  threat: string;
+  ict_index: string;
+  expected_goals: string;
+  expected_assists: string;
+  expected_goal_involvements: string;
+  expected_goals_conceded: string;
+  transfers_in: number;
+  transfers_out: number;
+  transfers_in_event: number;
+  transfers_out_event: number;
+  dreamteam_count: number;
+  in_dreamteam: boolean;
+  squad_number: number | null;
+  penalties_order: number | null;
+  direct_freekicks_order: number | null;
+  corners_and_indirect_freekicks_order: number | null;
+  photo: string;
+  special: boolean;
+}
+
+export interface Team {
+  id: number;
+  code: number;
+  name: string;
+  short_name: string;
+  strength: number;
+  strength_overall_home: number;
+  strength_overall_away: number;
+  strength_attack_home: number;
+  strength_attack_away: number;
+  strength_defence_home: number;
+  strength_defence_away: number;
+  played: number;
+  win: number;
+  draw: number;
+  loss: number;
+  points: number;
+  position: number;
+  form: string | null;
+  unavailable: boolean;
+  pulse_id: number;
+}
+
+export interface ChipPlay {
+  chip_name: string;
+  num_played: number;
+}
+
+export interface Event {
+  id: number;
+  name: string;
+  deadline_time: string;
+  deadline_time_epoch: number;
+  finished: boolean;
+  data_checked: boolean;
+  is_previous: boolean;
+  is_current: boolean;
+  is_next: boolean;
+  average_entry_score: number;
+  highest_score: number | null;
+  highest_scoring_entry: number | null;
+  most_selected: number | null;
+  most_transferred_in: number | null;
+  most_captained: number | null;
+  most_vice_captained: number | null;
+  top_element: number | null;
+  top_element_info: { id: number; points: number } | null;
+  transfers_made: number;
+  chip_plays: ChipPlay[];
+}
+
+export interface ElementType {
+  id: number;
+  plural_name: string;
+  plural_name_short: string;
+  singular_name: string;
+  singular_name_short: string;
+  squad_select: number;
+  squad_min_play: number;
+  squad_max_play: number;
+  element_count: number;
+  ui_shirt_specific: boolean;
+}
+
+export interface ElementStat {
+  name: string;
+  label: string;
+}
+
 export interface BootstrapStatic {
-    events: any[];
-    game_settings: any;
-    phases: any[];
-    teams: any[];
-    total_players: number;
-    elements: any[];
-    element_stats: any[];
-    element_types: any[];
-  }
-  
-  export interface Fixture {
-    id: number;
-    event: number;
-    finished: boolean;
-    team_h: number;
-    team_a: number;
-  }
-  
-  export interface PlayerSummary {
-    fixtures: any[];
-    history: any[];
-    history_past: any[];
-  }
-  
-  export interface GameweekLive {
-    elements: any[];
-  }
\ No newline at end of file
+  events: Event[];
+  game_settings: Record<string, unknown>;
+  phases: { id: number; name: string; start_event: number; stop_event: number }[];
+  teams: Team[];
+  total_players: number;
+  elements: Element[];
+  element_stats: ElementStat[];
+  element_types: ElementType[];
+}
+
+export interface FixtureStatValue {
+  value: number;
+  element: number;
+}
+
+export interface FixtureStat {
+  identifier: string;
+  a: FixtureStatValue[];
+  h: FixtureStatValue[];
+}
+
+export interface Fixture {
+  id: number;
+  code: number;
+  event: number | null;
+  finished: boolean;
+  finished_provisional: boolean;
+  started: boolean | null;
+  kickoff_time: string | null;
+  minutes: number;
+  provisional_start_time: boolean;
+  team_h: number;
+  team_a: number;
+  team_h_score: number | null;
+  team_a_score: number | null;
+  team_h_difficulty: number;
+  team_a_difficulty: number;
+  pulse_id: number;
+  stats: FixtureStat[];
+}
+
+/**
+ * A single match in a player's current-season history (`element-summary/{id}`).
+ */
+export interface ElementHistory {
+  element: number;
+  fixture: number;
+  opponent_team: number;
+  total_points: number;
+  was_home: boolean;
+  kickoff_time: string;
+  team_h_score: number | null;
+  team_a_score: number | null;
+  round: number;
+  minutes: number;
+  starts: number;
+  goals_scored: number;
+  assists: number;
+  clean_sheets: number;
+  goals_conceded: number;
+  own_goals: number;
+  penalties_saved: number;
+  penalties_missed: number;
+  yellow_cards: number;
+  red_cards: number;
+  saves: number;
+  bonus: number;
+  bps: number;
+  influence: string;
+  creativity: string;
+  threat: string;
+  ict_index: string;
+  expected_goals: string;
+  expected_assists: string;
+  expected_goal_involvements: string;
+  expected_goals_conceded: string;
+  value: number;
+  transfers_balance: number;
+  selected: number;
+  transfers_in: number;
+  transfers_out: number;
+}
+
+/**
+ * An upcoming fixture as seen from a player's perspective.
+ */
+export interface ElementFixture {
+  id: number;
+  code: number;
+  team_h: number;
+  team_a: number;
+  team_h_score: number | null;
+  team_a_score: number | null;
+  event: number | null;
+  event_name: string | null;
+  finished: boolean;
+  minutes: number;
+  provisional_start_time: boolean;
+  kickoff_time: string | null;
+  is_home: boolean;
+  difficulty: number;
+}
+
+/**
+ * A season summary for a player in a previous season.
+ */
+export interface ElementHistoryPast {
+  season_name: string;
+  element_code: number;
+  start_cost: number;
+  end_cost: number;
+  total_points: number;
+  minutes: number;
+  starts: number;
+  goals_scored: number;
+  assists: number;
+  clean_sheets: number;
+  goals_conceded: number;
+  own_goals: number;
+  penalties_saved: number;
+  penalties_missed: number;
+  yellow_cards: number;
+  red_cards: number;
+  saves: number;
+  bonus: number;
+  bps: number;
+  influence: string;
+  creativity: string;
+  threat: string;
+  ict_index: string;
+  expected_goals: string;
+  expected_assists: string;
+  expected_goal_involvements: string;
+  expected_goals_conceded: string;
+}
+
+export interface PlayerSummary {
+  fixtures: ElementFixture[];
+  history: ElementHistory[];
+  history_past: ElementHistoryPast[];
+}
+
+export interface LiveElementStats {
+  minutes: number;
+  goals_scored: number;
+  assists: number;
+  clean_sheets: number;
+  goals_conceded: number;
+  own_goals: number;
+  penalties_saved: number;
+  penalties_missed: number;
+  yellow_cards: number;
+  red_cards: number;
+  saves: number;
+  bonus: number;
+  bps: number;
+  influence: string;
+  creativity: string;
+  threat: string;
+  ict_index: string;
+  starts: number;
+  expected_goals: string;
+  expected_assists: string;
+  expected_goal_involvements: string;
+  expected_goals_conceded: string;
+  total_points: number;
+  in_dreamteam: boolean;
+}
+
+export interface LiveElementExplain {
+  fixture: number;
+  stats: { identifier: string; points: number; value: number }[];
+}
+
+export interface LiveElement {
+  id: number;
+  stats: LiveElementStats;
+  explain: LiveElementExplain[];
+}
+
+export interface GameweekLive {
+  elements: LiveElement[];
+}
+
+export interface EntryLeague {
+  id: number;
+  name: string;
+  entry_rank: number | null;
+  entry_last_rank: number | null;
+}
+
+/**
+ * A manager's team (`entry/{id}/`).
+ */
+export interface Entry {
+  id: number;
+  name: string;
+  player_first_name: string;
+  player_last_name: string;
+  player_region_name: string;
+  joined_time: string;
+  started_event: number;
+  favourite_team: number | null;
+  current_event: number | null;
+  summary_overall_points: number | null;
+  summary_overall_rank: number | null;
+  summary_event_points: number | null;
+  last_deadline_bank: number | null;
+  last_deadline_value: number | null;
+  last_deadline_total_transfers: number;
+  leagues: { classic: EntryLeague[]; h2h: EntryLeague[] };
+}
+
+export interface EntryEventHistory {
+  event: number;
+  points: number;
+  total_points: number;
+  rank: number | null;
+  overall_rank: number | null;
+  bank: number;
+  value: number;
+  event_transfers: number;
+  event_transfers_cost: number;
+  points_on_bench: number;
+}
+
+export interface EntryChip {
+  name: string;
+  time: string;
+  event: number;
+}
+
+/**
+ * A manager's season history (`entry/{id}/history/`).
+ */
+export interface EntryHistory {
+  current: EntryEventHistory[];
+  past: { season_name: string; total_points: number; rank: number }[];
+  chips: EntryChip[];
+}
+
+/**
+ * A single transfer (`entry/{id}/transfers/`). Costs are in tenths of a million.
+ */
+export interface EntryTransfer {
+  entry: number;
+  event: number;
+  time: string;
+  element_in: number;
+  element_in_cost: number;
+  element_out: number;
+  element_out_cost: number;
+}
+
+export interface Pick {
+  element: number;
+  position: number;
+  multiplier: number;
+  is_captain: boolean;
+  is_vice_captain: boolean;
+}
+
+/**
+ * A manager's squad for one gameweek (`entry/{id}/event/{gw}/picks/`).
+ */
+export interface EntryPicks {
+  active_chip: string | null;
+  automatic_subs: { entry: number; element_in: number; element_out: number; event: number }[];
+  entry_history: EntryEventHistory;
+  picks: Pick[];
+}
+
+export interface ClassicLeague {
+  id: number;
+  name: string;
+  created: string;
+  closed: boolean;
+  league_type: string;
+  scoring: string;
+  start_event: number;
+  admin_entry: number | null;
+}
+
+export interface ClassicLeagueStanding {
+  id: number;
+  entry: number;
+  entry_name: string;
+  player_name: string;
+  rank: number;
+  last_rank: number;
+  rank_sort: number;
+  total: number;
+  event_total: number;
+}
+
+/**
+ * One page of a classic league's standings (`leagues-classic/{id}/standings/`).
+ */
+export interface ClassicLeagueStandingsPage {
+  league: ClassicLeague;
+  standings: {
+    has_next: boolean;
+    page: number;
+    results: ClassicLeagueStanding[];
+  };
+}
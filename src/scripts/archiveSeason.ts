@@ -0,0 +1,27 @@
+import { connectToDatabase } from "../config/database";
+import { archiveSeason, getCurrentSeason } from "../data/season";
+import { MongoStorage } from "../storage/mongoStorage";
+import { flagValue } from "../utils/cliArgs";
+import { logger } from "../utils/logger";
+
+/**
+ * Snapshots a season into the `archive_*` collections before a new season's data is
+ * collected. Archives the current season unless `--season <e.g. 2024/25>` is passed.
+ */
+async function main() {
+  const mongoClient = await connectToDatabase();
+  try {
+    const storage = new MongoStorage(mongoClient);
+    const season = flagValue("season") ?? (await getCurrentSeason(storage));
+    const counts = await archiveSeason(storage, season);
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    logger.info(`Archived ${total} documents for season ${season}`, counts);
+  } catch (error) {
+    logger.error("Failed to archive season:", error);
+    process.exitCode = 1;
+  } finally {
+    await mongoClient.close();
+  }
+}
+
+main();
@@ -0,0 +1,41 @@
+import { connectToDatabase } from "../config/database";
+import { PlayerDataImporter } from "../data/playerDataImport";
+import { MongoStorage } from "../storage/mongoStorage";
+import { flagValue } from "../utils/cliArgs";
+import { logger } from "../utils/logger";
+
+/**
+ * Imports a CSV or JSON file of per-player data, e.g. penalty takers or third-party xG:
+ * `--file <path>`, optionally `--source <name>` (defaults to the file name) and
+ * `--season <e.g. 2024/25>` (defaults to the current season). Rows are matched to
+ * players by an `id`/`element` column, or by `web_name`/`name`/`player` plus an
+ * optional `team`; every other column is imported. Exits non-zero when rows are
+ * left unmatched.
+ */
+async function main() {
+  const file = flagValue("file");
+  if (!file) {
+    logger.error("Usage: import-player-data --file <path> [--source <name>] [--season <season>]");
+    process.exitCode = 1;
+    return;
+  }
+
+  const mongoClient = await connectToDatabase();
+  try {
+    const importer = new PlayerDataImporter(new MongoStorage(mongoClient));
+    const report = await importer.importFile(file, {
+      source: flagValue("source"),
+      season: flagValue("season"),
+    });
+    if (report.unmatched.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error("Failed to import player data:", error);
+    process.exitCode = 1;
+  } finally {
+    await mongoClient.close();
+  }
+}
+
+main();
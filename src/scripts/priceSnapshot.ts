@@ -0,0 +1,40 @@
+import { connectToDatabase } from "../config/database";
+import { PriceTracker } from "../data/priceTracker";
+import { MongoStorage } from "../storage/mongoStorage";
+import { flagValue } from "../utils/cliArgs";
+import { logger } from "../utils/logger";
+
+/**
+ * Daily price job: stores today's price snapshot of every player and logs the players
+ * most likely to rise or fall tonight. `--limit <n>` sets the length of each list.
+ */
+async function main() {
+  const mongoClient = await connectToDatabase();
+  try {
+    const tracker = new PriceTracker(new MongoStorage(mongoClient));
+    const data = await tracker.takeSnapshot();
+    const limit = Number(flagValue("limit") ?? 10);
+    const { risers, fallers } = await tracker.priceChangeReport(data.total_players, limit);
+
+    const format = (probability: number) => `${Math.round(probability * 100)}%`;
+    logger.info("Likely risers:");
+    for (const player of risers) {
+      logger.info(
+        `  ${player.webName ?? player.element} (${player.nowCost / 10}m): ${format(player.riseProbability)}, net ${player.netTransfersSinceChange}`
+      );
+    }
+    logger.info("Likely fallers:");
+    for (const player of fallers) {
+      logger.info(
+        `  ${player.webName ?? player.element} (${player.nowCost / 10}m): ${format(player.fallProbability)}, net ${player.netTransfersSinceChange}`
+      );
+    }
+  } catch (error) {
+    logger.error("Failed to take price snapshot:", error);
+    process.exitCode = 1;
+  } finally {
+    await mongoClient.close();
+  }
+}
+
+main();
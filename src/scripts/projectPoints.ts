@@ -0,0 +1,94 @@
+import { connectToDatabase } from "../config/database";
+import { GameweekCalendar } from "../data/gameweekCalendar";
+import { getCurrentSeason } from "../data/season";
+import { MongoStorage } from "../storage/mongoStorage";
+import { flagValue } from "../utils/cliArgs";
+import { logger } from "../utils/logger";
+
+const PARTS = [
+  "Appearance",
+  "Goals",
+  "Assists",
+  "CleanSheet",
+  "GoalsConceded",
+  "Saves",
+  "Cards",
+  "Bonus",
+];
+
+/**
+ * Lists the players with the most expected points in a gameweek and where the points
+ * come from, from the stored player fixture features. `--gameweek <n>` defaults to the
+ * next gameweek, `--position <GKP|DEF|MID|FWD>` keeps one position and `--limit <n>`
+ * sets the length of the list. Run the pipeline first to engineer the features.
+ */
+async function main() {
+  const mongoClient = await connectToDatabase();
+  try {
+    const storage = new MongoStorage(mongoClient);
+    const season = await getCurrentSeason(storage);
+    const calendar = await GameweekCalendar.load(storage, season);
+    const gameweek = Number(flagValue("gameweek") ?? calendar.upcomingGameweeks(1)[0]);
+    if (!Number.isInteger(gameweek)) {
+      throw new Error("No upcoming gameweek; pass --gameweek <n>");
+    }
+    const limit = Number(flagValue("limit") ?? 20);
+    const position = flagValue("position")?.toUpperCase();
+
+    const positions = new Map(
+      (await storage.collection("elements_types").find({ season })).map((elementType) => [
+        elementType.id,
+        elementType.singular_name_short,
+      ])
+    );
+    const players = new Map(
+      (await storage.collection("processed_players").find({ season })).map((player) => [
+        player.id,
+        player,
+      ])
+    );
+    const features = await storage
+      .collection("player_fixture_features")
+      .find({ season, event: gameweek });
+
+    // A player with two fixtures in the gameweek scores in both
+    const projections = new Map<number, Record<string, number>>();
+    for (const fixture of features) {
+      if (typeof fixture.expectedPoints !== "number") continue;
+      const projection = projections.get(fixture.id) ?? { expectedPoints: 0, fixtures: 0 };
+      for (const field of ["expectedPoints", ...PARTS.map((part) => `expectedPoints${part}`)]) {
+        projection[field] = (projection[field] ?? 0) + (fixture[field] ?? 0);
+      }
+      projection.fixtures += 1;
+      projections.set(fixture.id, projection);
+    }
+
+    const ranked = [...projections]
+      .filter(([id]) => {
+        const elementType = players.get(id)?.elementType;
+        return !position || (elementType !== undefined && positions.get(elementType) === position);
+      })
+      .sort(([, a], [, b]) => b.expectedPoints - a.expectedPoints)
+      .slice(0, limit);
+
+    logger.info(`Expected points for gameweek ${gameweek}:`);
+    for (const [id, projection] of ranked) {
+      const player = players.get(id);
+      const parts = PARTS.map((part) => [part, projection[`expectedPoints${part}`]] as const)
+        .filter(([, points]) => Math.abs(points) >= 0.05)
+        .map(([part, points]) => `${part} ${points.toFixed(1)}`)
+        .join(", ");
+      const fixtures = projection.fixtures > 1 ? `, ${projection.fixtures} fixtures` : "";
+      logger.info(
+        `  ${player?.webName ?? id} (${positions.get(player?.elementType ?? 0) ?? "?"}${fixtures}): ${projection.expectedPoints.toFixed(1)} (${parts})`
+      );
+    }
+  } catch (error) {
+    logger.error("Failed to project points:", error);
+    process.exitCode = 1;
+  } finally {
+    await mongoClient.close();
+  }
+}
+
+main();
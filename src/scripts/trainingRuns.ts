@@ -0,0 +1,70 @@
+import { connectToDatabase } from "../config/database";
+import { comparisonRows, formatTable } from "../ml/trainingRuns";
+import { MongoStorage } from "../storage/mongoStorage";
+import { flagValue } from "../utils/cliArgs";
+import { logger } from "../utils/logger";
+
+const score = (value: number | undefined) => (value === undefined ? "-" : value.toFixed(3));
+
+/**
+ * Lists the latest model training runs, newest first, with their final validation
+ * scores; `--limit <n>` sets the length of the list (10 by default). `--compare
+ * <runId>,<runId>,...` instead shows the given runs side by side: hyperparameters,
+ * features, dataset, per-epoch results and evaluation scores.
+ */
+async function main() {
+  const limitFlag = flagValue("limit");
+  const limit = Number(limitFlag ?? 10);
+  if (!Number.isInteger(limit) || limit < 1) {
+    logger.error(`Invalid --limit "${limitFlag}"; expected a positive integer`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const mongoClient = await connectToDatabase();
+  try {
+    const runs = new MongoStorage(mongoClient).collection("training_runs");
+    const compare = flagValue("compare");
+
+    if (compare) {
+      const runIds = compare.split(",");
+      const found = await runs.find({ runId: { $in: runIds } });
+      const missing = runIds.filter((runId) => !found.some((run) => run.runId === runId));
+      if (missing.length > 0) {
+        throw new Error(`No training runs ${missing.join(", ")}`);
+      }
+      const ordered = runIds.map((runId) => found.find((run) => run.runId === runId)!);
+      for (const line of formatTable(comparisonRows(ordered))) logger.info(line);
+      return;
+    }
+
+    const latest = await runs.find({}, { sort: { startedAt: -1 }, limit });
+    if (latest.length === 0) {
+      logger.info("No training runs recorded yet");
+      return;
+    }
+    const lines = formatTable([
+      ["run", "status", "dataset", "rows", "epochs", "val mae", "eval mae", "rmse", "r2", "baseline"],
+      ...latest.map((run) => [
+        run.runId,
+        run.status,
+        run.datasetHash.slice(0, 12),
+        String(run.datasetRows),
+        `${run.epochs.length}/${run.hyperparameters.epochs}`,
+        score(run.epochs[run.epochs.length - 1]?.valMae),
+        score(run.evaluation?.mae),
+        score(run.evaluation?.rmse),
+        score(run.evaluation?.r2),
+        score(run.evaluation?.baselineMae),
+      ]),
+    ]);
+    for (const line of lines) logger.info(line);
+  } catch (error) {
+    logger.error("Failed to list training runs:", error);
+    process.exitCode = 1;
+  } finally {
+    await mongoClient.close();
+  }
+}
+
+main();
@@ -1,20 +1,88 @@
-import axios from 'axios';
-import { BootstrapStatic, Fixture, PlayerSummary, GameweekLive } from '../models/fplTypes';
+import {
+  BootstrapStatic,
+  ClassicLeague,
+  ClassicLeagueStanding,
+  ClassicLeagueStandingsPage,
+  Entry,
+  EntryHistory,
+  EntryPicks,
+  EntryTransfer,
+  Fixture,
+  PlayerSummary,
+  GameweekLive,
+} from '../models/fplTypes';
+import {
+  FPLValidationError,
+  validateBootstrapStatic,
+  validateClassicLeagueStandings,
+  validateEntry,
+  validateEntryHistory,
+  validateEntryPicks,
+  validateEntryTransfers,
+  validateFixtures,
+  validateGameweekLive,
+  validatePlayerSummary,
+} from '../models/fplSchemas';
+import { FPLRequester, RequesterOptions } from './fplRequester';
+import { FPLTransport } from './transports';
+import { apiConfig } from '../config/api';
+import { logger } from '../utils/logger';
 
 const FPL_API_BASE_URL = 'https://fantasy.premierleague.com/api';
 
+/**
+ * How malformed payloads are handled: `strict` rejects them with an `FPLValidationError`,
+ * `report` logs the offending fields and passes the payload through unchanged.
+ */
+export type ValidationMode = 'strict' | 'report';
+
 /**
  * Provides methods to interact with the Fantasy Premier League (FPL) API.
+ * Requests go through a pluggable `FPLTransport` (by default the rate-limited, retrying
+ * `FPLRequester`), and every response is validated against the schemas in `fplSchemas.ts`
+ * before it is returned.
  */
 export class FPLApiService {
+  static validationMode: ValidationMode =
+    process.env.FPL_VALIDATION_MODE === 'report' ? 'report' : 'strict';
+
+  private static transport: FPLTransport = FPLApiService.createRequester();
+
+  /**
+   * Creates the HTTP transport, e.g. to wrap it in a `RecordingTransport`.
+   * Options that are not given keep their values from `apiConfig`.
+   * @param options - The rate limit, retry and timeout settings to override.
+   */
+  static createRequester(options: Partial<RequesterOptions> = {}): FPLRequester {
+    return new FPLRequester({ baseUrl: FPL_API_BASE_URL, ...apiConfig, ...options });
+  }
+
+  /**
+   * Replaces the request layer settings, e.g. to lower the rate limit or disable retries.
+   * This switches the service back to the live HTTP transport.
+   * @param options - The rate limit, retry and timeout settings to override.
+   */
+  static configure(options: Partial<RequesterOptions>) {
+    FPLApiService.transport = FPLApiService.createRequester(options);
+  }
+
+  /**
+   * Routes all subsequent requests through the given transport, e.g. a `RecordingTransport`
+   * or a `ReplayTransport` for offline runs.
+   * @param transport - The transport to use.
+   */
+  static useTransport(transport: FPLTransport) {
+    FPLApiService.transport = transport;
+  }
+
   /**
    * Retrieves the static bootstrap data for the Fantasy Premier League (FPL) API.
    * This data includes information such as teams, players, and other static data used by the FPL API.
    * @returns {Promise<BootstrapStatic>} The static bootstrap data from the FPL API.
    */
   static async getBootstrapStatic(): Promise<BootstrapStatic> {
-    const response = await axios.get(`${FPL_API_BASE_URL}/bootstrap-static/`);
-    return response.data;
+    const data = await FPLApiService.transport.get('/bootstrap-static/');
+    return FPLApiService.validate(data, validateBootstrapStatic);
   }
 
   /**
@@ -22,8 +90,8 @@ export class FPLApiService {
    * @returns {Promise<Fixture[]>} The list of fixtures from the FPL API.
    */
   static async getFixtures(): Promise<Fixture[]> {
-    const response = await axios.get(`${FPL_API_BASE_URL}/fixtures/`);
-    return response.data;
+    const data = await FPLApiService.transport.get('/fixtures/');
+    return FPLApiService.validate(data, validateFixtures);
   }
 
   /**
@@ -32,8 +100,8 @@ export class FPLApiService {
    * @returns {Promise<PlayerSummary>} The player summary data from the FPL API.
    */
   static async getPlayerSummary(playerId: number): Promise<PlayerSummary> {
-    const response = await axios.get(`${FPL_API_BASE_URL}/element-summary/${playerId}/`);
-    return response.data;
+    const data = await FPLApiService.transport.get(`/element-summary/${playerId}/`);
+    return FPLApiService.validate(data, validatePlayerSummary);
   }
 
   /**
@@ -42,7 +110,106 @@ export class FPLApiService {
    * @returns {Promise<GameweekLive>} The live data for the specified gameweek from the FPL API.
    */
   static async getGameweekLive(gameweek: number): Promise<GameweekLive> {
-    const response = await axios.get(`${FPL_API_BASE_URL}/event/${gameweek}/live/`);
-    return response.data;
+    const data = await FPLApiService.transport.get(`/event/${gameweek}/live/`);
+    return FPLApiService.validate(data, validateGameweekLive);
+  }
+
+  /**
+   * Retrieves a manager's team, including bank and league memberships.
+   * @param entryId - The ID of the manager's team.
+   * @returns {Promise<Entry>} The entry data from the FPL API.
+   */
+  static async getEntry(entryId: number): Promise<Entry> {
+    const data = await FPLApiService.transport.get(`/entry/${entryId}/`);
+    return FPLApiService.validate(data, validateEntry);
+  }
+
+  /**
+   * Retrieves a manager's gameweek-by-gameweek history, past seasons and chip usage.
+   * @param entryId - The ID of the manager's team.
+   * @returns {Promise<EntryHistory>} The entry history from the FPL API.
+   */
+  static async getEntryHistory(entryId: number): Promise<EntryHistory> {
+    const data = await FPLApiService.transport.get(`/entry/${entryId}/history/`);
+    return FPLApiService.validate(data, validateEntryHistory);
+  }
+
+  /**
+   * Retrieves every transfer a manager has made this season.
+   * @param entryId - The ID of the manager's team.
+   * @returns {Promise<EntryTransfer[]>} The transfers from the FPL API.
+   */
+  static async getEntryTransfers(entryId: number): Promise<EntryTransfer[]> {
+    const data = await FPLApiService.transport.get(`/entry/${entryId}/transfers/`);
+    return FPLApiService.validate(data, validateEntryTransfers);
+  }
+
+  /**
+   * Retrieves a manager's 15 picks for the specified gameweek.
+   * @param entryId - The ID of the manager's team.
+   * @param gameweek - The gameweek to retrieve the picks for.
+   * @returns {Promise<EntryPicks>} The picks, active chip and bank for that gameweek.
+   */
+  static async getEntryPicks(entryId: number, gameweek: number): Promise<EntryPicks> {
+    const data = await FPLApiService.transport.get(`/entry/${entryId}/event/${gameweek}/picks/`);
+    return FPLApiService.validate(data, validateEntryPicks);
+  }
+
+  /**
+   * Retrieves one page (50 entries) of a classic mini-league's standings.
+   * @param leagueId - The ID of the classic league.
+   * @param page - The 1-based standings page.
+   * @returns {Promise<ClassicLeagueStandingsPage>} The league and that page of standings.
+   */
+  static async getClassicLeagueStandingsPage(
+    leagueId: number,
+    page: number = 1
+  ): Promise<ClassicLeagueStandingsPage> {
+    const data = await FPLApiService.transport.get(
+      `/leagues-classic/${leagueId}/standings/?page_standings=${page}`
+    );
+    return FPLApiService.validate(data, validateClassicLeagueStandings);
+  }
+
+  /**
+   * Retrieves the complete standings of a classic mini-league, following pagination.
+   * @param leagueId - The ID of the classic league.
+   * @param maxPages - Stops after this many pages, as a guard against very large leagues.
+   * @returns The league details and every standing across all pages.
+   */
+  static async getClassicLeagueStandings(
+    leagueId: number,
+    maxPages: number = 20
+  ): Promise<{ league: ClassicLeague; standings: ClassicLeagueStanding[] }> {
+    const first = await FPLApiService.getClassicLeagueStandingsPage(leagueId, 1);
+    const standings = [...first.standings.results];
+    let hasNext = first.standings.has_next;
+    for (let page = 2; hasNext && page <= maxPages; page++) {
+      const next = await FPLApiService.getClassicLeagueStandingsPage(leagueId, page);
+      standings.push(...next.standings.results);
+      hasNext = next.standings.has_next;
+    }
+    if (hasNext) {
+      logger.info(`League ${leagueId} has more than ${maxPages} pages; standings truncated`);
+    }
+    return { league: first.league, standings };
+  }
+
+  /**
+   * Runs `validator` over a raw payload according to the current `validationMode`.
+   * @param payload - The raw response body.
+   * @param validator - A validator from `fplSchemas.ts` that throws on malformed payloads.
+   * @returns The payload, typed by the validator.
+   */
+  private static validate<T>(payload: unknown, validator: (payload: unknown) => T): T {
+    try {
+      return validator(payload);
+    } catch (error) {
+      if (error instanceof FPLValidationError && FPLApiService.validationMode === 'report') {
+        logger.error(error.message, error.issues);
+        return payload as T;
+      }
+      throw error;
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,102 @@
+import axios from 'axios';
+import { TokenBucket, sleep } from './rateLimiter';
+import { FPLTransport } from './transports';
+import { logger } from '../utils/logger';
+
+export interface RequesterOptions {
+  baseUrl: string;
+  requestsPerSecond: number;
+  burst: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'EAI_AGAIN']);
+
+/**
+ * Determines whether a failed request is worth retrying: rate limiting (429), server
+ * errors (5xx) and timeouts or dropped connections are; anything else (e.g. 404) is not.
+ * @param error - The error thrown by axios.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+  return error.code !== undefined && TIMEOUT_CODES.has(error.code);
+}
+
+/**
+ * The HTTP transport behind `FPLApiService`. Every request first takes a token from a
+ * shared rate limiter and is retried with exponential backoff and full jitter when it
+ * fails with a retryable error. A `Retry-After` header on 429 responses is honoured.
+ */
+export class FPLRequester implements FPLTransport {
+  private bucket: TokenBucket;
+
+  /**
+   * @param options - Rate limit, retry and timeout settings, see `apiConfig`.
+   * @param wait - Delay function used between retries, injectable for tests.
+   * @param random - Source of jitter in `[0, 1)`, injectable for tests.
+   */
+  constructor(
+    private options: RequesterOptions,
+    private wait: (ms: number) => Promise<void> = sleep,
+    private random: () => number = Math.random
+  ) {
+    this.bucket = new TokenBucket(options.burst, options.requestsPerSecond);
+  }
+
+  /**
+   * Performs a rate-limited GET request against the FPL API, retrying transient failures.
+   * @param endpoint - The endpoint path relative to the API base URL, e.g. `/fixtures/`.
+   * @returns The response body.
+   */
+  async get<T = unknown>(endpoint: string): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+      try {
+        const response = await axios.get(`${this.options.baseUrl}${endpoint}`, {
+          timeout: this.options.timeoutMs,
+        });
+        return response.data;
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        const delay = this.backoffDelay(attempt, error);
+        logger.info(
+          `Request to ${endpoint} failed (${this.describe(error)}), retrying in ${delay}ms (attempt ${attempt + 1}/${this.options.maxRetries})`
+        );
+        await this.wait(delay);
+      }
+    }
+  }
+
+  /**
+   * Calculates the delay before the next attempt: the `Retry-After` header when the server
+   * sent one, otherwise a random delay of up to `baseDelayMs * 2^attempt`, capped at `maxDelayMs`.
+   */
+  private backoffDelay(attempt: number, error: unknown): number {
+    if (axios.isAxiosError(error)) {
+      const retryAfter = Number(error.response?.headers?.['retry-after']);
+      if (Number.isFinite(retryAfter) && retryAfter > 0) {
+        return Math.min(retryAfter * 1000, this.options.maxDelayMs);
+      }
+    }
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(this.random() * ceiling);
+  }
+
+  private describe(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      return error.response ? `HTTP ${error.response.status}` : error.code || error.message;
+    }
+    return String(error);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Resolves after the given number of milliseconds.
+ * @param ms - The delay in milliseconds.
+ */
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * A token-bucket rate limiter. The bucket holds up to `capacity` tokens and is refilled
+ * continuously at `refillPerSecond`; every request consumes one token and waits when the
+ * bucket is empty.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  /**
+   * @param capacity - The maximum number of tokens, i.e. the allowed burst size.
+   * @param refillPerSecond - The number of tokens added per second, i.e. the sustained rate.
+   * @param now - Clock used to measure elapsed time, injectable for tests.
+   * @param wait - Delay function used while the bucket is empty, injectable for tests.
+   */
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number,
+    private now: () => number = Date.now,
+    private wait: (ms: number) => Promise<void> = sleep
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = this.now();
+  }
+
+  /**
+   * Waits until a token is available and consumes it.
+   */
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const missing = 1 - this.tokens;
+      await this.wait(Math.ceil((missing / this.refillPerSecond) * 1000));
+    }
+  }
+
+  private refill() {
+    const now = this.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
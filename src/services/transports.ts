@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+
+/**
+ * Fetches a raw payload for an FPL API endpoint such as `/fixtures/`.
+ * `FPLApiService` sends every request through a transport, so the network can be swapped
+ * for recorded snapshots.
+ */
+export interface FPLTransport {
+  get(endpoint: string): Promise<unknown>;
+}
+
+/**
+ * A recorded response as stored on disk.
+ */
+export interface RecordedResponse {
+  endpoint: string;
+  recordedAt: string;
+  data: unknown;
+}
+
+/**
+ * Thrown in replay mode when no recording exists for the requested endpoint.
+ */
+export class SnapshotMissingError extends Error {
+  constructor(public readonly endpoint: string, directory: string) {
+    super(`No recorded response for ${endpoint} in ${directory}`);
+    this.name = 'SnapshotMissingError';
+  }
+}
+
+/**
+ * Maps an endpoint to the directory its recordings live in, e.g.
+ * `/element-summary/302/` becomes `element-summary_302` and
+ * `/leagues-classic/1/standings/?page_standings=2` becomes
+ * `leagues-classic_1_standings_page_standings_2`.
+ */
+export const endpointKey = (endpoint: string) =>
+  endpoint.split(/[/?&=]/).filter(Boolean).join('_') || 'root';
+
+const timestampFileName = (date: Date) => `${date.toISOString().replace(/:/g, '-')}.json`;
+
+/**
+ * Wraps another transport and writes every response it returns to
+ * `<directory>/<endpoint key>/<timestamp>.json`.
+ */
+export class RecordingTransport implements FPLTransport {
+  /**
+   * @param inner - The transport that performs the actual requests.
+   * @param directory - The snapshot directory to record into.
+   * @param now - Clock used to timestamp recordings, injectable for tests.
+   */
+  constructor(
+    private inner: FPLTransport,
+    private directory: string,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  async get(endpoint: string): Promise<unknown> {
+    const data = await this.inner.get(endpoint);
+    const recordedAt = this.now();
+    const endpointDir = path.join(this.directory, endpointKey(endpoint));
+    await fs.promises.mkdir(endpointDir, { recursive: true });
+    const recording: RecordedResponse = { endpoint, recordedAt: recordedAt.toISOString(), data };
+    await fs.promises.writeFile(
+      path.join(endpointDir, timestampFileName(recordedAt)),
+      JSON.stringify(recording)
+    );
+    return data;
+  }
+}
+
+/**
+ * Serves responses from a directory written by `RecordingTransport` without touching the
+ * network. For each endpoint the latest recording is used, or the latest one made at or
+ * before `at` when a point in time is given. Missing recordings fail with a
+ * `SnapshotMissingError` rather than falling back to the live API.
+ */
+export class ReplayTransport implements FPLTransport {
+  /**
+   * @param directory - The snapshot directory to replay from.
+   * @param at - Only replay recordings made at or before this moment.
+   */
+  constructor(private directory: string, private at?: Date) {}
+
+  async get(endpoint: string): Promise<unknown> {
+    const endpointDir = path.join(this.directory, endpointKey(endpoint));
+    const files = fs.existsSync(endpointDir) ? await fs.promises.readdir(endpointDir) : [];
+    const cutoff = this.at ? timestampFileName(this.at) : undefined;
+
+    // ISO timestamps sort lexicographically, so the last eligible file is the latest.
+    const candidates = files
+      .filter(file => file.endsWith('.json') && (!cutoff || file <= cutoff))
+      .sort();
+    const latest = candidates[candidates.length - 1];
+    if (!latest) {
+      throw new SnapshotMissingError(endpoint, this.directory);
+    }
+
+    const recording: RecordedResponse = JSON.parse(
+      await fs.promises.readFile(path.join(endpointDir, latest), 'utf8')
+    );
+    logger.info(`Replaying ${endpoint} recorded at ${recording.recordedAt}`);
+    return recording.data;
+  }
+}
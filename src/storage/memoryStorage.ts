@@ -0,0 +1,206 @@
+import { CollectionName, CollectionTypes } from "../models/documents";
+import {
+  Document,
+  DocumentCollection,
+  Filter,
+  FindOptions,
+  Storage,
+  Update,
+} from "./storage";
+
+const OPERATORS = ["$in", "$nin", "$ne", "$gt", "$gte", "$lt", "$lte", "$exists"];
+
+const isCondition = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  Object.keys(value).length > 0 &&
+  Object.keys(value).every((key) => OPERATORS.includes(key));
+
+const getPath = (document: object, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      document
+    );
+
+const comparable = (value: unknown) =>
+  value instanceof Date ? value.getTime() : (value as number | string);
+
+const equals = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Date || b instanceof Date) {
+    return comparable(a) === comparable(b);
+  }
+  if (typeof a === "object" && a !== null && typeof b === "object" && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+};
+
+// Like MongoDB: null matches a missing field, and a value matches an array containing it
+const matchesValue = (value: unknown, expected: unknown): boolean => {
+  if (expected === null) return value === null || value === undefined;
+  if (Array.isArray(value) && !Array.isArray(expected)) {
+    return value.some((item) => equals(item, expected));
+  }
+  return equals(value, expected);
+};
+
+const compare = (
+  value: unknown,
+  bound: unknown,
+  test: (a: number | string, b: number | string) => boolean
+) =>
+  value !== null &&
+  value !== undefined &&
+  (Array.isArray(value) ? value : [value]).some((item) =>
+    test(comparable(item), comparable(bound))
+  );
+
+function matchesCondition(value: unknown, condition: Record<string, unknown>): boolean {
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case "$in":
+        return (operand as unknown[]).some((item) => matchesValue(value, item));
+      case "$nin":
+        return !(operand as unknown[]).some((item) => matchesValue(value, item));
+      case "$ne":
+        return !matchesValue(value, operand);
+      case "$gt":
+        return compare(value, operand, (a, b) => a > b);
+      case "$gte":
+        return compare(value, operand, (a, b) => a >= b);
+      case "$lt":
+        return compare(value, operand, (a, b) => a < b);
+      case "$lte":
+        return compare(value, operand, (a, b) => a <= b);
+      case "$exists":
+        return (value !== undefined) === operand;
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Whether a document matches a filter, following MongoDB's semantics for the operators
+ * in `Condition`.
+ */
+export function matchesFilter(document: object, filter: object): boolean {
+  return Object.entries(filter).every(([path, expected]) => {
+    const value = getPath(document, path);
+    return isCondition(expected)
+      ? matchesCondition(value, expected)
+      : matchesValue(value, expected);
+  });
+}
+
+const sortDocuments = <T extends object>(documents: T[], sort: Record<string, 1 | -1>) =>
+  [...documents].sort((a, b) => {
+    for (const [path, direction] of Object.entries(sort)) {
+      const x = getPath(a, path);
+      const y = getPath(b, path);
+      if (x === y) continue;
+      if (x === undefined || x === null) return -direction;
+      if (y === undefined || y === null) return direction;
+      return comparable(x) < comparable(y) ? -direction : direction;
+    }
+    return 0;
+  });
+
+class MemoryDocumentCollection<T extends object> implements DocumentCollection<T> {
+  private documents: T[] = [];
+  private nextId = 1;
+
+  async find(filter: Filter<T> = {}, options: FindOptions = {}): Promise<T[]> {
+    let found = this.documents.filter((document) => matchesFilter(document, filter));
+    if (options.sort) found = sortDocuments(found, options.sort);
+    if (options.limit !== undefined) found = found.slice(0, options.limit);
+    return found.map((document) => structuredClone(document));
+  }
+
+  async findOne(filter: Filter<T>): Promise<T | null> {
+    const [found] = await this.find(filter, { limit: 1 });
+    return found ?? null;
+  }
+
+  async countDocuments(filter: Filter<T> = {}): Promise<number> {
+    return this.documents.filter((document) => matchesFilter(document, filter)).length;
+  }
+
+  async insertOne(document: T) {
+    this.documents.push({ _id: String(this.nextId++), ...structuredClone(document) });
+  }
+
+  async insertMany(documents: T[]) {
+    for (const document of documents) {
+      await this.insertOne(document);
+    }
+  }
+
+  async updateOne(
+    filter: Filter<T>,
+    update: Update<T>,
+    options: { upsert?: boolean } = {}
+  ) {
+    const index = this.documents.findIndex((document) =>
+      matchesFilter(document, filter)
+    );
+    if (index >= 0) {
+      this.documents[index] = { ...this.documents[index], ...structuredClone(update.$set) };
+    } else if (options.upsert) {
+      // Like MongoDB, an upsert starts from the filter's equality conditions
+      const seed = Object.fromEntries(
+        Object.entries(filter).filter(
+          ([path, value]) => !path.includes(".") && !isCondition(value)
+        )
+      );
+      await this.insertOne({ ...seed, ...update.$setOnInsert, ...update.$set } as T);
+    }
+  }
+
+  async updateMany(filter: Filter<T>, update: Update<T>) {
+    this.documents = this.documents.map((document) =>
+      matchesFilter(document, filter)
+        ? { ...document, ...structuredClone(update.$set) }
+        : document
+    );
+  }
+
+  async deleteMany(filter: Filter<T>): Promise<number> {
+    const before = this.documents.length;
+    this.documents = this.documents.filter(
+      (document) => !matchesFilter(document, filter)
+    );
+    return before - this.documents.length;
+  }
+
+  async createIndex() {
+    // Nothing to index: every query scans the whole collection
+  }
+}
+
+/**
+ * Storage kept in process memory, for tests and offline tooling that should run the
+ * pipeline without a database. Documents are copied on the way in and out, as they
+ * would be by a real database.
+ */
+export class MemoryStorage implements Storage {
+  private collections = new Map<string, MemoryDocumentCollection<Document>>();
+
+  collection<K extends CollectionName>(name: K): DocumentCollection<CollectionTypes[K]>;
+  collection(name: string): DocumentCollection<Document>;
+  collection(name: string): DocumentCollection<Document> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new MemoryDocumentCollection();
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+}
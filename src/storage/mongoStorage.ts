@@ -0,0 +1,77 @@
+import { Collection, Db, MongoClient } from "mongodb";
+import { CollectionName, CollectionTypes } from "../models/documents";
+import {
+  Document,
+  DocumentCollection,
+  Filter,
+  FindOptions,
+  Storage,
+  Update,
+} from "./storage";
+
+class MongoDocumentCollection<T extends object> implements DocumentCollection<T> {
+  constructor(private collection: Collection) {}
+
+  async find(filter: Filter<T> = {}, options: FindOptions = {}): Promise<T[]> {
+    let cursor = this.collection.find(filter as Document);
+    if (options.sort) cursor = cursor.sort(options.sort);
+    if (options.limit !== undefined) cursor = cursor.limit(options.limit);
+    return (await cursor.toArray()) as unknown as T[];
+  }
+
+  async findOne(filter: Filter<T>): Promise<T | null> {
+    return (await this.collection.findOne(filter as Document)) as T | null;
+  }
+
+  async countDocuments(filter: Filter<T> = {}): Promise<number> {
+    return this.collection.countDocuments(filter as Document);
+  }
+
+  async insertOne(document: T) {
+    await this.collection.insertOne({ ...document });
+  }
+
+  async insertMany(documents: T[]) {
+    if (documents.length === 0) return;
+    // The driver adds `_id` to what it inserts; copy so callers' objects stay untouched
+    await this.collection.insertMany(documents.map((document) => ({ ...document })));
+  }
+
+  async updateOne(
+    filter: Filter<T>,
+    update: Update<T>,
+    options: { upsert?: boolean } = {}
+  ) {
+    await this.collection.updateOne(filter as Document, update as Document, options);
+  }
+
+  async updateMany(filter: Filter<T>, update: Update<T>) {
+    await this.collection.updateMany(filter as Document, update as Document);
+  }
+
+  async deleteMany(filter: Filter<T>): Promise<number> {
+    const result = await this.collection.deleteMany(filter as Document);
+    return result.deletedCount;
+  }
+
+  async createIndex(keys: Record<string, 1 | -1>, options: { unique?: boolean } = {}) {
+    await this.collection.createIndex(keys, options);
+  }
+}
+
+/**
+ * Storage backed by the database of a connected MongoDB client.
+ */
+export class MongoStorage implements Storage {
+  private db: Db;
+
+  constructor(private mongoClient: MongoClient) {
+    this.db = this.mongoClient.db();
+  }
+
+  collection<K extends CollectionName>(name: K): DocumentCollection<CollectionTypes[K]>;
+  collection(name: string): DocumentCollection<Document>;
+  collection(name: string): DocumentCollection<Document> {
+    return new MongoDocumentCollection(this.db.collection(name));
+  }
+}
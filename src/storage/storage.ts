@@ -0,0 +1,75 @@
+import { CollectionName, CollectionTypes } from "../models/documents";
+
+/**
+ * A stored document of unknown shape.
+ */
+export type Document = Record<string, unknown>;
+
+/**
+ * Query operators supported by every storage backend.
+ */
+export interface Condition<V> {
+  $in?: V[];
+  $nin?: V[];
+  $ne?: V | null;
+  $gt?: V;
+  $gte?: V;
+  $lt?: V;
+  $lte?: V;
+  $exists?: boolean;
+}
+
+// Like MongoDB, a condition on an array field matches when any element matches.
+type Matchable<V> = V extends (infer E)[] ? E | V : V;
+
+/**
+ * A MongoDB-style filter: top-level fields are type checked, and dotted paths such as
+ * `"league.id"` are accepted as well.
+ */
+export type Filter<T> = {
+  [K in keyof T]?: Matchable<T[K]> | null | Condition<Matchable<T[K]>>;
+} & { [path: string]: unknown };
+
+export interface Update<T> {
+  $set?: Partial<T>;
+  $setOnInsert?: Partial<T>;
+}
+
+export interface FindOptions {
+  sort?: Record<string, 1 | -1>;
+  limit?: number;
+}
+
+/**
+ * The collection operations the pipeline uses. Every method returns plain documents
+ * rather than cursors, so backends can be swapped freely.
+ */
+export interface DocumentCollection<T extends object> {
+  find(filter?: Filter<T>, options?: FindOptions): Promise<T[]>;
+  findOne(filter: Filter<T>): Promise<T | null>;
+  countDocuments(filter?: Filter<T>): Promise<number>;
+  insertOne(document: T): Promise<void>;
+  /** Inserts the documents; an empty list is a no-op. */
+  insertMany(documents: T[]): Promise<void>;
+  updateOne(
+    filter: Filter<T>,
+    update: Update<T>,
+    options?: { upsert?: boolean }
+  ): Promise<void>;
+  updateMany(filter: Filter<T>, update: Update<T>): Promise<void>;
+  /** @returns The number of documents deleted. */
+  deleteMany(filter: Filter<T>): Promise<number>;
+  createIndex(
+    keys: Record<string, 1 | -1>,
+    options?: { unique?: boolean }
+  ): Promise<void>;
+}
+
+/**
+ * Typed access to the pipeline's collections. Known collections are typed by
+ * `CollectionTypes`; any other name (e.g. the `archive_*` collections) holds plain documents.
+ */
+export interface Storage {
+  collection<K extends CollectionName>(name: K): DocumentCollection<CollectionTypes[K]>;
+  collection(name: string): DocumentCollection<Document>;
+}
@@ -0,0 +1,24 @@
+/**
+ * Minimal command-line helpers shared by `index.ts` and the scripts in `src/scripts`.
+ */
+
+/**
+ * Returns true when `--name` was passed.
+ */
+export const hasFlag = (name: string, argv: string[] = process.argv) =>
+  argv.includes(`--${name}`);
+
+/**
+ * Returns the value following `--name` (`--name value` or `--name=value`), if any.
+ */
+export const flagValue = (
+  name: string,
+  argv: string[] = process.argv
+): string | undefined => {
+  const prefix = `--${name}=`;
+  const inline = argv.find((arg) => arg.startsWith(prefix));
+  if (inline) return inline.slice(prefix.length);
+  const index = argv.indexOf(`--${name}`);
+  const next = index >= 0 ? argv[index + 1] : undefined;
+  return next !== undefined && !next.startsWith("--") ? next : undefined;
+};
@@ -0,0 +1,40 @@
+/**
+ * A seeded source of uniform numbers in `[0, 1)` (mulberry32), for simulations that
+ * must give the same result on every run.
+ *
+ * @param seed - Any integer; the same seed always gives the same sequence.
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draws from a Poisson distribution with the given mean.
+ */
+export function samplePoisson(mean: number, random: () => number): number {
+  if (mean <= 0) return 0;
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+/**
+ * Draws from a normal distribution (Box-Muller).
+ */
+export function sampleNormal(mean: number, std: number, random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return mean + std * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,33 @@
+/**
+ * Runs `worker` over every item with at most `concurrency` calls in flight at once.
+ *
+ * Results are returned in the same order as `items`. The worker is expected to handle
+ * its own errors; a rejection aborts the pool and is propagated to the caller.
+ *
+ * @param items - The items to process.
+ * @param concurrency - The maximum number of concurrent workers.
+ * @param worker - The async function applied to each item.
+ * @returns The worker results, in input order.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    runWorker
+  );
+  await Promise.all(workers);
+  return results;
+}